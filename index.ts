@@ -2,22 +2,29 @@ import compression from 'compression';
 import cors from 'cors';
 import type { Application, NextFunction, Request, Response } from 'express';
 import express from 'express';
-import rateLimit from 'express-rate-limit';
 import helmet from 'helmet';
-import morgan from 'morgan';
 import path from 'path';
 import swaggerUi from 'swagger-ui-express';
 import config from './src/config';
 import { swaggerSpec } from './src/config/swagger';
 import { connectDB } from './src/helpers/db';
-import { validateApiKey } from './src/middlewares/apiKey';
+import { registerHealthChecks } from './src/helpers/healthChecks';
+import { requireApiScope, validateApiKey } from './src/middlewares/apiKey';
 import { errorHandler, notFoundHandler } from './src/middlewares/errorHandler';
+import { rateLimit } from './src/middlewares/rateLimit';
+import { requestContext } from './src/middlewares/requestContext';
+import { requestMetrics } from './src/middlewares/requestMetrics';
+import adminRoutes from './src/routes/admin.routes';
 import authRoutes from './src/routes/auth.routes';
 import categoryRoutes from './src/routes/category.routes';
 import healthRouter from './src/routes/health';
+import jobRoutes from './src/routes/job.routes';
+import metricsRoutes from './src/routes/metrics.routes';
 import notificationRoutes from './src/routes/notification.routes';
+import probeRoutes from './src/routes/probe.routes';
 import subscriptionRoutes from './src/routes/subscription.routes';
 import wallpaperRoutes from './src/routes/wallpaper.routes';
+import wellKnownRoutes from './src/routes/wellKnown.routes';
 import { CustomError } from './src/utils/customError';
 import logger from './src/utils/logger';
 
@@ -51,6 +58,8 @@ process.on('uncaughtException', (error: Error) => {
 });
 // --- END Global Error Handlers ---
 
+registerHealthChecks();
+
 // Connect to DB using an IIFE
 (async () => {
   try {
@@ -66,18 +75,19 @@ process.on('uncaughtException', (error: Error) => {
 const app: Application = express();
 
 // Trust the first hop for X-Forwarded-For header (Vercel proxy)
-// This is important for express-rate-limit and other IP-dependent middleware.
+// This is important for rate limiting and other IP-dependent middleware.
 app.set('trust proxy', 1);
 
-// --- BEGIN Initial Request Logging ---
-app.use((req: Request, _res: Response, next: NextFunction) => {
-  logger.info(`Incoming Request: ${req.method} ${req.originalUrl}`, {
-    headers: req.headers,
-    body: req.body,
-  });
-  next();
-});
-// --- END Initial Request Logging ---
+// Health probes and the Prometheus scrape target come first so frequent
+// polling skips logging, metrics, rate limits and API keys
+app.use('/health', probeRoutes);
+app.use('/metrics', metricsRoutes);
+
+// Request IDs and the per-request completion log
+app.use(requestContext);
+
+// Request counts and latencies for /metrics
+app.use(requestMetrics);
 
 // Security middleware
 app.use(helmet());
@@ -85,35 +95,31 @@ app.use(helmet());
 // Compression middleware
 app.use(compression());
 
-// Request logging
-app.use(
-  morgan('combined', {
-    stream: { write: (message) => logger.info(message.trim()) },
-  }),
-);
-
 // Body parsing
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
-// Rate limiting
-const limiter = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 100, // Limit each IP to 100 requests per windowMs
-  message: 'Too many requests from this IP, please try again later.',
-  standardHeaders: true,
-  legacyHeaders: false,
-});
-
-// Apply rate limiting to all routes
-app.use(limiter);
+// Rate limiting by user (with their subscription tier's limit) or by IP
+app.use('/v1/api', rateLimit());
 
 // CORS configuration
 const corsOptions = {
   origin: [config.clientUrl || ''], // Default to empty string if not set, as per original
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'],
   credentials: true,
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  allowedHeaders: [
+    'Content-Type',
+    'Authorization',
+    'X-Request-Id',
+    'X-Device-Id',
+  ],
+  exposedHeaders: [
+    'X-Request-Id',
+    'X-RateLimit-Limit',
+    'X-RateLimit-Remaining',
+    'X-RateLimit-Reset',
+    'Retry-After',
+  ],
 };
 logger.info('CORS Options Configured:', corsOptions);
 app.use(cors(corsOptions));
@@ -142,23 +148,29 @@ app.get('/test', (_req: Request, res: Response) => {
 
 app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerSpec));
 
-// API routes
-app.use('/v1/api/auth',validateApiKey, authRoutes);
-app.use('/v1/api/wallpapers',validateApiKey, wallpaperRoutes);
-app.use('/v1/api/categories',validateApiKey, categoryRoutes);
-app.use('/v1/api/health',validateApiKey, healthRouter);
-app.use('/v1/api/subscriptions', validateApiKey,subscriptionRoutes);
-app.use('/v1/api/notifications', validateApiKey,notificationRoutes);
+// Public signing keys for services verifying our tokens
+app.use('/.well-known', wellKnownRoutes);
 
 // Request timeout handling
 app.use((req: Request, res: Response, next: NextFunction) => {
   req.setTimeout(30000, () => {
-    const error = new CustomError('Request Timeout', 408);
-    next(error);
+    next(new CustomError('Request Timeout', 408));
   });
   next();
 });
 
+// API routes
+app.use('/v1/api/auth',validateApiKey, requireApiScope('auth'), authRoutes);
+app.use('/v1/api/wallpapers',validateApiKey, requireApiScope('wallpapers'), wallpaperRoutes);
+app.use('/v1/api/categories',validateApiKey, requireApiScope('categories'), categoryRoutes);
+app.use('/v1/api/health',validateApiKey, requireApiScope('health'), healthRouter);
+app.use('/v1/api/subscriptions', validateApiKey, requireApiScope('subscriptions'), subscriptionRoutes);
+app.use('/v1/api/notifications', validateApiKey, requireApiScope('notifications'), notificationRoutes);
+app.use('/v1/api/admin', validateApiKey, requireApiScope('admin'), adminRoutes);
+
+// Scheduled jobs authenticate with CRON_SECRET instead of an API key
+app.use('/v1/api/jobs', jobRoutes);
+
 // Error handling
 app.use(notFoundHandler);
 app.use(errorHandler);
@@ -167,7 +179,8 @@ app.use(errorHandler);
 // Vercel handles the server listening part automatically for the exported app.
 if (
   process.env.VERCEL_ENV !== 'production' &&
-  process.env.NODE_ENV !== 'production'
+  process.env.NODE_ENV !== 'production' &&
+  process.env.NODE_ENV !== 'test'
 ) {
   const port = config.port;
   app.listen(port, () => {
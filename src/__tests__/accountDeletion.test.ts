@@ -0,0 +1,130 @@
+import { Request, Response } from 'express';
+import { Types } from 'mongoose';
+import config from '../config';
+import { deleteAccount } from '../controllers/auth.controller';
+import { DeviceToken } from '../models/deviceToken.model';
+import { EngagementEvent } from '../models/engagementEvent.model';
+import { Like } from '../models/like.model';
+import { NotificationPreferences } from '../models/notificationPreferences.model';
+import { RefreshToken } from '../models/refreshToken.model';
+import { Session } from '../models/session.model';
+import { IUser, User } from '../models/user.model';
+import { Wallpaper } from '../models/wallpaper.model';
+import { WallpaperStatBucket } from '../models/wallpaperStatBucket.model';
+import { accountDeletionService } from '../services/accountDeletion.service';
+import { auditService } from '../services/audit.service';
+import { loginThrottleService } from '../services/loginThrottle.service';
+
+describe('accountDeletionService.purgeUser', () => {
+  const userId = new Types.ObjectId();
+  const savedId = new Types.ObjectId();
+  const likedId = new Types.ObjectId();
+  const user = { _id: userId, email: 'gone@example.com' } as unknown as IUser;
+
+  const mockSaved = (savedWallpapers: Types.ObjectId[]) =>
+    jest.spyOn(User, 'findOneAndUpdate').mockReturnValue({
+      select: async () => ({ savedWallpapers }),
+    } as never);
+
+  beforeEach(() => {
+    jest.spyOn(Wallpaper, 'updateMany').mockResolvedValue({} as never);
+    jest.spyOn(Wallpaper, 'updateOne').mockResolvedValue({} as never);
+    jest.spyOn(EngagementEvent, 'updateMany').mockResolvedValue({} as never);
+    jest
+      .spyOn(WallpaperStatBucket, 'updateMany')
+      .mockResolvedValue({} as never);
+    jest.spyOn(DeviceToken, 'deleteMany').mockResolvedValue({} as never);
+    jest
+      .spyOn(NotificationPreferences, 'deleteMany')
+      .mockResolvedValue({} as never);
+    jest.spyOn(Session, 'deleteMany').mockResolvedValue({} as never);
+    jest.spyOn(RefreshToken, 'deleteMany').mockResolvedValue({} as never);
+    jest.spyOn(loginThrottleService, 'unlock').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('decrements counters only for the saves and likes it removes', async () => {
+    mockSaved([savedId]);
+    jest
+      .spyOn(Like, 'findOneAndDelete')
+      .mockResolvedValue(null)
+      .mockResolvedValueOnce({ userId, wallpaperId: likedId } as never);
+    jest
+      .spyOn(User, 'deleteOne')
+      .mockRejectedValueOnce(new Error('connection lost'))
+      .mockResolvedValue({} as never);
+
+    await expect(accountDeletionService.purgeUser(user)).rejects.toThrow(
+      'connection lost',
+    );
+    expect(Wallpaper.updateMany).toHaveBeenCalledWith(
+      { _id: { $in: [savedId] }, saves: { $gt: 0 } },
+      { $inc: { saves: -1 } },
+    );
+    expect(Wallpaper.updateOne).toHaveBeenCalledWith(
+      { _id: likedId, likes: { $gt: 0 } },
+      { $inc: { likes: -1 } },
+    );
+
+    // The retry finds the saves and likes already gone
+    jest.mocked(Wallpaper.updateMany).mockClear();
+    jest.mocked(Wallpaper.updateOne).mockClear();
+    mockSaved([]);
+
+    await accountDeletionService.purgeUser(user);
+
+    expect(Wallpaper.updateMany).not.toHaveBeenCalledWith(expect.anything(), {
+      $inc: { saves: -1 },
+    });
+    expect(Wallpaper.updateOne).not.toHaveBeenCalled();
+    expect(User.deleteOne).toHaveBeenLastCalledWith({ _id: userId });
+  });
+});
+
+describe('deleteAccount', () => {
+  const requestFor = (password: string | undefined, signedInAt: Date) =>
+    ({
+      body: {},
+      user: { _id: new Types.ObjectId(), password },
+      authSession: { createdAt: signedInAt },
+    }) as unknown as Request;
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('makes accounts without a password sign in again first', async () => {
+    jest.useFakeTimers({ now: new Date('2024-06-01T12:00:00Z') });
+    const schedule = jest.spyOn(accountDeletionService, 'scheduleDeletion');
+    const signedInAt = new Date(
+      Date.now() - (config.accountDeletion.reauthWindow + 1) * 1000,
+    );
+
+    await expect(
+      deleteAccount(requestFor(undefined, signedInAt), {} as Response),
+    ).rejects.toMatchObject({
+      statusCode: 403,
+      code: 'REAUTHENTICATION_REQUIRED',
+    });
+    expect(schedule).not.toHaveBeenCalled();
+  });
+
+  it('schedules the deletion right after signing in', async () => {
+    const schedule = jest
+      .spyOn(accountDeletionService, 'scheduleDeletion')
+      .mockResolvedValue(new Date());
+    jest.spyOn(auditService, 'record').mockResolvedValue();
+    const res = { json: jest.fn() } as unknown as Response;
+
+    await deleteAccount(requestFor(undefined, new Date()), res);
+
+    expect(schedule).toHaveBeenCalled();
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({ success: true }),
+    );
+  });
+});
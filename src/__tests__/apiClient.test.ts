@@ -0,0 +1,176 @@
+import config from '../config';
+import { ApiClient } from '../models/apiClient.model';
+import { apiClientService } from '../services/apiClient.service';
+import { hashToken } from '../utils/tokenUtils';
+
+describe('apiClientService', () => {
+  const newClient = (keys: Array<{ apiKey: string; expiresAt?: Date }>) =>
+    new ApiClient({
+      name: 'android',
+      scopes: ['wallpapers'],
+      rateLimit: { limit: 1000, windowSeconds: 60 },
+      keys: keys.map(({ apiKey, expiresAt }) => ({
+        keyHash: hashToken(apiKey),
+        prefix: apiKey.slice(0, 10),
+        expiresAt,
+      })),
+    });
+
+  beforeEach(() => {
+    apiClientService.clearCache();
+    jest.spyOn(ApiClient, 'updateOne').mockResolvedValue({} as never);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  describe('authenticate', () => {
+    it('finds the client by the hash of the key', async () => {
+      const client = newClient([{ apiKey: 'wpk_good' }]);
+      const findOne = jest
+        .spyOn(ApiClient, 'findOne')
+        .mockResolvedValue(client);
+
+      const authenticated = await apiClientService.authenticate('wpk_good');
+
+      expect(findOne).toHaveBeenCalledWith({
+        'keys.keyHash': hashToken('wpk_good'),
+        revokedAt: { $exists: false },
+      });
+      expect(authenticated).toMatchObject({
+        id: client.id,
+        name: 'android',
+        keyId: client.keys[0].id,
+        scopes: ['wallpapers'],
+      });
+    });
+
+    it('rejects unknown and expired keys', async () => {
+      jest
+        .spyOn(ApiClient, 'findOne')
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(
+          newClient([
+            { apiKey: 'wpk_old', expiresAt: new Date(Date.now() - 1000) },
+          ]),
+        );
+
+      expect(await apiClientService.authenticate('wpk_unknown')).toBeNull();
+      expect(await apiClientService.authenticate('wpk_old')).toBeNull();
+    });
+
+    it('serves repeat lookups from the cache until it runs out', async () => {
+      jest.useFakeTimers({ now: new Date('2024-06-01T12:00:00Z') });
+      const findOne = jest
+        .spyOn(ApiClient, 'findOne')
+        .mockResolvedValue(newClient([{ apiKey: 'wpk_good' }]));
+
+      await apiClientService.authenticate('wpk_good');
+      await apiClientService.authenticate('wpk_good');
+      expect(findOne).toHaveBeenCalledTimes(1);
+
+      jest.advanceTimersByTime(config.apiClients.cacheTtl * 1000);
+      await apiClientService.authenticate('wpk_good');
+      expect(findOne).toHaveBeenCalledTimes(2);
+    });
+
+    it('stops accepting a cached key once it expires', async () => {
+      jest.useFakeTimers({ now: new Date('2024-06-01T12:00:00Z') });
+      jest
+        .spyOn(ApiClient, 'findOne')
+        .mockResolvedValue(
+          newClient([
+            { apiKey: 'wpk_good', expiresAt: new Date('2024-06-01T12:00:10Z') },
+          ]),
+        );
+
+      expect(await apiClientService.authenticate('wpk_good')).not.toBeNull();
+      jest.advanceTimersByTime(10 * 1000);
+      expect(await apiClientService.authenticate('wpk_good')).toBeNull();
+    });
+
+    it('gives the legacy key every scope but admin', async () => {
+      const { legacyKey } = config.apiClients;
+      config.apiClients.legacyKey = 'shared-secret';
+      try {
+        const authenticated =
+          await apiClientService.authenticate('shared-secret');
+
+        expect(authenticated?.name).toBe('legacy');
+        expect(authenticated?.scopes).toContain('wallpapers');
+        expect(authenticated?.scopes).not.toContain('admin');
+      } finally {
+        config.apiClients.legacyKey = legacyKey;
+      }
+    });
+  });
+
+  describe('rotateKey', () => {
+    it('keeps active keys valid until the overlap ends', async () => {
+      jest.useFakeTimers({ now: new Date('2024-06-01T12:00:00Z') });
+      const client = newClient([
+        { apiKey: 'wpk_current' },
+        { apiKey: 'wpk_soon', expiresAt: new Date('2024-06-01T12:30:00Z') },
+      ]);
+      jest.spyOn(client, 'save').mockResolvedValue(client);
+
+      const { apiKey, key } = await apiClientService.rotateKey(client, 3600);
+
+      expect(client.keys[0].expiresAt).toEqual(
+        new Date('2024-06-01T13:00:00Z'),
+      );
+      // Already expiring before the overlap ends; not extended
+      expect(client.keys[1].expiresAt).toEqual(
+        new Date('2024-06-01T12:30:00Z'),
+      );
+      expect(key.keyHash).toBe(hashToken(apiKey));
+      expect(key.expiresAt).toBeUndefined();
+    });
+
+    it('refuses overlaps longer than allowed', async () => {
+      const client = newClient([{ apiKey: 'wpk_current' }]);
+
+      await expect(
+        apiClientService.rotateKey(
+          client,
+          config.apiClients.maxRotationOverlap + 1,
+        ),
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe('revokeKey', () => {
+    it('stops a cached key from authenticating', async () => {
+      const client = newClient([{ apiKey: 'wpk_good' }]);
+      jest.spyOn(client, 'save').mockResolvedValue(client);
+      const findOne = jest
+        .spyOn(ApiClient, 'findOne')
+        .mockResolvedValueOnce(client)
+        .mockResolvedValueOnce(null);
+
+      expect(await apiClientService.authenticate('wpk_good')).not.toBeNull();
+      await apiClientService.revokeKey(client, client.keys[0].id);
+
+      expect(await apiClientService.authenticate('wpk_good')).toBeNull();
+      expect(findOne).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('revokeClient', () => {
+    it('stops the cached keys of the client from authenticating', async () => {
+      const client = newClient([{ apiKey: 'wpk_good' }]);
+      jest.spyOn(client, 'save').mockResolvedValue(client);
+      jest
+        .spyOn(ApiClient, 'findOne')
+        .mockResolvedValueOnce(client)
+        .mockResolvedValueOnce(null);
+
+      expect(await apiClientService.authenticate('wpk_good')).not.toBeNull();
+      await apiClientService.revokeClient(client);
+
+      expect(await apiClientService.authenticate('wpk_good')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,214 @@
+import mongoose from 'mongoose';
+import { presentWallpapers } from '../helpers/wallpaperPresenter';
+import { EngagementEvent } from '../models/engagementEvent.model';
+import { Like } from '../models/like.model';
+import { IUser } from '../models/user.model';
+import { Wallpaper } from '../models/wallpaper.model';
+import { WallpaperStatBucket } from '../models/wallpaperStatBucket.model';
+import { engagementService } from '../services/engagement.service';
+import {
+  MemoryRateLimitStore,
+  rateLimitService,
+} from '../services/rateLimit.service';
+import { statsQuerySchema } from '../validations/wallpaper.validation';
+
+describe('engagementService', () => {
+  const wallpaperId = new mongoose.Types.ObjectId();
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('records an event and counts it in the hour bucket', async () => {
+    jest.useFakeTimers({ now: new Date('2024-06-01T12:34:56Z') });
+    const create = jest
+      .spyOn(EngagementEvent, 'create')
+      .mockResolvedValue([] as never);
+    const updateOne = jest
+      .spyOn(WallpaperStatBucket, 'updateOne')
+      .mockResolvedValue({} as never);
+
+    await engagementService.recordEvent(wallpaperId, 'download', 'user-1');
+
+    expect(create).toHaveBeenCalledWith({
+      wallpaperId,
+      type: 'download',
+      userId: 'user-1',
+    });
+    expect(updateOne).toHaveBeenCalledWith(
+      { wallpaperId, hour: new Date('2024-06-01T12:00:00Z') },
+      { $inc: { downloads: 1 }, $addToSet: { userIds: 'user-1' } },
+      { upsert: true },
+    );
+  });
+
+  it('combines period counts with unique users', async () => {
+    const monday = new Date('2024-06-03T00:00:00Z');
+    const tuesday = new Date('2024-06-04T00:00:00Z');
+    jest.spyOn(WallpaperStatBucket, 'aggregate').mockResolvedValue([
+      {
+        buckets: [
+          { _id: tuesday, views: 4, downloads: 1, saves: 0, likes: 0 },
+          { _id: monday, views: 10, downloads: 2, saves: 1, likes: 3 },
+        ],
+        bucketUsers: [{ _id: monday, uniqueUsers: 5 }],
+        totals: [{ views: 14, downloads: 3, saves: 1, likes: 3 }],
+        totalUsers: [{ uniqueUsers: 5 }],
+      },
+    ]);
+
+    const stats = await engagementService.getStats([wallpaperId], {
+      from: monday,
+      to: new Date('2024-06-05T00:00:00Z'),
+      granularity: 'day',
+      timezone: 'UTC',
+    });
+
+    expect(stats.totals).toEqual({
+      views: 14,
+      downloads: 3,
+      saves: 1,
+      likes: 3,
+      uniqueUsers: 5,
+    });
+    expect(stats.buckets).toEqual([
+      {
+        date: monday,
+        views: 10,
+        downloads: 2,
+        saves: 1,
+        likes: 3,
+        uniqueUsers: 5,
+      },
+      {
+        date: tuesday,
+        views: 4,
+        downloads: 1,
+        saves: 0,
+        likes: 0,
+        uniqueUsers: 0,
+      },
+    ]);
+  });
+});
+
+describe('engagementService.trackInteraction', () => {
+  const wallpaperId = new mongoose.Types.ObjectId();
+  const originalStore = rateLimitService.getStore();
+
+  beforeEach(() => {
+    rateLimitService.setStore(new MemoryRateLimitStore());
+    jest.spyOn(engagementService, 'recordEvent').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    rateLimitService.setStore(originalStore);
+    jest.restoreAllMocks();
+  });
+
+  it('counts a viewer once per window', async () => {
+    const increment = jest
+      .spyOn(Wallpaper, 'findByIdAndUpdate')
+      .mockReturnValue({ select: () => ({ views: 8 }) } as never);
+    jest
+      .spyOn(Wallpaper, 'findById')
+      .mockReturnValue({ select: () => ({ views: 8 }) } as never);
+
+    const first = await engagementService.trackInteraction(
+      wallpaperId,
+      'view',
+      'device:abc',
+    );
+    const repeat = await engagementService.trackInteraction(
+      wallpaperId,
+      'view',
+      'device:abc',
+    );
+    const other = await engagementService.trackInteraction(
+      wallpaperId,
+      'view',
+      'device:def',
+    );
+
+    expect(first).toEqual({ counted: true, count: 8 });
+    expect(repeat).toEqual({ counted: false, count: 8 });
+    expect(other.counted).toBe(true);
+    expect(increment).toHaveBeenCalledTimes(2);
+    expect(increment).toHaveBeenCalledWith(
+      wallpaperId,
+      { $inc: { views: 1 } },
+      { new: true },
+    );
+    expect(engagementService.recordEvent).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('presentWallpapers', () => {
+  const liked = new Wallpaper({ title: 'Liked' });
+  const saved = new Wallpaper({ title: 'Saved' });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('leaves the viewer flags out for anonymous callers', async () => {
+    const find = jest.spyOn(Like, 'find');
+
+    const [wallpaper] = await presentWallpapers([liked]);
+
+    expect(wallpaper).not.toHaveProperty('isLikedByMe');
+    expect(wallpaper).not.toHaveProperty('isSavedByMe');
+    expect(find).not.toHaveBeenCalled();
+  });
+
+  it('flags the wallpapers the caller liked and saved', async () => {
+    jest.spyOn(Like, 'find').mockReturnValue({
+      select: () => ({ lean: async () => [{ wallpaperId: liked._id }] }),
+    } as never);
+    const user = {
+      _id: new mongoose.Types.ObjectId(),
+      savedWallpapers: [saved._id],
+    } as unknown as IUser;
+
+    const wallpapers = await presentWallpapers([liked, saved], user);
+
+    expect(wallpapers).toMatchObject([
+      { title: 'Liked', isLikedByMe: true, isSavedByMe: false },
+      { title: 'Saved', isLikedByMe: false, isSavedByMe: true },
+    ]);
+  });
+});
+
+describe('statsQuerySchema', () => {
+  it('defaults to the last 30 days by day in UTC', () => {
+    const query = statsQuerySchema.parse({ to: '2024-06-30T00:00:00Z' });
+
+    expect(query).toEqual({
+      from: new Date('2024-05-31T00:00:00Z'),
+      to: new Date('2024-06-30T00:00:00Z'),
+      granularity: 'day',
+      timezone: 'UTC',
+    });
+  });
+
+  it('rejects unknown timezones and ranges too long for the granularity', () => {
+    expect(
+      statsQuerySchema.safeParse({ timezone: 'Mars/Olympus_Mons' }).success,
+    ).toBe(false);
+    expect(
+      statsQuerySchema.safeParse({
+        from: '2024-01-01',
+        to: '2024-03-01',
+        granularity: 'hour',
+      }).success,
+    ).toBe(false);
+    expect(
+      statsQuerySchema.safeParse({
+        from: '2024-01-01',
+        to: '2024-03-01',
+        timezone: 'Asia/Kolkata',
+      }).success,
+    ).toBe(true);
+  });
+});
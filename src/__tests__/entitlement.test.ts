@@ -0,0 +1,179 @@
+import mongoose from 'mongoose';
+import cloudinary from '../config/cloudinary';
+import { generateSignedDownloadUrl } from '../helpers/cloudinary';
+import {
+  canAccessWallpaper,
+  deliveryTypeFor,
+  requiredTier,
+} from '../helpers/entitlement';
+import * as subscriptionTier from '../helpers/subscriptionTier';
+import { protectPaidWallpapers } from '../helpers/wallpaperDelivery';
+import { presentWallpapers } from '../helpers/wallpaperPresenter';
+import { Like } from '../models/like.model';
+import { IUser } from '../models/user.model';
+import { Wallpaper } from '../models/wallpaper.model';
+
+describe('wallpaper entitlement', () => {
+  const uploaderId = new mongoose.Types.ObjectId();
+  const premium = new Wallpaper({
+    title: 'Premium',
+    imageUrl:
+      'https://res.cloudinary.com/demo/image/upload/v1/wallpapers/p.png',
+    cloudinaryId: 'wallpapers/p',
+    isPremium: true,
+    deliveryType: 'authenticated',
+    uploadedBy: uploaderId,
+  });
+  const basic = new Wallpaper({
+    title: 'Basic',
+    cloudinaryId: 'wallpapers/b',
+    subscriptionTier: 'basic',
+    deliveryType: 'authenticated',
+  });
+  const free = new Wallpaper({ title: 'Free', cloudinaryId: 'wallpapers/f' });
+
+  const userWith = (role = 'user', _id = new mongoose.Types.ObjectId()) =>
+    ({
+      _id,
+      id: _id.toString(),
+      role,
+      savedWallpapers: [],
+    }) as unknown as IUser;
+
+  beforeAll(() => {
+    cloudinary.config({
+      cloud_name: 'demo',
+      api_key: 'key',
+      api_secret: 'secret',
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('compares the wallpaper tier with the caller tier', () => {
+    const user = userWith();
+
+    expect(requiredTier(premium)).toBe('premium');
+    expect(canAccessWallpaper(free, undefined, 'free')).toBe(true);
+    expect(canAccessWallpaper(basic, user, 'free')).toBe(false);
+    expect(canAccessWallpaper(basic, user, 'basic')).toBe(true);
+    expect(canAccessWallpaper(premium, user, 'basic')).toBe(false);
+    expect(canAccessWallpaper(premium, user, 'premium')).toBe(true);
+  });
+
+  it('stores wallpapers that need a subscription as authenticated images', () => {
+    expect(deliveryTypeFor(premium)).toBe('authenticated');
+    expect(deliveryTypeFor(basic)).toBe('authenticated');
+    expect(deliveryTypeFor(free)).toBe('upload');
+  });
+
+  it('always lets the uploader and moderators in', () => {
+    expect(
+      canAccessWallpaper(premium, userWith('user', uploaderId), 'free'),
+    ).toBe(true);
+    expect(canAccessWallpaper(premium, userWith('moderator'), 'free')).toBe(
+      true,
+    );
+  });
+
+  it('shows previews of wallpapers the caller has no access to', async () => {
+    jest
+      .spyOn(subscriptionTier, 'getSubscriptionTier')
+      .mockResolvedValue('basic');
+    jest.spyOn(Like, 'find').mockReturnValue({
+      select: () => ({ lean: async () => [] }),
+    } as never);
+
+    const [locked, unlocked] = await presentWallpapers(
+      [premium, basic],
+      userWith(),
+    );
+
+    expect(locked).toMatchObject({
+      hasAccess: false,
+      // Signed, so the transformation can't be dropped to get the original
+      imageUrl: expect.stringMatching(
+        /\/image\/authenticated\/s--[\w-]{8}--\/c_limit,w_640\/.*l_text:Arial_80_bold:PREVIEW/,
+      ),
+      cloudinaryId: undefined,
+    });
+    // A signed, screen sized copy; the original is only downloadable
+    expect(unlocked).toMatchObject({
+      hasAccess: true,
+      imageUrl: expect.stringMatching(
+        /\/image\/authenticated\/s--[\w-]{8}--\/c_limit,w_1080\/f_auto,q_auto:good\/v1\/wallpapers\/b$/,
+      ),
+      cloudinaryId: 'wallpapers/b',
+    });
+  });
+
+  it('looks up no tier when every wallpaper is free', async () => {
+    const getTier = jest.spyOn(subscriptionTier, 'getSubscriptionTier');
+
+    const [wallpaper] = await presentWallpapers([free]);
+
+    expect(wallpaper.hasAccess).toBe(true);
+    expect(getTier).not.toHaveBeenCalled();
+  });
+
+  it('signs download URLs that expire', () => {
+    jest.useFakeTimers({ now: new Date('2024-06-01T12:00:00Z') });
+
+    const { url, expiresAt } = generateSignedDownloadUrl(
+      premium.cloudinaryId,
+      premium.imageUrl,
+      premium.deliveryType,
+    );
+
+    expect(expiresAt).toEqual(new Date('2024-06-01T12:05:00Z'));
+    const params = new URL(url).searchParams;
+    expect(params.get('public_id')).toBe('wallpapers/p');
+    expect(params.get('format')).toBe('png');
+    expect(params.get('type')).toBe('authenticated');
+    expect(params.get('expires_at')).toBe(
+      String(Date.parse('2024-06-01T12:05:00Z') / 1000),
+    );
+    expect(params.get('signature')).toBeTruthy();
+  });
+
+  it('moves paid wallpapers that are still public to authenticated delivery', async () => {
+    const legacy = new Wallpaper({
+      title: 'Legacy premium',
+      imageUrl:
+        'https://res.cloudinary.com/demo/image/upload/v1/wallpapers/l.png',
+      cloudinaryId: 'wallpapers/l',
+      thumbnailUrl: 'https://res.cloudinary.com/demo/image/upload/wallpapers/l',
+      isPremium: true,
+    });
+    const find = jest
+      .spyOn(Wallpaper, 'find')
+      .mockReturnValue({ limit: async () => [legacy] } as never);
+    const rename = jest.spyOn(cloudinary.uploader, 'rename').mockResolvedValue({
+      public_id: 'wallpapers/l',
+      format: 'png',
+      version: 2,
+    });
+    jest.spyOn(legacy, 'save').mockResolvedValue(legacy);
+
+    expect(await protectPaidWallpapers(10)).toEqual({ moved: 1, failed: 0 });
+
+    expect(find).toHaveBeenCalledWith({
+      deliveryType: { $ne: 'authenticated' },
+      $or: [{ isPremium: true }, { subscriptionTier: { $ne: 'free' } }],
+    });
+    expect(rename).toHaveBeenCalledWith('wallpapers/l', 'wallpapers/l', {
+      type: 'upload',
+      to_type: 'authenticated',
+      invalidate: true,
+    });
+    expect(legacy.deliveryType).toBe('authenticated');
+    // Records where the original is without making it fetchable
+    expect(legacy.imageUrl).toBe(
+      'https://res.cloudinary.com/demo/image/authenticated/v2/wallpapers/l.png',
+    );
+    expect(legacy.thumbnailUrl).toMatch(/\/image\/authenticated\/s--/);
+  });
+});
@@ -0,0 +1,127 @@
+import express, { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import request from 'supertest';
+import { z } from 'zod';
+import { errorHandler, notFoundHandler } from '../middlewares/errorHandler';
+import { validate } from '../middlewares/validation.middleware';
+import { asyncHandler } from '../utils/asyncHandler';
+import { NotFoundError, TooManyRequestsError } from '../utils/customError';
+import logger from '../utils/logger';
+
+describe('errorHandler', () => {
+  const app = express();
+  app.use(express.json());
+
+  const fail = (error: unknown) =>
+    asyncHandler(async () => {
+      throw error;
+    });
+
+  app.post(
+    '/validated',
+    validate(z.object({ email: z.string().email('Invalid email format') })),
+    (req: Request, res: Response) => res.json({ success: true }),
+  );
+  app.get('/missing', fail(new NotFoundError('Wallpaper not found')));
+  app.get('/limited', fail(new TooManyRequestsError('Slow down', 41.2)));
+  app.get(
+    '/cast',
+    fail(
+      new mongoose.Error.CastError('ObjectId', 'abc', '_id', new Error('bad')),
+    ),
+  );
+  app.get(
+    '/duplicate',
+    fail(
+      Object.assign(new Error('E11000 duplicate key error'), {
+        code: 11000,
+        keyValue: { name: 'Nature' },
+      }),
+    ),
+  );
+  app.get('/crash', fail(new Error('connection string leaked')));
+  app.use(notFoundHandler);
+  app.use(errorHandler);
+
+  beforeAll(() => {
+    jest.spyOn(logger, 'error').mockImplementation(() => logger);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reports Zod failures with field-level details', async () => {
+    const response = await request(app)
+      .post('/validated')
+      .send({ email: 'nope' });
+
+    expect(response.status).toBe(400);
+    expect(response.body).toEqual({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid request data',
+        details: [{ field: 'email', message: 'Invalid email format' }],
+      },
+    });
+  });
+
+  it('passes typed errors from async handlers through', async () => {
+    const response = await request(app).get('/missing');
+
+    expect(response.status).toBe(404);
+    expect(response.body.error).toEqual({
+      code: 'NOT_FOUND',
+      message: 'Wallpaper not found',
+    });
+  });
+
+  it('sets Retry-After on rate limit errors', async () => {
+    const response = await request(app).get('/limited');
+
+    expect(response.status).toBe(429);
+    expect(response.headers['retry-after']).toBe('42');
+    expect(response.body.error).toMatchObject({
+      code: 'RATE_LIMIT_EXCEEDED',
+      retryAfter: 42,
+    });
+  });
+
+  it('maps Mongoose cast errors and duplicate keys', async () => {
+    const cast = await request(app).get('/cast');
+    expect(cast.status).toBe(400);
+    expect(cast.body.error.code).toBe('INVALID_ID');
+
+    const duplicate = await request(app).get('/duplicate');
+    expect(duplicate.status).toBe(409);
+    expect(duplicate.body.error).toMatchObject({
+      code: 'CONFLICT',
+      details: [{ field: 'name', message: 'Already in use' }],
+    });
+  });
+
+  it('hides the message of unexpected errors', async () => {
+    const response = await request(app).get('/crash');
+
+    expect(response.status).toBe(500);
+    expect(response.body.error).toEqual({
+      code: 'INTERNAL_SERVER_ERROR',
+      message: 'Something went wrong',
+    });
+    expect(logger.error).toHaveBeenCalled();
+  });
+
+  it('reports malformed JSON and unknown routes', async () => {
+    const malformed = await request(app)
+      .post('/validated')
+      .set('Content-Type', 'application/json')
+      .send('{"email":');
+    expect(malformed.status).toBe(400);
+    expect(malformed.body.error.code).toBe('INVALID_JSON');
+
+    const unknown = await request(app).get('/nowhere');
+    expect(unknown.status).toBe(404);
+    expect(unknown.body.success).toBe(false);
+  });
+});
@@ -0,0 +1,71 @@
+import config from '../config';
+import { healthService } from '../services/health.service';
+import logger from '../utils/logger';
+
+describe('healthService', () => {
+  const names = ['database', 'storage', 'notifications'];
+
+  beforeAll(() => {
+    jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+    Object.assign(config.health, { cacheTtl: 10, checkTimeout: 50 });
+  });
+
+  afterEach(() => {
+    names.forEach((name) => healthService.unregister(name));
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('is degraded when a non-critical check fails or is degraded', async () => {
+    healthService.register('database', async () => undefined, {
+      critical: true,
+    });
+    healthService.register('storage', async () => {
+      throw new Error('ping failed');
+    });
+    healthService.register('notifications', async () => ({
+      status: 'degraded',
+      message: 'Firebase is not initialized',
+    }));
+
+    const report = await healthService.check();
+
+    expect(report.status).toBe('degraded');
+    expect(report.checks).toMatchObject({
+      database: { status: 'healthy', critical: true },
+      storage: { status: 'unhealthy', message: 'ping failed' },
+      notifications: {
+        status: 'degraded',
+        message: 'Firebase is not initialized',
+      },
+    });
+  });
+
+  it('is unhealthy when a critical check times out', async () => {
+    healthService.register('database', () => new Promise(() => undefined), {
+      critical: true,
+    });
+
+    const report = await healthService.check();
+
+    expect(report.status).toBe('unhealthy');
+    expect(report.checks.database.message).toBe('Timed out after 50ms');
+  });
+
+  it('reuses results until the cache expires', async () => {
+    const check = jest.fn(async () => undefined);
+    healthService.register('database', check, { critical: true });
+
+    await Promise.all([healthService.check(), healthService.check()]);
+    await healthService.check();
+    expect(check).toHaveBeenCalledTimes(1);
+
+    jest
+      .spyOn(Date, 'now')
+      .mockReturnValue(Date.now() + config.health.cacheTtl * 1000 + 1);
+    await healthService.check();
+    expect(check).toHaveBeenCalledTimes(2);
+  });
+});
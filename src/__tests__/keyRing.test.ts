@@ -0,0 +1,93 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { KeyRing } from '../services/keyRing.service';
+
+const pem = (key: crypto.KeyObject) =>
+  key
+    .export({ format: 'pem', type: key.type === 'private' ? 'pkcs8' : 'spki' })
+    .toString();
+
+describe('KeyRing', () => {
+  const rsa = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const ec = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+
+  it('signs with the primary key and sets the kid header', () => {
+    const ring = new KeyRing(
+      [
+        { kid: 'old', alg: 'HS256', secret: 'old-secret' },
+        { kid: 'new', alg: 'RS256', privateKey: pem(rsa.privateKey) },
+      ],
+      'new',
+    );
+
+    const token = ring.sign({ id: '42' }, { expiresIn: 60 });
+    const { header } = jwt.decode(token, { complete: true }) as jwt.Jwt;
+
+    expect(header.kid).toBe('new');
+    expect(header.alg).toBe('RS256');
+    expect(ring.verify<{ id: string }>(token).id).toBe('42');
+  });
+
+  it('keeps verifying tokens signed with a rotated-out primary key', () => {
+    const keys = [
+      { kid: 'a', alg: 'HS256' as const, secret: 'secret-a' },
+      { kid: 'b', alg: 'ES256' as const, privateKey: pem(ec.privateKey) },
+    ];
+    const before = new KeyRing(keys, 'a');
+    const after = new KeyRing(keys, 'b');
+
+    const token = before.sign({ id: '1' });
+
+    expect(after.verify<{ id: string }>(token).id).toBe('1');
+  });
+
+  it('rejects tokens signed with an unknown kid', () => {
+    const ring = new KeyRing([{ kid: 'a', alg: 'HS256', secret: 's' }], 'a');
+    const token = jwt.sign({ id: '1' }, 's', { keyid: 'other' });
+
+    expect(() => ring.verify(token)).toThrow(/unknown signing key/);
+  });
+
+  it('rejects a token whose algorithm does not match its key', () => {
+    const ring = new KeyRing(
+      [
+        { kid: 'hmac', alg: 'HS256', secret: 'secret' },
+        { kid: 'rsa', alg: 'RS256', publicKey: pem(rsa.publicKey) },
+      ],
+      'hmac',
+    );
+    // Signing with the public key as an HMAC secret is the classic confusion attack
+    const forged = jwt.sign({ id: '1' }, pem(rsa.publicKey), {
+      algorithm: 'HS256',
+      keyid: 'rsa',
+    });
+
+    expect(() => ring.verify(forged)).toThrow();
+  });
+
+  it('requires the primary key to be able to sign', () => {
+    expect(
+      () =>
+        new KeyRing(
+          [{ kid: 'rsa', alg: 'RS256', publicKey: pem(rsa.publicKey) }],
+          'rsa',
+        ),
+    ).toThrow(/cannot sign/);
+  });
+
+  it('publishes only asymmetric keys in the JWKS', () => {
+    const ring = new KeyRing(
+      [
+        { kid: 'hmac', alg: 'HS256', secret: 'secret' },
+        { kid: 'ec', alg: 'ES256', privateKey: pem(ec.privateKey) },
+      ],
+      'hmac',
+    );
+
+    const { keys } = ring.getJwks();
+
+    expect(keys).toHaveLength(1);
+    expect(keys[0]).toMatchObject({ kid: 'ec', alg: 'ES256', kty: 'EC' });
+    expect(keys[0]).not.toHaveProperty('d');
+  });
+});
@@ -0,0 +1,106 @@
+import config from '../config';
+import { IUser } from '../models/user.model';
+import {
+  LoginThrottledError,
+  MemoryAttemptStore,
+  loginThrottleService,
+} from '../services/loginThrottle.service';
+import { MemoryTransport, mailService } from '../services/mail.service';
+
+describe('loginThrottleService', () => {
+  const user = { email: 'jane@example.com', name: 'Jane' } as IUser;
+  const transport = new MemoryTransport();
+
+  const fail = async (times: number, ip = '203.0.113.7') => {
+    for (let i = 0; i < times; i++) {
+      await loginThrottleService.recordFailure(user.email, ip, user);
+    }
+  };
+
+  beforeEach(() => {
+    loginThrottleService.setStore(new MemoryAttemptStore());
+    mailService.setTransport(transport);
+    transport.clear();
+    Object.assign(config.loginProtection, {
+      windowSeconds: 900,
+      freeAttempts: 3,
+      baseDelaySeconds: 1,
+      maxDelaySeconds: 30,
+      maxEmailFailures: 5,
+      maxIpFailures: 8,
+      lockoutSeconds: 900,
+    });
+  });
+
+  it('allows the first few failures without delay', async () => {
+    await fail(2);
+
+    await expect(
+      loginThrottleService.assertAllowed(user.email, '203.0.113.7'),
+    ).resolves.toBeUndefined();
+  });
+
+  it('delays attempts once the free attempts are used up', async () => {
+    await fail(4);
+
+    const error = await loginThrottleService
+      .assertAllowed(user.email, '203.0.113.7')
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(LoginThrottledError);
+    expect(error.statusCode).toBe(429);
+    expect(error.retryAfter).toBe(2);
+  });
+
+  it('locks the account and notifies the owner once', async () => {
+    await fail(6);
+
+    const error = await loginThrottleService
+      .assertAllowed(user.email, '198.51.100.1')
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(LoginThrottledError);
+    expect(error.statusCode).toBe(401);
+    expect(transport.outbox).toHaveLength(1);
+    expect(transport.outbox[0].to).toBe(user.email);
+  });
+
+  it('locks an IP across different emails', async () => {
+    for (let i = 0; i < 8; i++) {
+      await loginThrottleService.recordFailure(
+        `user${i}@example.com`,
+        '203.0.113.7',
+        null,
+      );
+    }
+
+    await expect(
+      loginThrottleService.assertAllowed('other@example.com', '203.0.113.7'),
+    ).rejects.toMatchObject({ statusCode: 429 });
+  });
+
+  it('counts failures without an email against the IP only', async () => {
+    for (let i = 0; i < 8; i++) {
+      await loginThrottleService.recordFailure(null, '203.0.113.7', null);
+    }
+
+    await expect(
+      loginThrottleService.assertAllowed(null, '203.0.113.7'),
+    ).rejects.toMatchObject({ statusCode: 429 });
+    await expect(
+      loginThrottleService.assertAllowed(user.email, '198.51.100.1'),
+    ).resolves.toBeUndefined();
+  });
+
+  it('clears the email counter on unlock', async () => {
+    await fail(6);
+    await loginThrottleService.unlock({
+      email: user.email,
+      ip: '203.0.113.7',
+    });
+
+    await expect(
+      loginThrottleService.assertAllowed(user.email, '203.0.113.7'),
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,70 @@
+import {
+  consumeMagicLinkToken,
+  sendSignupLinkEmail,
+} from '../helpers/magicLink';
+import { PendingSignup } from '../models/pendingSignup.model';
+import { User } from '../models/user.model';
+import { mailService } from '../services/mail.service';
+import { hashToken } from '../utils/tokenUtils';
+
+describe('sign-up links', () => {
+  beforeEach(() => {
+    jest.spyOn(mailService, 'send').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const sentToken = () => {
+    const [[message]] = jest.mocked(mailService.send).mock.calls;
+    return decodeURIComponent(message.text.match(/token=(\S+)/)![1]);
+  };
+
+  it('creates no account when the link is requested', async () => {
+    const upsert = jest
+      .spyOn(PendingSignup, 'findOneAndUpdate')
+      .mockResolvedValue(null);
+    const save = jest.spyOn(User.prototype, 'save');
+
+    await sendSignupLinkEmail('new@example.com', 'New User');
+
+    expect(upsert).toHaveBeenCalledWith(
+      { email: 'new@example.com' },
+      {
+        $set: {
+          name: 'New User',
+          tokenHash: hashToken(sentToken()),
+          expiresAt: expect.any(Date),
+        },
+      },
+      { upsert: true },
+    );
+    expect(save).not.toHaveBeenCalled();
+  });
+
+  it('creates the account when the link is opened', async () => {
+    jest.spyOn(User, 'findOneAndUpdate').mockResolvedValue(null);
+    const consume = jest
+      .spyOn(PendingSignup, 'findOneAndDelete')
+      .mockResolvedValue({
+        email: 'new@example.com',
+        name: 'New User',
+      } as never);
+    jest.spyOn(User, 'findOne').mockResolvedValue(null);
+    const save = jest
+      .spyOn(User.prototype, 'save')
+      .mockImplementation(async function (this: unknown) {
+        return this;
+      });
+
+    const user = await consumeMagicLinkToken('raw-token');
+
+    expect(consume).toHaveBeenCalledWith({
+      tokenHash: hashToken('raw-token'),
+      expiresAt: { $gt: expect.any(Date) },
+    });
+    expect(save).toHaveBeenCalled();
+    expect(user).toMatchObject({ email: 'new@example.com', name: 'New User' });
+  });
+});
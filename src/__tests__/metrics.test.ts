@@ -0,0 +1,85 @@
+import express, { Request, Response, Router } from 'express';
+import request from 'supertest';
+import { httpRequestsTotal } from '../helpers/metrics';
+import { errorHandler } from '../middlewares/errorHandler';
+import { requestMetrics } from '../middlewares/requestMetrics';
+import {
+  Counter,
+  Histogram,
+  metricsService,
+} from '../services/metrics.service';
+import { NotFoundError } from '../utils/customError';
+
+describe('metrics', () => {
+  it('renders counters and histograms in the Prometheus text format', () => {
+    const counter = new Counter('jobs_total', 'Jobs run', ['name']);
+    counter.inc({ name: 'purge' });
+    counter.inc({ name: 'purge' }, 2);
+    counter.inc({ name: 'say "hi"' });
+
+    const histogram = new Histogram('job_seconds', 'Job duration', [], [1, 5]);
+    histogram.observe({}, 0.5);
+    histogram.observe({}, 3);
+    histogram.observe({}, 7);
+
+    expect(counter.render()).toEqual([
+      'jobs_total{name="purge"} 3',
+      'jobs_total{name="say \\"hi\\""} 1',
+    ]);
+    expect(histogram.render()).toEqual([
+      'job_seconds_bucket{le="1"} 1',
+      'job_seconds_bucket{le="5"} 2',
+      'job_seconds_bucket{le="+Inf"} 3',
+      'job_seconds_sum 10.5',
+      'job_seconds_count 3',
+    ]);
+  });
+
+  it('estimates quantiles by interpolating within buckets', () => {
+    const histogram = new Histogram('latency', 'Latency', [], [0.1, 0.2, 1]);
+    for (let i = 0; i < 90; i++) histogram.observe({}, 0.05);
+    for (let i = 0; i < 10; i++) histogram.observe({}, 0.15);
+
+    const {
+      count,
+      quantiles: [p50, p95, p99],
+    } = histogram.summarize([0.5, 0.95, 0.99]);
+
+    expect(count).toBe(100);
+    expect(p50).toBeCloseTo(0.0556, 4);
+    expect(p95).toBeCloseTo(0.15, 4);
+    expect(p99).toBeCloseTo(0.19, 4);
+  });
+
+  describe('requestMetrics middleware', () => {
+    const router = Router();
+    router.get('/:id', (req: Request, res: Response) => {
+      if (req.params.id === 'missing') {
+        throw new NotFoundError('Wallpaper not found');
+      }
+      res.json({ id: req.params.id });
+    });
+
+    const app = express();
+    app.use(requestMetrics);
+    app.use('/v1/api/wallpapers', router);
+    app.use(errorHandler);
+
+    beforeEach(() => metricsService.reset());
+
+    it('labels requests by route template, including failed ones', async () => {
+      await request(app).get('/v1/api/wallpapers/abc');
+      await request(app).get('/v1/api/wallpapers/def');
+      await request(app).get('/v1/api/wallpapers/missing');
+      await request(app).get('/nowhere');
+
+      const route = '/v1/api/wallpapers/:id';
+      expect(httpRequestsTotal.get({ route, status: 200 })).toBe(2);
+      expect(httpRequestsTotal.get({ route, status: 404 })).toBe(1);
+      expect(httpRequestsTotal.get({ route: 'unmatched' })).toBe(1);
+      expect(metricsService.render()).toContain(
+        `http_request_duration_seconds_count{method="GET",route="${route}",status="200"} 2`,
+      );
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+import config from '../config';
+import { oauthService } from '../services/oauth.service';
+
+describe('oauthService.verifyIdToken', () => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+  });
+  let server: http.Server;
+  let jwksRequests = 0;
+
+  const idToken = (claims: object = {}, kid = 'google-1') =>
+    jwt.sign(
+      {
+        sub: '1234567890',
+        email: 'Jane@Example.com',
+        email_verified: true,
+        name: 'Jane',
+        ...claims,
+      },
+      privateKey,
+      {
+        algorithm: 'RS256',
+        keyid: kid,
+        audience: 'test-client',
+        issuer: 'https://accounts.google.com',
+        expiresIn: 300,
+      },
+    );
+
+  beforeAll(async () => {
+    // Local stand-in for Google's JWKS endpoint
+    server = http.createServer((_req, res) => {
+      jwksRequests++;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(
+        JSON.stringify({
+          keys: [
+            {
+              ...publicKey.export({ format: 'jwk' }),
+              kid: 'google-1',
+              alg: 'RS256',
+              use: 'sig',
+            },
+          ],
+        }),
+      );
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+
+    const { port } = server.address() as AddressInfo;
+    config.oauth.providers.google.jwksUrl = `http://127.0.0.1:${port}/certs`;
+    config.oauth.providers.google.clientIds = ['test-client'];
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    oauthService.getJwksClient().clear();
+    jwksRequests = 0;
+  });
+
+  it('returns the identity from a valid token', async () => {
+    await expect(
+      oauthService.verifyIdToken('google', idToken()),
+    ).resolves.toEqual({
+      provider: 'google',
+      subject: '1234567890',
+      email: 'jane@example.com',
+      emailVerified: true,
+      name: 'Jane',
+    });
+  });
+
+  it('caches the key set between verifications', async () => {
+    await oauthService.verifyIdToken('google', idToken());
+    await oauthService.verifyIdToken('google', idToken());
+
+    expect(jwksRequests).toBe(1);
+  });
+
+  it('rejects a token for another audience', async () => {
+    const token = jwt.sign({ sub: '1' }, privateKey, {
+      algorithm: 'RS256',
+      keyid: 'google-1',
+      audience: 'someone-else',
+      issuer: 'https://accounts.google.com',
+    });
+
+    await expect(
+      oauthService.verifyIdToken('google', token),
+    ).rejects.toMatchObject({ statusCode: 401 });
+  });
+
+  it('rejects a token signed with an unknown key', async () => {
+    await expect(
+      oauthService.verifyIdToken('google', idToken({}, 'other')),
+    ).rejects.toMatchObject({ statusCode: 401 });
+  });
+
+  it('refuses providers without configured client ids', async () => {
+    await expect(
+      oauthService.verifyIdToken('apple', idToken()),
+    ).rejects.toMatchObject({ statusCode: 400 });
+  });
+});
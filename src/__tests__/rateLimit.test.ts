@@ -0,0 +1,141 @@
+import express, { Request, Response } from 'express';
+import request from 'supertest';
+import { RateLimitPolicy } from '../config';
+import { getSubscriptionTier } from '../helpers/subscriptionTier';
+import { errorHandler } from '../middlewares/errorHandler';
+import { rateLimit } from '../middlewares/rateLimit';
+import {
+  MemoryRateLimitStore,
+  rateLimitService,
+} from '../services/rateLimit.service';
+import { AccessTokenPayload, tokenService } from '../services/token.service';
+
+jest.mock('../helpers/subscriptionTier');
+
+describe('rateLimitService', () => {
+  beforeEach(() => {
+    rateLimitService.setStore(new MemoryRateLimitStore());
+    jest.useFakeTimers({ now: new Date('2024-06-01T12:00:10Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('allows requests up to the limit and counts down the remainder', async () => {
+    const first = await rateLimitService.consume('client:a', 3, 60);
+    await rateLimitService.consume('client:a', 3, 60);
+    const third = await rateLimitService.consume('client:a', 3, 60);
+    const fourth = await rateLimitService.consume('client:a', 3, 60);
+
+    expect(first).toMatchObject({ allowed: true, limit: 3, remaining: 2 });
+    expect(third).toMatchObject({ allowed: true, remaining: 0 });
+    expect(fourth).toMatchObject({ allowed: false, remaining: 0 });
+    expect(fourth.resetAt).toEqual(new Date('2024-06-01T12:01:00Z'));
+  });
+
+  it('counts keys separately', async () => {
+    await rateLimitService.consume('client:a', 1, 60);
+
+    const other = await rateLimitService.consume('client:b', 1, 60);
+
+    expect(other.allowed).toBe(true);
+  });
+
+  it('starts over in the next window', async () => {
+    await rateLimitService.consume('client:a', 1, 60);
+    expect((await rateLimitService.consume('client:a', 1, 60)).allowed).toBe(
+      false,
+    );
+
+    jest.setSystemTime(new Date('2024-06-01T12:01:00Z'));
+
+    expect((await rateLimitService.consume('client:a', 1, 60)).allowed).toBe(
+      true,
+    );
+  });
+});
+
+describe('rateLimit middleware', () => {
+  const policy: RateLimitPolicy = {
+    windowSeconds: 3600,
+    limits: { anonymous: 1, free: 1, basic: 2, premium: 3 },
+  };
+
+  const app = express();
+  app.get('/', rateLimit('test', policy), (_req: Request, res: Response) =>
+    res.json({ success: true }),
+  );
+  app.options('/', rateLimit('test', policy), (_req: Request, res: Response) =>
+    res.sendStatus(204),
+  );
+  app.use(errorHandler);
+
+  beforeEach(() => {
+    rateLimitService.setStore(new MemoryRateLimitStore());
+    jest
+      .spyOn(tokenService, 'verifyAccessToken')
+      .mockImplementation((token) => {
+        if (token !== 'premium-user') throw new Error('invalid signature');
+        return { id: 'user-1' } as AccessTokenPayload;
+      });
+    jest.mocked(getSubscriptionTier).mockResolvedValue('premium');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('limits anonymous callers by IP and reports the quota in headers', async () => {
+    const first = await request(app).get('/');
+    const second = await request(app).get('/');
+
+    expect(first.status).toBe(200);
+    expect(first.headers['x-ratelimit-limit']).toBe('1');
+    expect(first.headers['x-ratelimit-remaining']).toBe('0');
+    expect(Number(first.headers['x-ratelimit-reset'])).toBeGreaterThan(
+      Date.now() / 1000,
+    );
+    expect(second.status).toBe(429);
+    expect(second.headers['retry-after']).toBeDefined();
+    expect(second.body.error.code).toBe('RATE_LIMIT_EXCEEDED');
+  });
+
+  it("gives signed in users their tier's limit, separate from their IP", async () => {
+    await request(app).get('/');
+
+    const responses = [];
+    for (let i = 0; i < 4; i++) {
+      responses.push(
+        await request(app).get('/').set('Authorization', 'Bearer premium-user'),
+      );
+    }
+
+    expect(getSubscriptionTier).toHaveBeenCalledWith('user-1');
+    expect(responses.map((response) => response.status)).toEqual([
+      200, 200, 200, 429,
+    ]);
+    expect(responses[0].headers['x-ratelimit-limit']).toBe('3');
+  });
+
+  it('treats invalid tokens as anonymous', async () => {
+    const response = await request(app)
+      .get('/')
+      .set('Authorization', 'Bearer forged');
+
+    expect(response.headers['x-ratelimit-limit']).toBe('1');
+  });
+
+  it('does not count CORS preflights', async () => {
+    const preflights = [];
+    for (let i = 0; i < 3; i++) {
+      preflights.push(await request(app).options('/'));
+    }
+    const response = await request(app).get('/');
+
+    expect(preflights.map((preflight) => preflight.status)).toEqual([
+      204, 204, 204,
+    ]);
+    expect(response.status).toBe(200);
+  });
+});
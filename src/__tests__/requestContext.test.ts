@@ -0,0 +1,102 @@
+import express, { Request, Response } from 'express';
+import request from 'supertest';
+import { requestContext } from '../middlewares/requestContext';
+import logger from '../utils/logger';
+import { REDACTED, createRedactor } from '../utils/redact';
+import { getRequestContext, setRequestContext } from '../utils/requestContext';
+
+describe('createRedactor', () => {
+  const redact = createRedactor([
+    'authorization',
+    'x-api-key',
+    'apiKey',
+    'password',
+  ]);
+
+  it('masks sensitive fields at any depth, ignoring case and separators', () => {
+    const entry = {
+      headers: { Authorization: 'Bearer abc', 'X-Api-Key': 'wpk_123' },
+      body: { email: 'jane@example.com', password: 'hunter2' },
+      attempts: [{ apiKey: 'wpk_456' }],
+    };
+
+    expect(redact(entry)).toEqual({
+      headers: { Authorization: REDACTED, 'X-Api-Key': REDACTED },
+      body: { email: 'jane@example.com', password: REDACTED },
+      attempts: [{ apiKey: REDACTED }],
+    });
+    expect(entry.body.password).toBe('hunter2');
+  });
+
+  it('copes with circular references and serializable objects', () => {
+    const entry: Record<string, unknown> = {
+      at: new Date('2024-03-20T10:00:00Z'),
+      user: { toJSON: () => ({ email: 'a@b.c', password: 'hash' }) },
+    };
+    entry.self = entry;
+
+    expect(redact(entry)).toEqual({
+      at: '2024-03-20T10:00:00.000Z',
+      user: { email: 'a@b.c', password: REDACTED },
+      self: '[Circular]',
+    });
+  });
+});
+
+describe('requestContext middleware', () => {
+  const app = express();
+  app.use(requestContext);
+  app.get('/whoami', async (_req: Request, res: Response) => {
+    await new Promise((resolve) => setImmediate(resolve));
+    setRequestContext({ userId: 'user-1' });
+    res.json(getRequestContext());
+  });
+
+  let log: jest.SpyInstance;
+
+  beforeEach(() => {
+    log = jest.spyOn(logger, 'log').mockImplementation(() => logger);
+  });
+
+  afterEach(() => {
+    log.mockRestore();
+  });
+
+  it('generates a request ID visible across async calls', async () => {
+    const response = await request(app).get('/whoami');
+
+    const requestId = response.headers['x-request-id'];
+    expect(requestId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(response.body).toEqual({ requestId, userId: 'user-1' });
+  });
+
+  it('propagates a valid incoming ID and replaces an unsafe one', async () => {
+    const kept = await request(app)
+      .get('/whoami')
+      .set('X-Request-Id', 'edge-42');
+    expect(kept.headers['x-request-id']).toBe('edge-42');
+
+    const replaced = await request(app)
+      .get('/whoami')
+      .set('X-Request-Id', 'bad id; with spaces');
+    expect(replaced.headers['x-request-id']).not.toContain('bad');
+  });
+
+  it('logs one completion entry with status, latency and user', async () => {
+    await request(app).get('/whoami?page=2').set('X-Request-Id', 'req-1');
+
+    expect(log).toHaveBeenCalledTimes(1);
+    expect(log).toHaveBeenCalledWith(
+      'info',
+      'GET /whoami 200',
+      expect.objectContaining({
+        requestId: 'req-1',
+        userId: 'user-1',
+        path: '/whoami',
+        query: { page: '2' },
+        status: 200,
+        durationMs: expect.any(Number),
+      }),
+    );
+  });
+});
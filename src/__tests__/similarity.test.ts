@@ -0,0 +1,124 @@
+import { User } from '../models/user.model';
+import { Wallpaper } from '../models/wallpaper.model';
+import {
+  colorSimilarity,
+  similarityService,
+} from '../services/similarity.service';
+import { similarQuerySchema } from '../validations/wallpaper.validation';
+
+describe('similarityService', () => {
+  const source = new Wallpaper({
+    title: 'Source',
+    category: 'nature',
+    tags: ['sunset', 'nature'],
+    dominantColor: '#d9822b',
+  });
+  const sameSunset = new Wallpaper({
+    title: 'Same sunset',
+    category: 'nature',
+    tags: ['sunset', 'nature'],
+    dominantColor: '#d9822b',
+    saves: 2,
+  });
+  const rareTagOnly = new Wallpaper({
+    title: 'Rare tag only',
+    category: 'city',
+    tags: ['sunset'],
+    dominantColor: '#1a2b3c',
+  });
+  const premium = new Wallpaper({
+    title: 'Premium',
+    category: 'nature',
+    tags: ['sunset', 'nature'],
+    isPremium: true,
+  });
+
+  const mockQueries = () => {
+    jest.spyOn(Wallpaper, 'estimatedDocumentCount').mockResolvedValue(100);
+    // 'nature' is common, 'sunset' rare
+    jest.spyOn(Wallpaper, 'aggregate').mockResolvedValue([
+      { _id: 'sunset', count: 4 },
+      { _id: 'nature', count: 60 },
+    ]);
+    // Two users saved the source, one of them also saved sameSunset
+    jest.spyOn(User, 'find').mockReturnValue({
+      select: () => ({
+        limit: () => ({
+          lean: async () => [
+            { savedWallpapers: [source._id, sameSunset._id] },
+            { savedWallpapers: [source._id] },
+          ],
+        }),
+      }),
+    } as never);
+    return jest.spyOn(Wallpaper, 'find').mockReturnValue({
+      sort: () => ({ limit: async () => [rareTagOnly, premium, sameSunset] }),
+    } as never);
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('scores candidates by tags, category, colour and co-saves', async () => {
+    const find = mockQueries();
+
+    const similar = await similarityService.findSimilar(source, {
+      threshold: 0,
+      limit: 10,
+      canAccess: (wallpaper) => !wallpaper.isPremium,
+    });
+
+    expect(find).toHaveBeenCalledWith({
+      _id: { $ne: source._id },
+      $or: [
+        { tags: { $in: ['sunset', 'nature'] } },
+        { category: 'nature' },
+        { _id: { $in: [sameSunset.id] } },
+      ],
+    });
+    expect(similar.map(({ wallpaper }) => wallpaper.title)).toEqual([
+      'Same sunset',
+      'Rare tag only',
+    ]);
+    // Everything matches except one of two savers: 1 - 0.25 * (1 - 1/sqrt(2 * 2))
+    expect(similar[0].similarity).toBe(0.875);
+    // The rare tag carries most of the tag weight
+    expect(similar[1].similarity).toBeGreaterThan(0.3);
+    expect(similar[1].similarity).toBeLessThan(0.5);
+  });
+
+  it('leaves out results below the threshold', async () => {
+    mockQueries();
+
+    // Premium has no known colour and is scored without it: 0.55 / 0.8
+    const similar = await similarityService.findSimilar(source, {
+      threshold: 0.6,
+      limit: 10,
+      canAccess: () => true,
+    });
+
+    expect(similar.map(({ wallpaper }) => wallpaper.title)).toEqual([
+      'Same sunset',
+      'Premium',
+    ]);
+  });
+
+  it('compares colours by distance', () => {
+    expect(colorSimilarity('#ffffff', '#ffffff')).toBe(1);
+    expect(colorSimilarity('#000000', '#ffffff')).toBeCloseTo(0);
+    expect(colorSimilarity('#d9822b', '#d9872b')).toBeGreaterThan(0.95);
+  });
+});
+
+describe('similarQuerySchema', () => {
+  it('defaults the threshold and rejects one outside 0-1', () => {
+    expect(similarQuerySchema.parse({})).toEqual({
+      limit: 10,
+      similarityThreshold: 0.7,
+    });
+    expect(
+      similarQuerySchema.safeParse({ similarityThreshold: '1.5' }).success,
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,221 @@
+import { Request, Response } from 'express';
+import { Types } from 'mongoose';
+import { auth } from '../middlewares/auth.middleware';
+import { DeviceToken } from '../models/deviceToken.model';
+import { RefreshToken } from '../models/refreshToken.model';
+import { Session } from '../models/session.model';
+import { User } from '../models/user.model';
+import { tokenService } from '../services/token.service';
+import { hashToken } from '../utils/tokenUtils';
+
+describe('tokenService.rotateRefreshToken', () => {
+  const userId = new Types.ObjectId();
+  const sessionId = new Types.ObjectId();
+
+  beforeEach(() => {
+    jest.spyOn(tokenService, 'generateAccessToken').mockReturnValue('access');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('claims the token atomically and issues a new pair', async () => {
+    const stored = {
+      userId,
+      sessionId,
+      deviceId: 'device-1',
+      save: jest.fn(),
+    };
+    const claim = jest
+      .spyOn(RefreshToken, 'findOneAndUpdate')
+      .mockResolvedValue(stored as never);
+    const session = {
+      _id: sessionId,
+      expiresAt: new Date(),
+      lastSeenAt: new Date(),
+      save: jest.fn(),
+    };
+    jest.spyOn(Session, 'findOne').mockResolvedValue(session as never);
+    jest.spyOn(User, 'findById').mockResolvedValue({ _id: userId } as never);
+    const create = jest
+      .spyOn(RefreshToken, 'create')
+      .mockResolvedValue([] as never);
+
+    const tokens = await tokenService.rotateRefreshToken('raw-token');
+
+    // Only an unused, unrevoked, unexpired token can be claimed, and claiming
+    // marks it used in the same operation
+    expect(claim).toHaveBeenCalledWith(
+      {
+        tokenHash: hashToken('raw-token'),
+        usedAt: { $exists: false },
+        revokedAt: { $exists: false },
+        expiresAt: { $gt: expect.any(Date) },
+      },
+      { $set: { usedAt: expect.any(Date) } },
+      { new: true },
+    );
+    expect(tokens.token).toBe('access');
+    expect(tokens.refreshToken).not.toBe('raw-token');
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sessionId,
+        tokenHash: hashToken(tokens.refreshToken),
+        deviceId: 'device-1',
+      }),
+    );
+    expect(stored.save).toHaveBeenCalled();
+  });
+
+  it('revokes the whole session when a used token is presented again', async () => {
+    jest.spyOn(RefreshToken, 'findOneAndUpdate').mockResolvedValue(null);
+    jest
+      .spyOn(RefreshToken, 'findOne')
+      .mockResolvedValue({ userId, sessionId, usedAt: new Date() } as never);
+    const revoke = jest
+      .spyOn(tokenService, 'revokeSession')
+      .mockResolvedValue();
+
+    await expect(
+      tokenService.rotateRefreshToken('raw-token'),
+    ).rejects.toMatchObject({ statusCode: 401 });
+    expect(revoke).toHaveBeenCalledWith(sessionId, 'reuse_detected');
+  });
+
+  it.each([
+    ['expired', { expiresAt: new Date(Date.now() - 1000) }],
+    ['revoked', { revokedAt: new Date(), usedAt: new Date() }],
+    ['unknown', null],
+  ])(
+    'rejects a token that is %s without revoking the session',
+    async (_, existing) => {
+      jest.spyOn(RefreshToken, 'findOneAndUpdate').mockResolvedValue(null);
+      jest
+        .spyOn(RefreshToken, 'findOne')
+        .mockResolvedValue(
+          existing && ({ userId, sessionId, ...existing } as never),
+        );
+      const revoke = jest.spyOn(tokenService, 'revokeSession');
+
+      await expect(
+        tokenService.rotateRefreshToken('raw-token'),
+      ).rejects.toMatchObject({ statusCode: 401 });
+      expect(revoke).not.toHaveBeenCalled();
+    },
+  );
+
+  it('rejects a token whose session was revoked', async () => {
+    jest
+      .spyOn(RefreshToken, 'findOneAndUpdate')
+      .mockResolvedValue({ userId, sessionId } as never);
+    jest.spyOn(Session, 'findOne').mockResolvedValue(null);
+    const create = jest.spyOn(RefreshToken, 'create');
+
+    await expect(
+      tokenService.rotateRefreshToken('raw-token'),
+    ).rejects.toMatchObject({ statusCode: 401 });
+    expect(create).not.toHaveBeenCalled();
+  });
+});
+
+describe('tokenService.revokeSession', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("revokes the session, its refresh tokens and its device's push token", async () => {
+    const userId = new Types.ObjectId();
+    const sessionId = new Types.ObjectId();
+    const revokeSession = jest
+      .spyOn(Session, 'findOneAndUpdate')
+      .mockResolvedValue({ userId, deviceId: 'device-1' } as never);
+    const revokeTokens = jest
+      .spyOn(RefreshToken, 'updateMany')
+      .mockResolvedValue({} as never);
+    const deactivate = jest
+      .spyOn(DeviceToken, 'updateMany')
+      .mockResolvedValue({} as never);
+
+    await tokenService.revokeSession(sessionId, 'logout');
+
+    expect(revokeSession).toHaveBeenCalledWith(
+      { _id: sessionId, revokedAt: { $exists: false } },
+      {
+        $set: { revokedAt: expect.any(Date), revokedReason: 'logout' },
+      },
+    );
+    expect(revokeTokens).toHaveBeenCalledWith(
+      { sessionId, revokedAt: { $exists: false } },
+      {
+        $set: { revokedAt: expect.any(Date), revokedReason: 'logout' },
+      },
+    );
+    expect(deactivate).toHaveBeenCalledWith(
+      { userId, deviceId: { $in: ['device-1'] }, isActive: true },
+      { $set: { isActive: false } },
+    );
+  });
+});
+
+describe('auth', () => {
+  const userId = new Types.ObjectId();
+  const sessionId = new Types.ObjectId();
+
+  const authenticate = async () => {
+    const req = {
+      header: (name: string) =>
+        name === 'Authorization' ? 'Bearer access' : undefined,
+    } as unknown as Request;
+    const next = jest.fn();
+    await auth(req, {} as Response, next);
+    return { req, next };
+  };
+
+  beforeEach(() => {
+    jest.spyOn(tokenService, 'verifyAccessToken').mockReturnValue({
+      id: userId.toString(),
+      role: 'user',
+      sid: sessionId.toString(),
+      type: 'access',
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('accepts an access token while its session is active', async () => {
+    jest
+      .spyOn(Session, 'findOne')
+      .mockResolvedValue({ _id: sessionId, lastSeenAt: new Date() } as never);
+    jest
+      .spyOn(User, 'findOne')
+      .mockResolvedValue({ _id: userId, id: userId.toString() } as never);
+
+    const { req, next } = await authenticate();
+
+    expect(next).toHaveBeenCalledWith();
+    expect(req.user?._id).toBe(userId);
+  });
+
+  it('rejects an access token of a revoked session', async () => {
+    // Revoked sessions no longer match the active session query
+    const findSession = jest.spyOn(Session, 'findOne').mockResolvedValue(null);
+    const findUser = jest.spyOn(User, 'findOne');
+
+    const { req, next } = await authenticate();
+
+    expect(findSession).toHaveBeenCalledWith({
+      _id: sessionId.toString(),
+      userId: userId.toString(),
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: expect.any(Date) },
+    });
+    expect(next).toHaveBeenCalledWith(
+      expect.objectContaining({ statusCode: 401 }),
+    );
+    expect(findUser).not.toHaveBeenCalled();
+    expect(req.user).toBeUndefined();
+  });
+});
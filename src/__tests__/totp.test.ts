@@ -0,0 +1,51 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateTotp,
+  verifyTotp,
+} from '../helpers/totp';
+
+describe('totp', () => {
+  // The SHA1 secret from the RFC 6238 test vectors
+  const secret = base32Encode(Buffer.from('12345678901234567890'));
+
+  it('round-trips base32', () => {
+    const buffer = Buffer.from('wallpaper');
+    expect(base32Decode(base32Encode(buffer))).toEqual(buffer);
+  });
+
+  it.each([
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1234567890, '005924'],
+    [2000000000, '279037'],
+  ])('matches the RFC 6238 vector at %i', (seconds, code) => {
+    expect(generateTotp(secret, seconds * 1000)).toBe(code);
+  });
+
+  it('accepts one step of drift and returns the matched step', () => {
+    const time = 1111111109 * 1000;
+    const previous = generateTotp(secret, time - 30 * 1000);
+
+    expect(verifyTotp(secret, previous, time)).toBe(37037035);
+    expect(
+      verifyTotp(secret, generateTotp(secret, time - 90 * 1000), time),
+    ).toBe(null);
+    expect(verifyTotp(secret, 'abcdef', time)).toBe(null);
+  });
+
+  it('builds an otpauth URI', () => {
+    const uri = buildOtpauthUri(
+      'JBSWY3DPEHPK3PXP',
+      'jane@example.com',
+      'Wallpaper App',
+    );
+
+    expect(uri).toMatch(
+      /^otpauth:\/\/totp\/Wallpaper%20App%3Ajane%40example\.com\?/,
+    );
+    expect(uri).toContain('secret=JBSWY3DPEHPK3PXP');
+    expect(uri).toContain('issuer=Wallpaper%20App');
+  });
+});
@@ -0,0 +1,95 @@
+import mongoose from 'mongoose';
+import { EngagementEvent } from '../models/engagementEvent.model';
+import { TrendingRanking } from '../models/trendingRanking.model';
+import { Wallpaper } from '../models/wallpaper.model';
+import { trendingService } from '../services/trending.service';
+
+describe('trendingService', () => {
+  const [a, b, c] = Array.from(
+    { length: 3 },
+    () => new mongoose.Types.ObjectId(),
+  );
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('stores a decayed ranking for every timeframe', async () => {
+    const aggregate = jest
+      .spyOn(EngagementEvent, 'aggregate')
+      .mockResolvedValue([
+        { _id: a, score: 7.5 },
+        { _id: b, score: 2 },
+      ]);
+    const save = jest
+      .spyOn(TrendingRanking, 'findOneAndUpdate')
+      .mockResolvedValue(null);
+    const now = new Date('2024-06-08T12:00:00Z');
+
+    const counts = await trendingService.computeRankings(now);
+
+    expect(counts).toEqual({ day: 2, week: 2, month: 2 });
+    const [weekPipeline] = aggregate.mock.calls[1];
+    expect(weekPipeline[0]).toEqual({
+      $match: { createdAt: { $gte: new Date('2024-06-01T12:00:00Z') } },
+    });
+    expect(save).toHaveBeenCalledWith(
+      { timeframe: 'week' },
+      {
+        wallpapers: [
+          { wallpaperId: a, score: 7.5 },
+          { wallpaperId: b, score: 2 },
+        ],
+        computedAt: now,
+      },
+      { upsert: true },
+    );
+  });
+
+  it('serves wallpapers in ranking order, skipping deleted ones', async () => {
+    jest.spyOn(TrendingRanking, 'findOne').mockReturnValue({
+      lean: async () => ({
+        wallpapers: [
+          { wallpaperId: c, score: 9 },
+          { wallpaperId: a, score: 5 },
+          { wallpaperId: b, score: 1 },
+        ],
+      }),
+    } as never);
+    const find = jest.spyOn(Wallpaper, 'find').mockReturnValue({
+      populate: async () => [{ id: a.toString() }, { id: c.toString() }],
+    } as never);
+
+    const wallpapers = await trendingService.getTrending('day', 3);
+
+    expect(find).toHaveBeenCalledWith({
+      _id: { $in: [c.toString(), a.toString(), b.toString()] },
+    });
+    expect(wallpapers).toEqual([{ id: c.toString() }, { id: a.toString() }]);
+  });
+
+  it('fills the places of deleted wallpapers from further down the ranking', async () => {
+    jest.spyOn(TrendingRanking, 'findOne').mockReturnValue({
+      lean: async () => ({
+        wallpapers: [
+          { wallpaperId: c, score: 9 },
+          { wallpaperId: a, score: 5 },
+          { wallpaperId: b, score: 1 },
+        ],
+      }),
+    } as never);
+    const find = jest
+      .spyOn(Wallpaper, 'find')
+      .mockReturnValueOnce({
+        populate: async () => [{ id: c.toString() }],
+      } as never)
+      .mockReturnValueOnce({
+        populate: async () => [{ id: b.toString() }],
+      } as never);
+
+    const wallpapers = await trendingService.getTrending('day', 2);
+
+    expect(find).toHaveBeenLastCalledWith({ _id: { $in: [b.toString()] } });
+    expect(wallpapers).toEqual([{ id: c.toString() }, { id: b.toString() }]);
+  });
+});
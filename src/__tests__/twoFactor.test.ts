@@ -0,0 +1,75 @@
+import { Request, Response } from 'express';
+import { Types } from 'mongoose';
+import { disableTwoFactor } from '../controllers/twoFactor.controller';
+import { verifyTwoFactorCode } from '../helpers/twoFactor';
+import { base32Encode, generateTotp, getTimeStep } from '../helpers/totp';
+import { IUser, User } from '../models/user.model';
+
+describe('two-factor codes', () => {
+  const secret = base32Encode(Buffer.from('12345678901234567890'));
+
+  const userWith = (fields: Partial<IUser> = {}) =>
+    new User({
+      email: 'jane@example.com',
+      name: 'Jane',
+      twoFactorEnabled: true,
+      twoFactorSecret: secret,
+      ...fields,
+    });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('claims the time step of a code in one update', async () => {
+    jest.useFakeTimers({ now: new Date('2024-06-01T12:00:10Z') });
+    const user = userWith();
+    const claim = jest
+      .spyOn(User, 'updateOne')
+      .mockResolvedValueOnce({ modifiedCount: 1 } as never)
+      // The same code again: the step is already taken
+      .mockResolvedValueOnce({ modifiedCount: 0 } as never);
+    const code = generateTotp(secret);
+
+    expect(await verifyTwoFactorCode(user, code)).toBe(true);
+    expect(await verifyTwoFactorCode(user, code)).toBe(false);
+
+    const step = getTimeStep();
+    expect(claim).toHaveBeenCalledWith(
+      {
+        _id: user._id,
+        $or: [
+          { twoFactorLastUsedStep: { $lt: step } },
+          { twoFactorLastUsedStep: { $exists: false } },
+        ],
+      },
+      { $set: { twoFactorLastUsedStep: step } },
+    );
+  });
+
+  it('lets accounts without a password turn 2FA off with a code', async () => {
+    const user = userWith();
+    jest.spyOn(User, 'findById').mockReturnValue({
+      select: async () => user,
+    } as never);
+    jest
+      .spyOn(User, 'updateOne')
+      .mockResolvedValue({ modifiedCount: 1 } as never);
+    jest.spyOn(user, 'save').mockResolvedValue(user);
+    const res = { json: jest.fn() } as unknown as Response;
+
+    await disableTwoFactor(
+      {
+        user: { _id: new Types.ObjectId() },
+        body: { code: generateTotp(secret) },
+      } as unknown as Request,
+      res,
+    );
+
+    expect(user.twoFactorEnabled).toBe(false);
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({ success: true }),
+    );
+  });
+});
@@ -0,0 +1,20 @@
+// Route groups an API client can be allowed to call. Each one matches a
+// router mounted under /v1/api.
+export type ApiScope =
+  | 'auth'
+  | 'wallpapers'
+  | 'categories'
+  | 'health'
+  | 'subscriptions'
+  | 'notifications'
+  | 'admin';
+
+export const apiScopes: ApiScope[] = [
+  'auth',
+  'wallpapers',
+  'categories',
+  'health',
+  'subscriptions',
+  'notifications',
+  'admin',
+];
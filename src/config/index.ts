@@ -3,12 +3,175 @@ import path from 'path';
 
 dotenv.config({ path: path.join(process.cwd(), '.env') });
 
+export type SigningAlgorithm = 'HS256' | 'RS256' | 'ES256';
+
+export interface SigningKeyConfig {
+  kid: string;
+  alg: SigningAlgorithm;
+  secret?: string; // HS256
+  privateKey?: string; // RS256/ES256, PEM
+  publicKey?: string; // RS256/ES256, PEM; enough for verify-only keys
+}
+
+// JWT_KEYS holds a JSON array of signing keys. Without it the legacy
+// ACCESS_TOKEN secret is used as a single HS256 key.
+const parseSigningKeys = (): SigningKeyConfig[] => {
+  if (process.env.JWT_KEYS) {
+    const keys = JSON.parse(process.env.JWT_KEYS) as SigningKeyConfig[];
+    return keys.map((key) => ({
+      ...key,
+      privateKey: key.privateKey?.replace(/\\n/g, '\n'),
+      publicKey: key.publicKey?.replace(/\\n/g, '\n'),
+    }));
+  }
+
+  if (process.env.ACCESS_TOKEN) {
+    return [{ kid: 'default', alg: 'HS256', secret: process.env.ACCESS_TOKEN }];
+  }
+
+  return [];
+};
+
+export type OAuthProviderName = 'google' | 'apple';
+
+export interface OAuthProviderConfig {
+  clientIds: string[]; // accepted audiences
+  issuers: string[];
+  jwksUrl: string;
+}
+
+const parseList = (value = ''): string[] =>
+  value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+export type RateLimitTier = 'anonymous' | 'free' | 'basic' | 'premium';
+
+export interface RateLimitPolicy {
+  windowSeconds: number;
+  limits: Record<RateLimitTier, number>; // requests per window
+}
+
+// <PREFIX>_WINDOW and <PREFIX>_ANONYMOUS, _FREE, _BASIC or _PREMIUM override
+// the defaults of a rate limit policy
+const parseRateLimitPolicy = (
+  prefix: string,
+  defaults: RateLimitPolicy,
+): RateLimitPolicy => {
+  const read = (name: string, fallback: number) =>
+    parseInt(process.env[`${prefix}_${name}`] || String(fallback), 10);
+
+  return {
+    windowSeconds: read('WINDOW', defaults.windowSeconds),
+    limits: {
+      anonymous: read('ANONYMOUS', defaults.limits.anonymous),
+      free: read('FREE', defaults.limits.free),
+      basic: read('BASIC', defaults.limits.basic),
+      premium: read('PREMIUM', defaults.limits.premium),
+    },
+  };
+};
+
+export type MailTransportName = 'smtp' | 'file' | 'memory' | 'log';
+
 interface Config {
   port: number;
   databaseString: string;
   clientUrl: string;
-  jwtSecret: string;
-  apiKey: string;
+  jwt: {
+    keys: SigningKeyConfig[];
+    primaryKid: string;
+    issuer: string;
+  };
+  apiClients: {
+    legacyKey: string; // accepted with every scope except admin while clients migrate
+    cacheTtl: number; // seconds a looked up key is trusted
+    defaultRateLimit: {
+      limit: number; // requests per window
+      windowSeconds: number;
+    };
+    maxRotationOverlap: number; // seconds
+  };
+  tokens: {
+    accessTokenTtl: number; // seconds
+    refreshTokenTtl: number; // seconds
+  };
+  mail: {
+    transport: MailTransportName;
+    from: string;
+    smtp: {
+      host: string;
+      port: number;
+      secure: boolean;
+      user: string;
+      pass: string;
+    };
+    fileDir: string;
+  };
+  passwordReset: {
+    tokenTtl: number; // seconds
+  };
+  magicLink: {
+    tokenTtl: number; // seconds
+    maxRequests: number; // links sent per email within the window
+    requestWindowSeconds: number;
+  };
+  passwordPolicy: {
+    historySize: number; // previous passwords that cannot be reused
+  };
+  twoFactor: {
+    issuer: string; // shown in authenticator apps
+    challengeTtl: number; // seconds
+    requiredRoles: string[];
+  };
+  oauth: {
+    providers: Record<OAuthProviderName, OAuthProviderConfig>;
+    jwksCacheTtl: number; // seconds, unless the provider says otherwise
+  };
+  loginProtection: {
+    windowSeconds: number; // failures older than this are forgotten
+    freeAttempts: number; // failures allowed before delays kick in
+    baseDelaySeconds: number;
+    maxDelaySeconds: number;
+    maxEmailFailures: number;
+    maxIpFailures: number;
+    lockoutSeconds: number;
+  };
+  emailVerification: {
+    tokenTtl: number; // seconds
+    restrictUnverified: boolean;
+  };
+  accountDeletion: {
+    gracePeriodDays: number;
+    reassignUploadsTo: string; // user id; uploads are anonymized without it
+    purgeBatchSize: number; // accounts purged per job run
+    reauthWindow: number; // seconds since sign-in within which accounts without a password can delete themselves
+  };
+  cronSecret: string; // sent by the scheduler as a bearer token
+  metricsToken: string; // sent by the Prometheus scraper as a bearer token
+  rateLimits: {
+    default: RateLimitPolicy; // every /v1/api request
+    login: RateLimitPolicy;
+    upload: RateLimitPolicy;
+    tierCacheTtl: number; // seconds a user's subscription tier is reused
+  };
+  engagement: {
+    dedupeWindow: number; // seconds a repeat view or download isn't counted
+  };
+  downloads: {
+    signedUrlTtl: number; // seconds a full resolution download URL is valid
+    previewWidth: number; // pixels, of previews shown to callers without access
+    displayWidth: number; // pixels, of the copy of paid wallpapers shown to callers with access
+    protectBatchSize: number; // wallpapers moved to authenticated delivery per job run
+  };
+  logging: {
+    redactFields: string[];
+  };
+  health: {
+    cacheTtl: number; // seconds a health report is reused
+    checkTimeout: number; // ms before a single check counts as failed
+  };
   cloudinary: {
     cloudName: string;
     apiKey: string;
@@ -24,8 +187,168 @@ const config: Config = {
   port: parseInt(process.env.PORT || '5000', 10),
   databaseString: process.env.MONGO_URI || '',
   clientUrl: process.env.CLIENT_URL || '',
-  jwtSecret: process.env.ACCESS_TOKEN || '',
-  apiKey: process.env.API_KEY || 'K-2025',
+  jwt: {
+    keys: parseSigningKeys(),
+    primaryKid: process.env.JWT_PRIMARY_KID || 'default',
+    issuer: process.env.JWT_ISSUER || 'wallpaper-api',
+  },
+  apiClients: {
+    legacyKey: process.env.API_KEY || '',
+    cacheTtl: parseInt(process.env.API_CLIENT_CACHE_TTL || '60', 10),
+    defaultRateLimit: {
+      limit: parseInt(process.env.API_CLIENT_RATE_LIMIT || '1000', 10),
+      windowSeconds: parseInt(process.env.API_CLIENT_RATE_WINDOW || '60', 10),
+    },
+    maxRotationOverlap: parseInt(
+      process.env.API_CLIENT_MAX_ROTATION_OVERLAP || '2592000',
+      10,
+    ), // 30 days
+  },
+  tokens: {
+    accessTokenTtl: parseInt(process.env.ACCESS_TOKEN_TTL || '86400', 10), // 24 hours
+    refreshTokenTtl: parseInt(process.env.REFRESH_TOKEN_TTL || '2592000', 10), // 30 days
+  },
+  mail: {
+    transport: (process.env.MAIL_TRANSPORT as MailTransportName) || 'log',
+    from: process.env.MAIL_FROM || 'Wallpaper App <no-reply@wallpaper-app.com>',
+    smtp: {
+      host: process.env.SMTP_HOST || '',
+      port: parseInt(process.env.SMTP_PORT || '587', 10),
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER || '',
+      pass: process.env.SMTP_PASS || '',
+    },
+    fileDir:
+      process.env.MAIL_FILE_DIR || path.join(process.cwd(), 'logs', 'mail'),
+  },
+  passwordReset: {
+    tokenTtl: parseInt(process.env.PASSWORD_RESET_TTL || '3600', 10), // 1 hour
+  },
+  magicLink: {
+    tokenTtl: parseInt(process.env.MAGIC_LINK_TTL || '900', 10), // 15 minutes
+    maxRequests: parseInt(process.env.MAGIC_LINK_MAX_REQUESTS || '5', 10),
+    requestWindowSeconds: parseInt(
+      process.env.MAGIC_LINK_REQUEST_WINDOW || '900',
+      10,
+    ),
+  },
+  passwordPolicy: {
+    historySize: parseInt(process.env.PASSWORD_HISTORY_SIZE || '5', 10),
+  },
+  twoFactor: {
+    issuer: process.env.TWO_FACTOR_ISSUER || 'Wallpaper App',
+    challengeTtl: parseInt(process.env.TWO_FACTOR_CHALLENGE_TTL || '300', 10), // 5 minutes
+    requiredRoles: parseList(process.env.TWO_FACTOR_REQUIRED_ROLES),
+  },
+  oauth: {
+    providers: {
+      google: {
+        clientIds: parseList(process.env.GOOGLE_CLIENT_IDS),
+        issuers: ['https://accounts.google.com', 'accounts.google.com'],
+        jwksUrl:
+          process.env.GOOGLE_JWKS_URL ||
+          'https://www.googleapis.com/oauth2/v3/certs',
+      },
+      apple: {
+        clientIds: parseList(process.env.APPLE_CLIENT_IDS),
+        issuers: ['https://appleid.apple.com'],
+        jwksUrl:
+          process.env.APPLE_JWKS_URL || 'https://appleid.apple.com/auth/keys',
+      },
+    },
+    jwksCacheTtl: parseInt(process.env.OAUTH_JWKS_CACHE_TTL || '3600', 10), // 1 hour
+  },
+  loginProtection: {
+    windowSeconds: parseInt(process.env.LOGIN_FAILURE_WINDOW || '900', 10), // 15 minutes
+    freeAttempts: parseInt(process.env.LOGIN_FREE_ATTEMPTS || '3', 10),
+    baseDelaySeconds: parseInt(process.env.LOGIN_BASE_DELAY || '1', 10),
+    maxDelaySeconds: parseInt(process.env.LOGIN_MAX_DELAY || '30', 10),
+    maxEmailFailures: parseInt(
+      process.env.LOGIN_MAX_EMAIL_FAILURES || '10',
+      10,
+    ),
+    maxIpFailures: parseInt(process.env.LOGIN_MAX_IP_FAILURES || '50', 10),
+    lockoutSeconds: parseInt(process.env.LOGIN_LOCKOUT_DURATION || '900', 10), // 15 minutes
+  },
+  emailVerification: {
+    tokenTtl: parseInt(process.env.EMAIL_VERIFICATION_TTL || '86400', 10), // 24 hours
+    restrictUnverified: process.env.RESTRICT_UNVERIFIED_ACCOUNTS === 'true',
+  },
+  accountDeletion: {
+    gracePeriodDays: parseInt(
+      process.env.ACCOUNT_DELETION_GRACE_DAYS || '30',
+      10,
+    ),
+    reassignUploadsTo: process.env.ACCOUNT_DELETION_REASSIGN_TO || '',
+    purgeBatchSize: parseInt(
+      process.env.ACCOUNT_DELETION_PURGE_BATCH || '50',
+      10,
+    ),
+    reauthWindow: parseInt(
+      process.env.ACCOUNT_DELETION_REAUTH_WINDOW || '300',
+      10,
+    ), // 5 minutes
+  },
+  cronSecret: process.env.CRON_SECRET || '',
+  metricsToken: process.env.METRICS_TOKEN || '',
+  rateLimits: {
+    default: parseRateLimitPolicy('RATE_LIMIT', {
+      windowSeconds: 3600,
+      limits: { anonymous: 100, free: 100, basic: 500, premium: 2000 },
+    }),
+    // Sign-in attempts are anonymous, so only the anonymous limit applies
+    login: parseRateLimitPolicy('LOGIN_RATE_LIMIT', {
+      windowSeconds: 900,
+      limits: { anonymous: 10, free: 10, basic: 10, premium: 10 },
+    }),
+    upload: parseRateLimitPolicy('UPLOAD_RATE_LIMIT', {
+      windowSeconds: 3600,
+      limits: { anonymous: 0, free: 10, basic: 50, premium: 200 },
+    }),
+    tierCacheTtl: parseInt(process.env.RATE_LIMIT_TIER_CACHE_TTL || '60', 10),
+  },
+  engagement: {
+    dedupeWindow: parseInt(process.env.ENGAGEMENT_DEDUPE_WINDOW || '1800', 10), // 30 minutes
+  },
+  downloads: {
+    signedUrlTtl: parseInt(process.env.DOWNLOAD_URL_TTL || '300', 10), // 5 minutes
+    previewWidth: parseInt(process.env.PREVIEW_WIDTH || '640', 10),
+    displayWidth: parseInt(process.env.DISPLAY_WIDTH || '1080', 10),
+    protectBatchSize: parseInt(
+      process.env.PROTECT_WALLPAPERS_BATCH || '100',
+      10,
+    ),
+  },
+  logging: {
+    // Masked wherever they appear in log metadata. LOG_REDACT_FIELDS adds
+    // comma-separated names to the defaults.
+    redactFields: [
+      'authorization',
+      'cookie',
+      'set-cookie',
+      'x-api-key',
+      'apiKey',
+      'password',
+      'currentPassword',
+      'newPassword',
+      'token',
+      'accessToken',
+      'refreshToken',
+      'idToken',
+      'purchaseToken',
+      'secret',
+      'twoFactorSecret',
+      'recoveryCodes',
+      ...(process.env.LOG_REDACT_FIELDS || '')
+        .split(',')
+        .map((field) => field.trim())
+        .filter(Boolean),
+    ],
+  },
+  health: {
+    cacheTtl: parseInt(process.env.HEALTH_CACHE_TTL || '10', 10),
+    checkTimeout: parseInt(process.env.HEALTH_CHECK_TIMEOUT || '3000', 10),
+  },
   cloudinary: {
     cloudName: process.env.CLOUDINARY_CLOUD_NAME || '',
     apiKey: process.env.CLOUDINARY_API_KEY || '',
@@ -0,0 +1,55 @@
+export type Role = 'user' | 'creator' | 'moderator' | 'support' | 'admin';
+
+export type Permission =
+  | 'wallpaper:upload'
+  | 'wallpaper:update:any'
+  | 'wallpaper:delete:any'
+  | 'category:manage'
+  | 'subscription:read:any'
+  | 'user:read:any'
+  | 'user:suspend'
+  | 'user:security:manage'
+  | 'user:role:assign'
+  | 'api_client:manage';
+
+export const roles: Role[] = [
+  'user',
+  'creator',
+  'moderator',
+  'support',
+  'admin',
+];
+
+export const permissions: Permission[] = [
+  'wallpaper:upload',
+  'wallpaper:update:any',
+  'wallpaper:delete:any',
+  'category:manage',
+  'subscription:read:any',
+  'user:read:any',
+  'user:suspend',
+  'user:security:manage',
+  'user:role:assign',
+  'api_client:manage',
+];
+
+// What each role may do on top of what every signed-in user can. Ownership
+// rules (e.g. deleting your own wallpaper) are checked where they apply.
+export const rolePermissions: Record<Role, Permission[]> = {
+  user: [],
+  creator: ['wallpaper:upload'],
+  moderator: [
+    'wallpaper:update:any',
+    'wallpaper:delete:any',
+    'category:manage',
+    'user:read:any',
+    'user:suspend',
+  ],
+  support: ['subscription:read:any', 'user:read:any', 'user:security:manage'],
+  admin: permissions,
+};
+
+export const hasPermission = (
+  role: string | undefined,
+  permission: Permission,
+): boolean => rolePermissions[role as Role]?.includes(permission) ?? false;
@@ -69,12 +69,17 @@ const options: swaggerJsdoc.Options = {
         Error: {
           type: 'object',
           properties: {
+            success: {
+              type: 'boolean',
+              example: false,
+            },
             error: {
               type: 'object',
               properties: {
                 code: {
                   type: 'string',
-                  description: 'Error code for programmatic handling',
+                  description:
+                    'Stable error code for programmatic handling; see the error code list in API.md',
                   example: 'VALIDATION_ERROR',
                 },
                 message: {
@@ -100,6 +105,12 @@ const options: swaggerJsdoc.Options = {
                     },
                   },
                 },
+                retryAfter: {
+                  type: 'number',
+                  description:
+                    'Seconds to wait before retrying, only sent with 429 responses',
+                  example: 60,
+                },
               },
             },
           },
@@ -124,7 +135,8 @@ const options: swaggerJsdoc.Options = {
             },
             imageUrl: {
               type: 'string',
-              description: 'URL to the full resolution image',
+              description:
+                'URL to the full resolution image, or to a low resolution watermarked preview when hasAccess is false',
               example:
                 'https://cdn.wallpaper-app.com/images/mountain-sunset.jpg',
             },
@@ -147,6 +159,12 @@ const options: swaggerJsdoc.Options = {
                 example: ['nature', 'sunset', 'mountains'],
               },
             },
+            dominantColor: {
+              type: 'string',
+              description:
+                'Most prominent colour of the image, unknown for early uploads',
+              example: '#d9822b',
+            },
             isPremium: {
               type: 'boolean',
               description:
@@ -160,6 +178,13 @@ const options: swaggerJsdoc.Options = {
                 'Minimum subscription tier required to access this wallpaper',
               example: 'premium',
             },
+            deliveryType: {
+              type: 'string',
+              enum: ['upload', 'authenticated'],
+              description:
+                'How the image is stored on Cloudinary; authenticated images are only delivered through signed URLs',
+              example: 'authenticated',
+            },
             downloads: {
               type: 'number',
               description: 'Number of times the wallpaper has been downloaded',
@@ -170,6 +195,34 @@ const options: swaggerJsdoc.Options = {
               description: 'Number of likes received',
               example: 250,
             },
+            views: {
+              type: 'number',
+              description: 'Number of times the wallpaper has been viewed',
+              example: 12000,
+            },
+            saves: {
+              type: 'number',
+              description: 'Number of users who saved the wallpaper',
+              example: 320,
+            },
+            hasAccess: {
+              type: 'boolean',
+              description:
+                "Whether the caller's subscription gives access to the full resolution image",
+              example: true,
+            },
+            isLikedByMe: {
+              type: 'boolean',
+              description:
+                'Whether the caller likes the wallpaper. Only present for authenticated callers',
+              example: false,
+            },
+            isSavedByMe: {
+              type: 'boolean',
+              description:
+                'Whether the caller saved the wallpaper. Only present for authenticated callers',
+              example: true,
+            },
             resolution: {
               type: 'string',
               description: 'Image resolution',
@@ -260,6 +313,24 @@ const options: swaggerJsdoc.Options = {
               description: "User's email address",
               example: 'john.doe@example.com',
             },
+            emailVerified: {
+              type: 'boolean',
+              description: 'Whether the email address has been verified',
+            },
+            twoFactorEnabled: {
+              type: 'boolean',
+              description: 'Whether two-factor authentication is enabled',
+            },
+            hasPassword: {
+              type: 'boolean',
+              description:
+                'False for accounts that only sign in with Google or Apple',
+            },
+            oauthProviders: {
+              type: 'array',
+              items: { type: 'string', enum: ['google', 'apple'] },
+              description: 'Linked sign-in providers',
+            },
             subscriptionTier: {
               type: 'string',
               enum: ['free', 'basic', 'premium'],
@@ -382,6 +453,14 @@ const options: swaggerJsdoc.Options = {
         name: 'Notifications',
         description: 'Push notification and device token management endpoints',
       },
+      {
+        name: 'Admin',
+        description: 'Administrative endpoints, restricted to staff roles',
+      },
+      {
+        name: 'Jobs',
+        description: 'Scheduled background jobs, triggered by the scheduler',
+      },
     ],
   },
   apis: ['./src/routes/*.ts'], // Path to the API routes
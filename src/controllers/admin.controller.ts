@@ -0,0 +1,357 @@
+import { Request, Response } from 'express';
+import { hasPermission } from '../config/permissions';
+import { sendPasswordResetEmail } from '../helpers/passwordReset';
+import { DeviceToken } from '../models/deviceToken.model';
+import { Subscription } from '../models/subscription.model';
+import { IUser, User } from '../models/user.model';
+import { Wallpaper } from '../models/wallpaper.model';
+import { auditService } from '../services/audit.service';
+import { loginThrottleService } from '../services/loginThrottle.service';
+import { tokenService } from '../services/token.service';
+import { CustomError, wrapError } from '../utils/customError';
+import logger from '../utils/logger';
+
+const RECENT_UPLOADS_LIMIT = 20;
+
+const escapeRegex = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const serializeUser = (user: IUser) => ({
+  id: user._id,
+  email: user.email,
+  name: user.name,
+  role: user.role,
+  emailVerified: user.emailVerified,
+  twoFactorEnabled: user.twoFactorEnabled,
+  oauthProviders: user.oauthProviders.map((link) => link.provider),
+  passwordResetRequired: user.passwordResetRequired,
+  suspendedAt: user.suspendedAt,
+  suspendedReason: user.suspendedReason,
+  createdAt: user.get('createdAt'),
+});
+
+const findTargetUser = async (req: Request): Promise<IUser> => {
+  const user = await User.findById(req.params.id);
+  if (!user) {
+    throw new CustomError('User not found', 404);
+  }
+  return user;
+};
+
+// Staff cannot act on themselves (e.g. demote or suspend their own account)
+// or on admins unless they are admins themselves
+const assertCanManage = (req: Request, target: IUser) => {
+  if (req.user?._id.equals(target._id)) {
+    throw new CustomError('You cannot perform this action on yourself', 400);
+  }
+  if (target.role === 'admin' && req.user?.role !== 'admin') {
+    throw new CustomError('Only admins can manage other admins', 403);
+  }
+};
+
+export const listUsers = async (req: Request, res: Response) => {
+  try {
+    const {
+      search,
+      email,
+      name,
+      role,
+      status,
+      createdFrom,
+      createdTo,
+      page = 1,
+      limit = 20,
+    } = req.query as Record<string, string | undefined>;
+    const pageNumber = Number(page);
+    const pageSize = Math.min(Number(limit), 100);
+    const query: Record<string, unknown> = {};
+
+    if (search) {
+      const pattern = new RegExp(escapeRegex(search), 'i');
+      query.$or = [{ email: pattern }, { name: pattern }];
+    }
+    if (email) {
+      query.email = new RegExp(`^${escapeRegex(email.toLowerCase())}`);
+    }
+    if (name) {
+      query.name = new RegExp(escapeRegex(name), 'i');
+    }
+    if (role) {
+      query.role = role;
+    }
+    if (status) {
+      query.suspendedAt = { $exists: status === 'suspended' };
+    }
+    if (createdFrom || createdTo) {
+      const createdAt: Record<string, Date> = {};
+      if (createdFrom) createdAt.$gte = new Date(createdFrom);
+      if (createdTo) createdAt.$lte = new Date(createdTo);
+      query.createdAt = createdAt;
+    }
+
+    const [users, total] = await Promise.all([
+      User.find(query)
+        .sort({ createdAt: -1 })
+        .skip((pageNumber - 1) * pageSize)
+        .limit(pageSize),
+      User.countDocuments(query),
+    ]);
+
+    await auditService.record(req, {
+      action: 'user.searched',
+      targetType: 'user',
+      metadata: { search, email, name, role, status, createdFrom, createdTo },
+    });
+
+    res.json({
+      success: true,
+      data: {
+        users: users.map(serializeUser),
+        total,
+        page: pageNumber,
+        totalPages: Math.ceil(total / pageSize),
+      },
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error fetching users');
+  }
+};
+
+export const getUserDetails = async (req: Request, res: Response) => {
+  try {
+    const user = await findTargetUser(req);
+
+    const [deviceTokens, uploads, uploadCount, sessions] = await Promise.all([
+      DeviceToken.find({ userId: user._id }).select('-token'),
+      Wallpaper.find({ uploadedBy: user._id })
+        .select('title thumbnailUrl category views downloads createdAt')
+        .sort({ createdAt: -1 })
+        .limit(RECENT_UPLOADS_LIMIT),
+      Wallpaper.countDocuments({ uploadedBy: user._id }),
+      tokenService.listActiveSessions(user._id),
+    ]);
+
+    // Billing details are only shown to staff allowed to read them
+    const subscriptions = hasPermission(req.user?.role, 'subscription:read:any')
+      ? await Subscription.find({ userId: user._id })
+          .select('-purchaseToken')
+          .sort({ createdAt: -1 })
+      : undefined;
+
+    await auditService.record(req, {
+      action: 'user.viewed',
+      targetType: 'user',
+      targetId: user._id,
+    });
+
+    res.json({
+      success: true,
+      data: {
+        user: serializeUser(user),
+        subscriptions,
+        deviceTokens,
+        uploads: {
+          total: uploadCount,
+          recent: uploads,
+        },
+        activeSessions: sessions.length,
+      },
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error fetching user');
+  }
+};
+
+export const changeUserRole = async (req: Request, res: Response) => {
+  try {
+    const { role } = req.body;
+    const user = await findTargetUser(req);
+    assertCanManage(req, user);
+
+    const previousRole = user.role;
+    user.role = role;
+    await user.save();
+
+    // Access tokens carry the role, so make the user sign in again
+    if (previousRole !== role) {
+      await tokenService.revokeAllSessions(user._id, 'admin_revoked');
+    }
+
+    await auditService.record(req, {
+      action: 'user.role_changed',
+      targetType: 'user',
+      targetId: user._id,
+      metadata: { from: previousRole, to: role },
+    });
+
+    res.json({
+      success: true,
+      data: { user: serializeUser(user) },
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error changing user role');
+  }
+};
+
+export const suspendUser = async (req: Request, res: Response) => {
+  try {
+    const { reason } = req.body;
+    const user = await findTargetUser(req);
+    assertCanManage(req, user);
+
+    if (user.suspendedAt) {
+      throw new CustomError('User is already suspended', 400);
+    }
+
+    user.suspendedAt = new Date();
+    user.suspendedReason = reason;
+    user.suspendedBy = req.user?._id;
+    await user.save();
+    await tokenService.revokeAllSessions(user._id, 'suspended');
+
+    await auditService.record(req, {
+      action: 'user.suspended',
+      targetType: 'user',
+      targetId: user._id,
+      metadata: { reason },
+    });
+
+    res.json({
+      success: true,
+      data: { user: serializeUser(user) },
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error suspending user');
+  }
+};
+
+export const unsuspendUser = async (req: Request, res: Response) => {
+  try {
+    const user = await findTargetUser(req);
+    assertCanManage(req, user);
+
+    if (!user.suspendedAt) {
+      throw new CustomError('User is not suspended', 400);
+    }
+
+    user.suspendedAt = undefined;
+    user.suspendedReason = undefined;
+    user.suspendedBy = undefined;
+    await user.save();
+
+    await auditService.record(req, {
+      action: 'user.unsuspended',
+      targetType: 'user',
+      targetId: user._id,
+    });
+
+    res.json({
+      success: true,
+      data: { user: serializeUser(user) },
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error unsuspending user');
+  }
+};
+
+// For accounts whose password may be compromised: signs the user out
+// everywhere and blocks every login method until they reset it by email
+export const forcePasswordReset = async (req: Request, res: Response) => {
+  try {
+    const user = await findTargetUser(req);
+    assertCanManage(req, user);
+
+    user.passwordResetRequired = true;
+    await user.save();
+    await tokenService.revokeAllSessions(user._id, 'admin_revoked');
+
+    try {
+      await sendPasswordResetEmail(user);
+    } catch (error) {
+      logger.error('Error sending password reset email:', error);
+    }
+
+    await auditService.record(req, {
+      action: 'user.password_reset_forced',
+      targetType: 'user',
+      targetId: user._id,
+    });
+
+    res.json({
+      success: true,
+      message: 'Password reset required and reset link sent',
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error forcing password reset');
+  }
+};
+
+export const revokeUserSessions = async (req: Request, res: Response) => {
+  try {
+    const user = await findTargetUser(req);
+    assertCanManage(req, user);
+
+    await tokenService.revokeAllSessions(user._id, 'admin_revoked');
+
+    await auditService.record(req, {
+      action: 'user.sessions_revoked',
+      targetType: 'user',
+      targetId: user._id,
+    });
+
+    res.json({
+      success: true,
+      message: 'All sessions revoked',
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error revoking sessions');
+  }
+};
+
+export const getUserAuditLog = async (req: Request, res: Response) => {
+  try {
+    const page = Number(req.query.page || 1);
+    const limit = Math.min(Number(req.query.limit || 20), 100);
+
+    const { entries, total } = await auditService.listForTarget(
+      'user',
+      req.params.id,
+      page,
+      limit,
+    );
+
+    res.json({
+      success: true,
+      data: {
+        entries,
+        total,
+        page,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error fetching audit log');
+  }
+};
+
+export const unlockLogin = async (req: Request, res: Response) => {
+  try {
+    const { email, ip } = req.body;
+
+    await loginThrottleService.unlock({ email, ip });
+
+    await auditService.record(req, {
+      action: 'login_lockout.cleared',
+      targetType: 'login_lockout',
+      targetId: email || ip,
+      metadata: { email, ip },
+    });
+
+    res.json({
+      success: true,
+      message: 'Login lockout cleared',
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error clearing login lockout');
+  }
+};
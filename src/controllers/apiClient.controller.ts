@@ -0,0 +1,196 @@
+import { Request, Response } from 'express';
+import { ApiClient, IApiClient, IApiKey } from '../models/apiClient.model';
+import { isKeyActive, apiClientService } from '../services/apiClient.service';
+import { auditService } from '../services/audit.service';
+import { CustomError, wrapError } from '../utils/customError';
+
+const serializeKey = (key: IApiKey) => ({
+  id: key._id,
+  prefix: key.prefix,
+  active: isKeyActive(key),
+  createdAt: key.createdAt,
+  expiresAt: key.expiresAt,
+  revokedAt: key.revokedAt,
+  lastUsedAt: key.lastUsedAt,
+});
+
+const serializeClient = (client: IApiClient) => ({
+  id: client._id,
+  name: client.name,
+  description: client.description,
+  scopes: client.scopes,
+  rateLimit: client.rateLimit,
+  keys: client.keys.map(serializeKey),
+  revokedAt: client.revokedAt,
+  createdAt: client.createdAt,
+});
+
+const findClient = async (req: Request): Promise<IApiClient> => {
+  const client = await ApiClient.findById(req.params.id);
+  if (!client) {
+    throw new CustomError('API client not found', 404);
+  }
+  return client;
+};
+
+export const listApiClients = async (req: Request, res: Response) => {
+  try {
+    const clients = await ApiClient.find().sort({ name: 1 });
+
+    res.json({
+      success: true,
+      data: clients.map(serializeClient),
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error fetching API clients');
+  }
+};
+
+export const getApiClient = async (req: Request, res: Response) => {
+  try {
+    const client = await findClient(req);
+
+    res.json({
+      success: true,
+      data: serializeClient(client),
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error fetching API client');
+  }
+};
+
+export const createApiClient = async (req: Request, res: Response) => {
+  try {
+    const { name, description, scopes, rateLimit, expiresAt } = req.body;
+
+    const { client, key, apiKey } = await apiClientService.createClient(
+      {
+        name,
+        description,
+        scopes,
+        rateLimit,
+        expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+      },
+      req.user?._id.toString(),
+    );
+
+    await auditService.record(req, {
+      action: 'api_client.created',
+      targetType: 'api_client',
+      targetId: client._id,
+      metadata: { name, scopes, keyId: key._id.toString() },
+    });
+
+    res.status(201).json({
+      success: true,
+      data: {
+        client: serializeClient(client),
+        apiKey,
+      },
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error creating API client');
+  }
+};
+
+export const updateApiClient = async (req: Request, res: Response) => {
+  try {
+    const { description, scopes, rateLimit } = req.body;
+    const client = await findClient(req);
+
+    if (description !== undefined) client.description = description;
+    if (scopes) client.scopes = scopes;
+    if (rateLimit) client.rateLimit = rateLimit;
+    await client.save();
+    apiClientService.clearCache();
+
+    await auditService.record(req, {
+      action: 'api_client.updated',
+      targetType: 'api_client',
+      targetId: client._id,
+      metadata: { scopes, rateLimit },
+    });
+
+    res.json({
+      success: true,
+      data: serializeClient(client),
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error updating API client');
+  }
+};
+
+export const rotateApiKey = async (req: Request, res: Response) => {
+  try {
+    const { overlapSeconds = 86400, expiresAt } = req.body;
+    const client = await findClient(req);
+
+    if (client.revokedAt) {
+      throw new CustomError('API client is revoked', 400);
+    }
+
+    const { key, apiKey } = await apiClientService.rotateKey(
+      client,
+      overlapSeconds,
+      expiresAt ? new Date(expiresAt) : undefined,
+    );
+
+    await auditService.record(req, {
+      action: 'api_client.key_rotated',
+      targetType: 'api_client',
+      targetId: client._id,
+      metadata: { keyId: key._id.toString(), overlapSeconds },
+    });
+
+    res.status(201).json({
+      success: true,
+      data: {
+        client: serializeClient(client),
+        apiKey,
+      },
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error rotating API key');
+  }
+};
+
+export const revokeApiKey = async (req: Request, res: Response) => {
+  try {
+    const client = await findClient(req);
+    const key = await apiClientService.revokeKey(client, req.params.keyId);
+
+    await auditService.record(req, {
+      action: 'api_client.key_revoked',
+      targetType: 'api_client',
+      targetId: client._id,
+      metadata: { keyId: key._id.toString() },
+    });
+
+    res.json({
+      success: true,
+      data: serializeClient(client),
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error revoking API key');
+  }
+};
+
+export const revokeApiClient = async (req: Request, res: Response) => {
+  try {
+    const client = await findClient(req);
+    await apiClientService.revokeClient(client);
+
+    await auditService.record(req, {
+      action: 'api_client.revoked',
+      targetType: 'api_client',
+      targetId: client._id,
+    });
+
+    res.json({
+      success: true,
+      message: 'API client revoked',
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error revoking API client');
+  }
+};
@@ -1,18 +1,139 @@
-import crypto from 'crypto';
 import { Request, Response } from 'express';
-import jwt from 'jsonwebtoken';
-import config from '../config';
+import config, { OAuthProviderName } from '../config';
+import {
+  sendVerificationEmail,
+  verifyEmailToken,
+} from '../helpers/emailVerification';
+import { buildUserDataExport } from '../helpers/dataExport';
+import {
+  consumeMagicLinkToken,
+  sendMagicLinkEmail,
+  sendSignupLinkEmail,
+} from '../helpers/magicLink';
+import {
+  findUserByResetToken,
+  sendPasswordResetEmail,
+} from '../helpers/passwordReset';
+import {
+  createTwoFactorChallenge,
+  isTwoFactorRequired,
+  verifySecondFactor,
+  verifyTwoFactorChallenge,
+} from '../helpers/twoFactor';
 import { IUser, User } from '../models/user.model';
-import { CustomError } from '../utils/customError';
+import { accountDeletionService } from '../services/accountDeletion.service';
+import { auditService } from '../services/audit.service';
+import {
+  LoginThrottledError,
+  loginThrottleService,
+} from '../services/loginThrottle.service';
+import { mailService } from '../services/mail.service';
+import { oauthService } from '../services/oauth.service';
+import { rateLimitService } from '../services/rateLimit.service';
+import { TokenContext, tokenService } from '../services/token.service';
+import { passwordChangedEmail } from '../templates/mail.templates';
+import { CustomError, ForbiddenError, wrapError } from '../utils/customError';
+import logger from '../utils/logger';
 
 // Add interface for authenticated request
 interface AuthRequest extends Request {
   user?: IUser;
 }
 
-const generateToken = (userId: string, role: string): string => {
-  return jwt.sign({ id: userId, role }, config.jwtSecret, {
-    expiresIn: '7d',
+const serializeUser = (user: IUser) => ({
+  id: user._id,
+  email: user.email,
+  name: user.name,
+  role: user.role,
+  emailVerified: user.emailVerified,
+  twoFactorEnabled: user.twoFactorEnabled,
+  hasPassword: !!user.password,
+  oauthProviders: user.oauthProviders.map((link) => link.provider),
+});
+
+// A failed email must not fail the request that triggered it; the user can
+// ask for the verification email again
+const trySendVerificationEmail = async (user: IUser) => {
+  try {
+    await sendVerificationEmail(user);
+  } catch (error) {
+    logger.error('Error sending verification email:', error);
+  }
+};
+
+const getTokenContext = (req: Request): TokenContext => ({
+  deviceId: req.body?.deviceId,
+  deviceName: req.body?.deviceName,
+  platform: req.body?.platform,
+  ip: req.ip,
+  userAgent: req.get('user-agent'),
+});
+
+type LoginMethod = 'password' | 'oauth' | 'magic_link' | 'two_factor';
+
+const recordLogin = (req: Request, user: IUser, method: LoginMethod) =>
+  auditService.record(req, {
+    action: 'user.login',
+    targetType: 'user',
+    targetId: user._id,
+    metadata: { method },
+  });
+
+// Signing in during the deletion grace period keeps the account
+const cancelPendingDeletion = async (req: Request, user: IUser) => {
+  if (!user.deletionScheduledFor) return;
+
+  await accountDeletionService.cancelDeletion(user);
+  await auditService.record(req, {
+    action: 'user.deletion_cancelled',
+    targetType: 'user',
+    targetId: user._id,
+  });
+};
+
+// Finishes a login once the user has proven who they are. With 2FA on, that
+// only earns a challenge for the second step.
+const completeLogin = async (
+  req: Request,
+  res: Response,
+  user: IUser,
+  method: LoginMethod,
+) => {
+  if (user.suspendedAt) {
+    throw new ForbiddenError('Account suspended', 'ACCOUNT_SUSPENDED');
+  }
+
+  // Set by an admin; applies to every login method, not just passwords
+  if (user.passwordResetRequired) {
+    throw new CustomError(
+      'Your password must be reset before you can sign in. Check your email for a reset link.',
+      403,
+      'PASSWORD_RESET_REQUIRED',
+    );
+  }
+
+  if (user.twoFactorEnabled) {
+    return res.json({
+      success: true,
+      data: {
+        twoFactorRequired: true,
+        challengeToken: createTwoFactorChallenge(user),
+        expiresIn: config.twoFactor.challengeTtl,
+      },
+    });
+  }
+
+  await cancelPendingDeletion(req, user);
+  const tokens = await tokenService.issueTokens(user, getTokenContext(req));
+  await recordLogin(req, user, method);
+
+  res.json({
+    success: true,
+    data: {
+      user: serializeUser(user),
+      ...tokens,
+      twoFactorSetupRequired: isTwoFactorRequired(user),
+    },
   });
 };
 
@@ -33,23 +154,18 @@ export const register = async (req: Request, res: Response) => {
     });
 
     await user.save();
-    const token = generateToken(user._id.toString(), user.role);
+    await trySendVerificationEmail(user);
+    const tokens = await tokenService.issueTokens(user, getTokenContext(req));
 
     res.status(201).json({
       success: true,
       data: {
-        user: {
-          id: user._id,
-          email: user.email,
-          name: user.name,
-          role: user.role,
-        },
-        token,
+        user: serializeUser(user),
+        ...tokens,
       },
     });
   } catch (error) {
-    if (error instanceof CustomError) throw error;
-    throw new CustomError('Error creating user', 500);
+    throw wrapError(error, 'Error creating user');
   }
 };
 
@@ -57,59 +173,358 @@ export const login = async (req: Request, res: Response) => {
   try {
     const { email, password } = req.body;
 
+    await loginThrottleService.assertAllowed(email, req.ip);
+
     const user = await User.findOne({ email });
-    if (!user) {
+    const isMatch = user ? await user.comparePassword(password) : false;
+    if (!user || !isMatch) {
+      await loginThrottleService.recordFailure(email, req.ip, user);
       throw new CustomError('Invalid credentials', 401);
     }
 
-    const isMatch = await user.comparePassword(password);
-    if (!isMatch) {
-      throw new CustomError('Invalid credentials', 401);
+    await loginThrottleService.recordSuccess(email);
+
+    await completeLogin(req, res, user, 'password');
+  } catch (error) {
+    throw wrapError(error, 'Error logging in');
+  }
+};
+
+export const verifyTwoFactorLogin = async (req: Request, res: Response) => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body;
+
+    const user = await verifyTwoFactorChallenge(challengeToken);
+    if (user.suspendedAt) {
+      throw new ForbiddenError('Account suspended', 'ACCOUNT_SUSPENDED');
     }
 
-    const token = generateToken(user._id.toString(), user.role);
+    // Wrong codes count as failed logins, which stops codes being guessed
+    await loginThrottleService.assertAllowed(user.email, req.ip);
+    if (!(await verifySecondFactor(user, { code, recoveryCode }))) {
+      await loginThrottleService.recordFailure(user.email, req.ip, user);
+      throw new CustomError('Invalid verification code', 401);
+    }
+    await user.save();
+    await loginThrottleService.recordSuccess(user.email);
+
+    await cancelPendingDeletion(req, user);
+    const tokens = await tokenService.issueTokens(user, getTokenContext(req));
+    await recordLogin(req, user, 'two_factor');
 
     res.json({
       success: true,
       data: {
-        user: {
-          id: user._id,
-          email: user.email,
-          name: user.name,
-          role: user.role,
-        },
-        token,
+        user: serializeUser(user),
+        ...tokens,
       },
     });
   } catch (error) {
-    if (error instanceof CustomError) throw error;
-    throw new CustomError('Error logging in', 500);
+    throw wrapError(error, 'Error verifying two-factor code');
   }
 };
 
-export const forgotPassword = async (req: Request, res: Response) => {
+export const requestMagicLink = async (req: Request, res: Response) => {
   try {
-    const { email } = req.body;
+    const { email, name } = req.body;
+
+    await loginThrottleService.assertAllowed(email, req.ip);
+
+    // Every link is an email sent on the requester's behalf
+    const { magicLink } = config;
+    const quota = await rateLimitService.consume(
+      `magic-link:${email}`,
+      magicLink.maxRequests,
+      magicLink.requestWindowSeconds,
+    );
+    if (!quota.allowed) {
+      throw new LoginThrottledError(
+        'Too many sign-in links requested, please try again later',
+        429,
+        Math.ceil((quota.resetAt.getTime() - Date.now()) / 1000),
+      );
+    }
+
+    // Answer the same way whether or not the account exists, so the endpoint
+    // cannot be used to find out which addresses are registered
     const user = await User.findOne({ email });
+    try {
+      if (user) {
+        if (!user.suspendedAt) {
+          await sendMagicLinkEmail(user);
+        }
+      } else if (name) {
+        await sendSignupLinkEmail(email, name);
+      }
+    } catch (error) {
+      logger.error('Error sending magic link email:', error);
+    }
+
+    res.json({
+      success: true,
+      message:
+        'If an account exists for this email, a sign-in link has been sent',
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error sending sign-in link');
+  }
+};
+
+export const verifyMagicLink = async (req: Request, res: Response) => {
+  try {
+    const { token } = req.body;
+
+    // The email is unknown until the token is looked up, so wrong tokens
+    // count against the IP only
+    await loginThrottleService.assertAllowed(null, req.ip);
+
+    const user = await consumeMagicLinkToken(token);
+    if (!user) {
+      await loginThrottleService.recordFailure(null, req.ip, null);
+      throw new CustomError('Invalid or expired sign-in link', 401);
+    }
+
+    // Opening the link proves the address belongs to the user
+    if (!user.emailVerified) {
+      user.emailVerified = true;
+      user.emailVerifiedAt = new Date();
+      await user.save();
+    }
+    await loginThrottleService.recordSuccess(user.email);
+
+    await completeLogin(req, res, user, 'magic_link');
+  } catch (error) {
+    throw wrapError(error, 'Error signing in');
+  }
+};
+
+// Sign in with an ID token from Google or Apple. Unknown identities get a new
+// account; an existing account with the same email has to link the provider
+// first, so that controlling the email at the provider is not enough to take
+// it over.
+export const oauthLogin = async (req: Request, res: Response) => {
+  try {
+    const provider = req.params.provider as OAuthProviderName;
+    const { idToken, name } = req.body;
+
+    const identity = await oauthService.verifyIdToken(provider, idToken);
 
+    let user = await User.findOne({
+      oauthProviders: {
+        $elemMatch: { provider, subject: identity.subject },
+      },
+    });
+
+    if (!user) {
+      if (!identity.email) {
+        throw new CustomError(
+          `Your ${provider} account did not share an email address`,
+          400,
+        );
+      }
+
+      const existingUser = await User.findOne({ email: identity.email });
+      if (existingUser) {
+        throw new CustomError(
+          `An account with this email already exists. Sign in and link your ${provider} account instead.`,
+          409,
+        );
+      }
+
+      user = new User({
+        email: identity.email,
+        // Apple only shares the name with the app, on the first sign-in
+        name: identity.name || name || identity.email.split('@')[0],
+        role: 'user',
+        emailVerified: identity.emailVerified,
+        emailVerifiedAt: identity.emailVerified ? new Date() : undefined,
+        oauthProviders: [
+          {
+            provider,
+            subject: identity.subject,
+            email: identity.email,
+          },
+        ],
+      });
+      await user.save();
+    }
+
+    await completeLogin(req, res, user, 'oauth');
+  } catch (error) {
+    throw wrapError(error, 'Error signing in');
+  }
+};
+
+export const linkOAuthProvider = async (req: AuthRequest, res: Response) => {
+  try {
+    const provider = req.params.provider as OAuthProviderName;
+    const { idToken } = req.body;
+    if (!req.user) {
+      throw new CustomError('User not authenticated', 401);
+    }
+
+    const identity = await oauthService.verifyIdToken(provider, idToken);
+
+    const owner = await User.findOne({
+      oauthProviders: {
+        $elemMatch: { provider, subject: identity.subject },
+      },
+    });
+    if (owner && !owner._id.equals(req.user._id)) {
+      throw new CustomError(
+        `This ${provider} account is linked to another user`,
+        409,
+      );
+    }
+
+    const user = await User.findById(req.user._id);
     if (!user) {
       throw new CustomError('User not found', 404);
     }
 
-    const resetToken = crypto.randomBytes(32).toString('hex');
-    user.resetPasswordToken = resetToken;
-    user.resetPasswordExpires = new Date(Date.now() + 3600000); // 1 hour
+    if (!owner) {
+      // One account per provider; linking again replaces the previous one
+      user.oauthProviders = [
+        ...user.oauthProviders.filter((link) => link.provider !== provider),
+        {
+          provider,
+          subject: identity.subject,
+          email: identity.email,
+          linkedAt: new Date(),
+        },
+      ];
+      await user.save();
+    }
+
+    res.json({
+      success: true,
+      data: {
+        user: serializeUser(user),
+      },
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error linking account');
+  }
+};
+
+export const unlinkOAuthProvider = async (req: AuthRequest, res: Response) => {
+  try {
+    const provider = req.params.provider as OAuthProviderName;
+    if (!req.user) {
+      throw new CustomError('User not authenticated', 401);
+    }
+
+    const user = await User.findById(req.user._id);
+    if (!user) {
+      throw new CustomError('User not found', 404);
+    }
+
+    const remaining = user.oauthProviders.filter(
+      (link) => link.provider !== provider,
+    );
+    if (remaining.length === user.oauthProviders.length) {
+      throw new CustomError(`No ${provider} account is linked`, 404);
+    }
+
+    // Keep at least one way to sign in
+    if (!user.password && remaining.length === 0) {
+      throw new CustomError(
+        'Set a password through password reset before removing your last sign-in method',
+        400,
+      );
+    }
+
+    user.oauthProviders = remaining;
     await user.save();
 
-    // In a real application, you would send this token via email
     res.json({
       success: true,
-      message: 'Password reset token generated',
-      data: { resetToken },
+      data: {
+        user: serializeUser(user),
+      },
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error unlinking account');
+  }
+};
+
+export const refreshToken = async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body;
+
+    const tokens = await tokenService.rotateRefreshToken(
+      refreshToken,
+      getTokenContext(req),
+    );
+
+    res.json({
+      success: true,
+      data: tokens,
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error refreshing token');
+  }
+};
+
+export const verifyEmail = async (req: Request, res: Response) => {
+  try {
+    const { token } = req.body;
+
+    const user = await verifyEmailToken(token);
+
+    res.json({
+      success: true,
+      message: 'Email verified successfully',
+      data: { user: serializeUser(user) },
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error verifying email');
+  }
+};
+
+export const resendVerification = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      throw new CustomError('User not authenticated', 401);
+    }
+
+    if (req.user.emailVerified) {
+      throw new CustomError('Email already verified', 400);
+    }
+
+    await sendVerificationEmail(req.user);
+
+    res.json({
+      success: true,
+      message: 'Verification email sent',
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error sending verification email');
+  }
+};
+
+export const forgotPassword = async (req: Request, res: Response) => {
+  try {
+    const { email } = req.body;
+    const user = await User.findOne({ email });
+
+    // Answer the same way whether or not the account exists, so the endpoint
+    // cannot be used to find out which addresses are registered
+    if (user) {
+      try {
+        await sendPasswordResetEmail(user);
+      } catch (error) {
+        logger.error('Error sending password reset email:', error);
+      }
+    }
+
+    res.json({
+      success: true,
+      message:
+        'If an account exists for this email, a password reset link has been sent',
     });
   } catch (error) {
-    if (error instanceof CustomError) throw error;
-    throw new CustomError('Error processing request', 500);
+    throw wrapError(error, 'Error processing request');
   }
 };
 
@@ -117,41 +532,180 @@ export const resetPassword = async (req: Request, res: Response) => {
   try {
     const { token, password } = req.body;
 
-    const user = await User.findOne({
-      resetPasswordToken: token,
-      resetPasswordExpires: { $gt: Date.now() },
-    });
+    const user = await findUserByResetToken(token);
 
     if (!user) {
       throw new CustomError('Invalid or expired reset token', 400);
     }
 
-    user.password = password;
+    if (await user.isRecentPassword(password)) {
+      throw new CustomError(
+        `New password must differ from your last ${config.passwordPolicy.historySize} passwords`,
+        400,
+      );
+    }
+
+    user.setPassword(password);
+    user.passwordResetRequired = false;
     user.resetPasswordToken = undefined;
     user.resetPasswordExpires = undefined;
     await user.save();
 
+    // Whoever requested the reset may not be the only one holding a session
+    await tokenService.revokeAllSessions(user._id, 'password_reset');
+
     res.json({
       success: true,
       message: 'Password has been reset successfully',
     });
   } catch (error) {
-    if (error instanceof CustomError) throw error;
-    throw new CustomError('Error resetting password', 500);
+    throw wrapError(error, 'Error resetting password');
   }
 };
 
 export const logout = async (req: Request, res: Response) => {
   try {
-    // In a real application, you might want to invalidate the token
-    // For now, we'll just send a success response
+    if (!req.authSession) {
+      throw new CustomError('User not authenticated', 401);
+    }
+
+    await tokenService.revokeSession(req.authSession._id, 'logout');
+
     res.json({
       success: true,
       message: 'Logged out successfully',
     });
   } catch (error) {
-    if (error instanceof CustomError) throw error;
-    throw new CustomError('Error logging out', 500);
+    throw wrapError(error, 'Error logging out');
+  }
+};
+
+export const logoutAll = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      throw new CustomError('User not authenticated', 401);
+    }
+
+    await tokenService.revokeAllSessions(req.user._id, 'logout_all');
+
+    res.json({
+      success: true,
+      message: 'Logged out from all devices successfully',
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error logging out');
+  }
+};
+
+export const listSessions = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      throw new CustomError('User not authenticated', 401);
+    }
+
+    const sessions = await tokenService.listActiveSessions(req.user._id);
+    const currentSessionId = req.authSession?._id.toString();
+
+    res.json({
+      success: true,
+      data: sessions.map((session) => ({
+        id: session._id,
+        deviceName: session.deviceName,
+        platform: session.platform,
+        ip: session.ip,
+        userAgent: session.userAgent,
+        lastSeenAt: session.lastSeenAt,
+        createdAt: session.createdAt,
+        current: session._id.toString() === currentSessionId,
+      })),
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error fetching sessions');
+  }
+};
+
+export const revokeSessionById = async (
+  req: Request<{ id: string }>,
+  res: Response,
+) => {
+  try {
+    if (!req.user) {
+      throw new CustomError('User not authenticated', 401);
+    }
+
+    const session = await tokenService.findActiveSession(
+      req.params.id,
+      req.user._id.toString(),
+    );
+
+    if (!session) {
+      throw new CustomError('Session not found', 404);
+    }
+
+    await tokenService.revokeSession(session._id, 'logout');
+
+    res.json({
+      success: true,
+      message: 'Session revoked successfully',
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error revoking session');
+  }
+};
+
+export const changePassword = async (req: AuthRequest, res: Response) => {
+  try {
+    const { currentPassword, newPassword } = req.body;
+    if (!req.user || !req.authSession) {
+      throw new CustomError('User not authenticated', 401);
+    }
+
+    const user = await User.findById(req.user._id).select('+passwordHistory');
+    if (!user) {
+      throw new CustomError('User not found', 404);
+    }
+
+    const isMatch = await user.comparePassword(currentPassword);
+    if (!isMatch) {
+      throw new CustomError('Current password is incorrect', 400);
+    }
+
+    if (await user.isRecentPassword(newPassword)) {
+      throw new CustomError(
+        `New password must differ from your last ${config.passwordPolicy.historySize} passwords`,
+        400,
+      );
+    }
+
+    user.setPassword(newPassword);
+    await user.save();
+
+    // A security alert, so it goes by email regardless of the user's
+    // notification preferences
+    try {
+      await mailService.send({
+        to: user.email,
+        ...passwordChangedEmail(
+          user.name,
+          `${config.clientUrl}/forgot-password`,
+        ),
+      });
+    } catch (error) {
+      logger.error('Error sending password changed email:', error);
+    }
+
+    await tokenService.revokeAllSessions(
+      user._id,
+      'password_changed',
+      req.authSession._id,
+    );
+
+    res.json({
+      success: true,
+      message: 'Password changed successfully',
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error changing password');
   }
 };
 
@@ -169,12 +723,15 @@ export const updateUser = async (req: AuthRequest, res: Response) => {
     }
 
     // Check if email is being changed and if it's already taken
-    if (email && email !== user.email) {
+    const emailChanged = !!email && email !== user.email;
+    if (emailChanged) {
       const existingUser = await User.findOne({ email });
       if (existingUser) {
         throw new CustomError('Email already in use', 400);
       }
       user.email = email;
+      user.emailVerified = false;
+      user.emailVerifiedAt = undefined;
     }
 
     if (name) {
@@ -183,19 +740,91 @@ export const updateUser = async (req: AuthRequest, res: Response) => {
 
     await user.save();
 
+    // The new address has to be verified again
+    if (emailChanged) {
+      await trySendVerificationEmail(user);
+    }
+
     res.json({
       success: true,
       data: {
-        user: {
-          id: user._id,
-          email: user.email,
-          name: user.name,
-          role: user.role,
-        },
+        user: serializeUser(user),
       },
     });
   } catch (error) {
-    if (error instanceof CustomError) throw error;
-    throw new CustomError('Error updating user', 500);
+    throw wrapError(error, 'Error updating user');
+  }
+};
+
+export const deleteAccount = async (req: AuthRequest, res: Response) => {
+  try {
+    const { password } = req.body;
+    if (!req.user || !req.authSession) {
+      throw new CustomError('User not authenticated', 401);
+    }
+    const user = req.user;
+
+    if (user.password) {
+      if (!(await user.comparePassword(password || ''))) {
+        throw new CustomError('Password is incorrect', 400);
+      }
+    } else {
+      // Accounts that only sign in through a provider or a sign-in link have
+      // no password to confirm with, so they must have signed in just now.
+      // Refreshing keeps the session, so only a new sign-in counts.
+      const signedInAt = req.authSession.createdAt.getTime();
+      if (
+        Date.now() - signedInAt >
+        config.accountDeletion.reauthWindow * 1000
+      ) {
+        throw new ForbiddenError(
+          'Sign in again to delete your account',
+          'REAUTHENTICATION_REQUIRED',
+        );
+      }
+    }
+
+    const deletionScheduledFor =
+      await accountDeletionService.scheduleDeletion(user);
+
+    await auditService.record(req, {
+      action: 'user.deletion_requested',
+      targetType: 'user',
+      targetId: user._id,
+      metadata: { deletionScheduledFor },
+    });
+
+    res.json({
+      success: true,
+      message: 'Account scheduled for deletion',
+      data: { deletionScheduledFor },
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error deleting account');
+  }
+};
+
+export const exportAccountData = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      throw new CustomError('User not authenticated', 401);
+    }
+
+    const data = await buildUserDataExport(req.user);
+
+    await auditService.record(req, {
+      action: 'user.data_exported',
+      targetType: 'user',
+      targetId: req.user._id,
+    });
+
+    const date = data.exportedAt.toISOString().slice(0, 10);
+    res.attachment(`account-data-${req.user._id}-${date}.json`);
+    res.json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error exporting account data');
   }
 };
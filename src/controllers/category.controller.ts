@@ -1,149 +1,145 @@
 import { Request, Response } from 'express';
 import { Category } from '../models/category.model';
+import { NotFoundError, wrapError } from '../utils/customError';
+
+const toSlug = (name: string) => name.toLowerCase().replace(/\s+/g, '-');
 
 export const createCategory = async (req: Request, res: Response) => {
   try {
     const { name, description } = req.body;
-    const createdBy = req.user?._id;
-
-    // Create slug from name
-    const slug = name.toLowerCase().replace(/\s+/g, '-');
 
-    const category = new Category({
+    const category = await Category.create({
       name,
       description,
-      slug,
-      createdBy,
+      slug: toSlug(name),
+      createdBy: req.user?._id,
     });
 
-    await category.save();
-    res.status(201).json(category);
+    res.status(201).json({
+      success: true,
+      data: category,
+    });
   } catch (error) {
-    if (error instanceof Error && error.message.includes('duplicate key')) {
-      return res
-        .status(400)
-        .json({ error: 'Category with this name already exists' });
-    }
-    res.status(500).json({ error: 'Error creating category' });
+    throw wrapError(error, 'Error creating category');
   }
 };
 
 export const listCategories = async (req: Request, res: Response) => {
   try {
     const { search, page = 1, limit = 10 } = req.query;
-    const query: any = {};
+    const query: Record<string, unknown> = {};
 
     if (search) {
       query.$text = { $search: search as string };
     }
 
-    const categories = await Category.find(query)
-      .populate('createdBy', 'name email')
-      .sort({ createdAt: -1 })
-      .skip((Number(page) - 1) * Number(limit))
-      .limit(Number(limit));
-
-    const total = await Category.countDocuments(query);
+    const [categories, total] = await Promise.all([
+      Category.find(query)
+        .populate('createdBy', 'name email')
+        .sort({ createdAt: -1 })
+        .skip((Number(page) - 1) * Number(limit))
+        .limit(Number(limit)),
+      Category.countDocuments(query),
+    ]);
 
     res.json({
-      categories,
-      total,
-      page: Number(page),
-      totalPages: Math.ceil(total / Number(limit)),
+      success: true,
+      data: {
+        categories,
+        total,
+        page: Number(page),
+        totalPages: Math.ceil(total / Number(limit)),
+      },
     });
   } catch (error) {
-    res.status(500).json({ error: 'Error fetching categories' });
+    throw wrapError(error, 'Error fetching categories');
   }
 };
 
 export const getCategoryById = async (req: Request, res: Response) => {
   try {
-    const { categoryId } = req.params;
-    const category = await Category.findById(categoryId).populate(
+    const category = await Category.findById(req.params.id).populate(
       'createdBy',
       'name email',
     );
 
     if (!category) {
-      return res.status(404).json({ error: 'Category not found' });
+      throw new NotFoundError('Category not found');
     }
 
-    res.json(category);
+    res.json({
+      success: true,
+      data: category,
+    });
   } catch (error) {
-    res.status(500).json({ error: 'Error fetching category' });
+    throw wrapError(error, 'Error fetching category');
   }
 };
 
 export const updateCategory = async (req: Request, res: Response) => {
   try {
-    const { categoryId } = req.params;
     const { name, description } = req.body;
-    const userId = req.user?._id;
 
-    const category = await Category.findOne({
-      _id: categoryId,
-      createdBy: userId,
-    });
+    const category = await Category.findById(req.params.id);
 
     if (!category) {
-      return res.status(404).json({ error: 'Category not found' });
+      throw new NotFoundError('Category not found');
     }
 
     if (name) {
       category.name = name;
-      category.slug = name.toLowerCase().replace(/\s+/g, '-');
+      category.slug = toSlug(name);
     }
     if (description) {
       category.description = description;
     }
 
     await category.save();
-    res.json(category);
+
+    res.json({
+      success: true,
+      data: category,
+    });
   } catch (error) {
-    if (error instanceof Error && error.message.includes('duplicate key')) {
-      return res
-        .status(400)
-        .json({ error: 'Category with this name already exists' });
-    }
-    res.status(500).json({ error: 'Error updating category' });
+    throw wrapError(error, 'Error updating category');
   }
 };
 
 export const deleteCategory = async (req: Request, res: Response) => {
   try {
-    const { categoryId } = req.params;
-    const userId = req.user?._id;
-
-    const category = await Category.findOne({
-      _id: categoryId,
-      createdBy: userId,
-    });
+    const category = await Category.findById(req.params.id);
 
     if (!category) {
-      return res.status(404).json({ error: 'Category not found' });
+      throw new NotFoundError('Category not found');
     }
 
     await category.deleteOne();
-    res.json({ message: 'Category deleted successfully' });
+
+    res.json({
+      success: true,
+      message: 'Category deleted successfully',
+    });
   } catch (error) {
-    res.status(500).json({ error: 'Error deleting category' });
+    throw wrapError(error, 'Error deleting category');
   }
 };
 
 export const getCategoryBySlug = async (req: Request, res: Response) => {
   try {
-    const { slug } = req.params;
-    const category = await Category.findOne({ slug }).populate(
+    const category = await Category.findOne({ slug: req.params.slug }).populate(
       'createdBy',
       'name email',
     );
 
     if (!category) {
-      return res.status(404).json({ error: 'Category not found' });
+      throw new NotFoundError('Category not found');
     }
 
-    res.json(category);
+    res.json({
+      success: true,
+      data: category,
+    });
   } catch (error) {
-    res.status(500).json({ error: 'Error fetching category' });
+    throw wrapError(error, 'Error fetching category');
   }
 };
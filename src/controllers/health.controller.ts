@@ -1,44 +1,84 @@
 import { Request, Response } from 'express';
 import os from 'os';
+import { httpRequestDuration, httpRequestsTotal } from '../helpers/metrics';
+import { healthService } from '../services/health.service';
+import { metricsService } from '../services/metrics.service';
+import { wrapError } from '../utils/customError';
 
-export const getHealth = async (req: Request, res: Response) => {
+// Liveness: the process is up and serving requests. Never touches
+// dependencies, so a database outage doesn't get the instance restarted.
+export const getLiveness = (_req: Request, res: Response) => {
+  res.json({
+    status: 'ok',
+    timestamp: new Date().toISOString(),
+    uptime: process.uptime(),
+    memory: process.memoryUsage(),
+  });
+};
+
+// Readiness: critical dependencies work, so the instance can take traffic.
+// Only statuses are public; details are behind GET /v1/api/health.
+export const getReadiness = async (_req: Request, res: Response) => {
   try {
-    // TODO: Add actual health checks for database, storage, and cache
-    const healthStatus = {
-      status: 'healthy',
-      version: process.env.npm_package_version || '1.0.0',
-      timestamp: new Date().toISOString(),
-      services: {
-        database: 'healthy', // TODO: Implement actual database health check
-        storage: 'healthy', // TODO: Implement actual storage health check
-        cache: 'healthy', // TODO: Implement actual cache health check
-      },
-    };
+    const report = await healthService.check();
 
-    res.json(healthStatus);
+    res.status(report.status === 'unhealthy' ? 503 : 200).json({
+      status: report.status,
+      timestamp: report.timestamp,
+      checks: Object.fromEntries(
+        Object.entries(report.checks).map(([name, check]) => [
+          name,
+          check.status,
+        ]),
+      ),
+    });
   } catch (error) {
-    res.status(500).json({
-      error: {
-        code: 'HEALTH_CHECK_FAILED',
-        message: 'Failed to check system health',
-      },
+    throw wrapError(error, 'Failed to check system health');
+  }
+};
+
+export const getHealth = async (_req: Request, res: Response) => {
+  try {
+    const report = await healthService.check();
+
+    res.status(report.status === 'unhealthy' ? 503 : 200).json({
+      status: report.status,
+      version: process.env.npm_package_version || '1.0.0',
+      timestamp: report.timestamp,
+      uptime: process.uptime(),
+      checks: report.checks,
     });
+  } catch (error) {
+    throw wrapError(error, 'Failed to check system health');
   }
 };
 
+const toMs = (seconds: number) => Math.round(seconds * 1e5) / 100;
+
+// Since the instance started. Response times are estimated from the latency
+// histogram buckets, like the Prometheus histogram_quantile function.
 export const getMetrics = async (req: Request, res: Response) => {
   try {
+    const {
+      avg,
+      quantiles: [p95, p99],
+    } = httpRequestDuration.summarize([0.95, 0.99]);
+    const successful = httpRequestsTotal.get(
+      ({ status }) => Number(status) < 400,
+    );
+    const failed = httpRequestsTotal.get(({ status }) => Number(status) >= 400);
+
     const metrics = {
       uptime: process.uptime(),
       responseTime: {
-        avg: 0, // TODO: Implement actual response time tracking
-        p95: 0,
-        p99: 0,
+        avg: toMs(avg),
+        p95: toMs(p95),
+        p99: toMs(p99),
       },
       requests: {
-        total: 0, // TODO: Implement actual request counting
-        successful: 0,
-        failed: 0,
+        total: successful + failed,
+        successful,
+        failed,
       },
       resources: {
         cpu: {
@@ -58,11 +98,13 @@ export const getMetrics = async (req: Request, res: Response) => {
 
     res.json(metrics);
   } catch (error) {
-    res.status(500).json({
-      error: {
-        code: 'METRICS_FETCH_FAILED',
-        message: 'Failed to fetch system metrics',
-      },
-    });
+    throw wrapError(error, 'Failed to fetch system metrics');
   }
 };
+
+// Prometheus text exposition of every metric, for the /metrics scrape target
+export const getPrometheusMetrics = (_req: Request, res: Response) => {
+  res
+    .type('text/plain; version=0.0.4; charset=utf-8')
+    .send(metricsService.render());
+};
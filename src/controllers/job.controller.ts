@@ -0,0 +1,27 @@
+import { Request, Response } from 'express';
+import { jobs } from '../jobs';
+import { NotFoundError, wrapError } from '../utils/customError';
+import logger from '../utils/logger';
+
+export const runJob = async (req: Request, res: Response) => {
+  try {
+    const job = jobs.get(req.params.name);
+    if (!job) {
+      throw new NotFoundError('Job not found');
+    }
+
+    const startedAt = Date.now();
+    const result = await job();
+    logger.info(`Job ${req.params.name} finished`, {
+      durationMs: Date.now() - startedAt,
+      ...result,
+    });
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    throw wrapError(error, `Error running job ${req.params.name}`);
+  }
+};
@@ -2,7 +2,7 @@ import { Request, Response } from 'express';
 import { Types } from 'mongoose';
 import { DeviceToken } from '../models/deviceToken.model';
 import { notificationService } from '../services/notification.service';
-import { CustomError } from '../utils/customError';
+import { CustomError, wrapError } from '../utils/customError';
 
 export const registerDeviceToken = async (req: Request, res: Response) => {
   try {
@@ -35,13 +35,20 @@ export const registerDeviceToken = async (req: Request, res: Response) => {
 
     await deviceToken.save();
 
+    // Link the device to the current session so signing it out also stops
+    // its push notifications
+    if (req.authSession && !req.authSession.deviceId) {
+      req.authSession.deviceId = deviceId;
+      req.authSession.platform = req.authSession.platform || deviceType;
+      await req.authSession.save();
+    }
+
     res.json({
       success: true,
       message: 'Device token registered successfully',
     });
   } catch (error) {
-    if (error instanceof CustomError) throw error;
-    throw new CustomError('Error registering device token', 500);
+    throw wrapError(error, 'Error registering device token');
   }
 };
 
@@ -68,8 +75,7 @@ export const unregisterDeviceToken = async (req: Request, res: Response) => {
       message: 'Device token unregistered successfully',
     });
   } catch (error) {
-    if (error instanceof CustomError) throw error;
-    throw new CustomError('Error unregistering device token', 500);
+    throw wrapError(error, 'Error unregistering device token');
   }
 };
 
@@ -91,8 +97,7 @@ export const getUserDeviceTokens = async (req: Request, res: Response) => {
       data: deviceTokens,
     });
   } catch (error) {
-    if (error instanceof CustomError) throw error;
-    throw new CustomError('Error fetching device tokens', 500);
+    throw wrapError(error, 'Error fetching device tokens');
   }
 };
 
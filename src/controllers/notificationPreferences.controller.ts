@@ -1,6 +1,6 @@
 import { Request, Response } from 'express';
 import { NotificationPreferences } from '../models/notificationPreferences.model';
-import { CustomError } from '../utils/customError';
+import { CustomError, wrapError } from '../utils/customError';
 
 export const getNotificationPreferences = async (
   req: Request,
@@ -27,8 +27,7 @@ export const getNotificationPreferences = async (
       data: preferences,
     });
   } catch (error) {
-    if (error instanceof CustomError) throw error;
-    throw new CustomError('Error fetching notification preferences', 500);
+    throw wrapError(error, 'Error fetching notification preferences');
   }
 };
 
@@ -55,8 +54,7 @@ export const updateNotificationPreferences = async (
       data: preferences,
     });
   } catch (error) {
-    if (error instanceof CustomError) throw error;
-    throw new CustomError('Error updating notification preferences', 500);
+    throw wrapError(error, 'Error updating notification preferences');
   }
 };
 
@@ -87,7 +85,6 @@ export const updateQuietHours = async (req: Request, res: Response) => {
       data: preferences.quietHours,
     });
   } catch (error) {
-    if (error instanceof CustomError) throw error;
-    throw new CustomError('Error updating quiet hours', 500);
+    throw wrapError(error, 'Error updating quiet hours');
   }
 };
@@ -1,7 +1,9 @@
 import { Request, Response } from 'express';
+import { subscriptionWebhookEventsTotal } from '../helpers/metrics';
+import { clearSubscriptionTier } from '../helpers/subscriptionTier';
 import { Subscription } from '../models/subscription.model';
 import { GooglePlayService } from '../services/googlePlay.service';
-import { CustomError } from '../utils/customError';
+import { CustomError, wrapError } from '../utils/customError';
 
 export const verifyAndSaveSubscription = async (
   req: Request,
@@ -49,6 +51,7 @@ export const verifyAndSaveSubscription = async (
         new: true,
       },
     );
+    clearSubscriptionTier(String(userId));
 
     // Acknowledge the subscription with Google Play
     await googlePlayService.acknowledgeSubscription(
@@ -62,8 +65,7 @@ export const verifyAndSaveSubscription = async (
       data: subscription,
     });
   } catch (error) {
-    if (error instanceof CustomError) throw error;
-    throw new CustomError('Error processing subscription', 500);
+    throw wrapError(error, 'Error processing subscription');
   }
 };
 
@@ -90,8 +92,7 @@ export const getSubscriptionStatus = async (req: Request, res: Response) => {
       },
     });
   } catch (error) {
-    if (error instanceof CustomError) throw error;
-    throw new CustomError('Error fetching subscription status', 500);
+    throw wrapError(error, 'Error fetching subscription status');
   }
 };
 
@@ -115,17 +116,31 @@ export const cancelSubscription = async (req: Request, res: Response) => {
     subscription.status = 'cancelled';
     subscription.autoRenewing = false;
     await subscription.save();
+    clearSubscriptionTier(String(userId));
 
     res.json({
       success: true,
       message: 'Subscription cancelled successfully',
     });
   } catch (error) {
-    if (error instanceof CustomError) throw error;
-    throw new CustomError('Error cancelling subscription', 500);
+    throw wrapError(error, 'Error cancelling subscription');
   }
 };
 
+// Labels for the webhook metric; anything else the sender puts in
+// notificationType is counted as OTHER
+const WEBHOOK_EVENT_TYPES = new Set([
+  'SUBSCRIPTION_PURCHASED',
+  'SUBSCRIPTION_RENEWED',
+  'SUBSCRIPTION_EXPIRED',
+  'SUBSCRIPTION_CANCELED',
+  'SUBSCRIPTION_RECOVERED',
+  'SUBSCRIPTION_PAUSED',
+  'SUBSCRIPTION_RESTARTED',
+  'SUBSCRIPTION_PRORATED',
+  'SUBSCRIPTION_DEFERRED',
+]);
+
 export const handleSubscriptionWebhook = async (
   req: Request,
   res: Response,
@@ -134,6 +149,12 @@ export const handleSubscriptionWebhook = async (
     const { message } = req.body;
     const data = JSON.parse(Buffer.from(message.data, 'base64').toString());
 
+    subscriptionWebhookEventsTotal.inc({
+      type: WEBHOOK_EVENT_TYPES.has(data.notificationType)
+        ? data.notificationType
+        : 'OTHER',
+    });
+
     // Handle different notification types
     switch (data.notificationType) {
       case 'SUBSCRIPTION_PURCHASED':
@@ -308,7 +329,6 @@ export const getSubscriptionHistory = async (req: Request, res: Response) => {
       data: subscriptions,
     });
   } catch (error) {
-    if (error instanceof CustomError) throw error;
-    throw new CustomError('Error fetching subscription history', 500);
+    throw wrapError(error, 'Error fetching subscription history');
   }
 };
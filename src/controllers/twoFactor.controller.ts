@@ -0,0 +1,160 @@
+import { Request, Response } from 'express';
+import config from '../config';
+import {
+  buildOtpauthUri,
+  generateTotpSecret,
+  verifyTotp,
+} from '../helpers/totp';
+import {
+  TWO_FACTOR_FIELDS,
+  isTwoFactorRequired,
+  resetRecoveryCodes,
+  verifySecondFactor,
+  verifyTwoFactorCode,
+} from '../helpers/twoFactor';
+import { IUser, User } from '../models/user.model';
+import { CustomError, wrapError } from '../utils/customError';
+
+const loadUser = async (req: Request): Promise<IUser> => {
+  if (!req.user) {
+    throw new CustomError('User not authenticated', 401);
+  }
+
+  const user = await User.findById(req.user._id).select(TWO_FACTOR_FIELDS);
+  if (!user) {
+    throw new CustomError('User not found', 404);
+  }
+  return user;
+};
+
+// Step one of enrollment: hand out a new secret. It only takes effect once a
+// code generated from it is confirmed through enableTwoFactor.
+export const setupTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const user = await loadUser(req);
+    if (user.twoFactorEnabled) {
+      throw new CustomError(
+        'Two-factor authentication is already enabled',
+        400,
+      );
+    }
+
+    const secret = generateTotpSecret();
+    user.twoFactorPendingSecret = secret;
+    await user.save();
+
+    res.json({
+      success: true,
+      data: {
+        secret,
+        otpauthUri: buildOtpauthUri(
+          secret,
+          user.email,
+          config.twoFactor.issuer,
+        ),
+      },
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error setting up two-factor authentication');
+  }
+};
+
+export const enableTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const { code } = req.body;
+    const user = await loadUser(req);
+
+    if (user.twoFactorEnabled) {
+      throw new CustomError(
+        'Two-factor authentication is already enabled',
+        400,
+      );
+    }
+    if (!user.twoFactorPendingSecret) {
+      throw new CustomError('Two-factor setup has not been started', 400);
+    }
+
+    const step = verifyTotp(user.twoFactorPendingSecret, code);
+    if (step === null) {
+      throw new CustomError('Invalid verification code', 400);
+    }
+
+    user.twoFactorSecret = user.twoFactorPendingSecret;
+    user.twoFactorPendingSecret = undefined;
+    user.twoFactorLastUsedStep = step;
+    user.twoFactorEnabled = true;
+    user.twoFactorEnabledAt = new Date();
+    const recoveryCodes = resetRecoveryCodes(user);
+    await user.save();
+
+    res.json({
+      success: true,
+      data: { recoveryCodes },
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error enabling two-factor authentication');
+  }
+};
+
+export const disableTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const { password, code, recoveryCode } = req.body;
+    const user = await loadUser(req);
+
+    if (!user.twoFactorEnabled) {
+      throw new CustomError('Two-factor authentication is not enabled', 400);
+    }
+    if (isTwoFactorRequired(user)) {
+      throw new CustomError(
+        'Two-factor authentication is required for your account',
+        403,
+      );
+    }
+
+    // Accounts that only sign in through a provider or a sign-in link have
+    // no password; the code alone confirms it is them
+    const isMatch =
+      !user.password || (await user.comparePassword(password || ''));
+    if (!isMatch || !(await verifySecondFactor(user, { code, recoveryCode }))) {
+      throw new CustomError('Invalid password or verification code', 400);
+    }
+
+    user.twoFactorEnabled = false;
+    user.twoFactorEnabledAt = undefined;
+    user.twoFactorSecret = undefined;
+    user.twoFactorLastUsedStep = undefined;
+    user.twoFactorRecoveryCodes = [];
+    await user.save();
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication disabled',
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error disabling two-factor authentication');
+  }
+};
+
+export const regenerateRecoveryCodes = async (req: Request, res: Response) => {
+  try {
+    const { code } = req.body;
+    const user = await loadUser(req);
+
+    if (!user.twoFactorEnabled) {
+      throw new CustomError('Two-factor authentication is not enabled', 400);
+    }
+    if (!(await verifyTwoFactorCode(user, code))) {
+      throw new CustomError('Invalid verification code', 400);
+    }
+
+    const recoveryCodes = resetRecoveryCodes(user);
+    await user.save();
+
+    res.json({
+      success: true,
+      data: { recoveryCodes },
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error generating recovery codes');
+  }
+};
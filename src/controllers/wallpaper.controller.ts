@@ -1,13 +1,45 @@
 import { Request, Response } from 'express';
-import { Types } from 'mongoose';
+import { hasPermission } from '../config/permissions';
 import {
   deleteFromCloudinary,
-  generateOptimizedUrl,
+  generateImageUrl,
+  generateSignedDownloadUrl,
   uploadToCloudinary,
 } from '../helpers/cloudinary';
+import {
+  canAccessWallpaper,
+  deliveryTypeFor,
+  getCallerTier,
+  requiredTier,
+} from '../helpers/entitlement';
+import {
+  wallpaperDownloadsTotal,
+  wallpaperUploadsTotal,
+} from '../helpers/metrics';
+import { getSubscriptionTier } from '../helpers/subscriptionTier';
+import {
+  generateThumbnailUrl,
+  syncDeliveryType,
+} from '../helpers/wallpaperDelivery';
+import {
+  presentWallpaper,
+  presentWallpapers,
+} from '../helpers/wallpaperPresenter';
+import { EngagementEvent } from '../models/engagementEvent.model';
+import { Like } from '../models/like.model';
+import { TrendingTimeframe } from '../models/trendingRanking.model';
 import { User } from '../models/user.model';
-import { Wallpaper } from '../models/wallpaper.model';
-import { CustomError } from '../utils/customError';
+import { IWallpaper, Wallpaper } from '../models/wallpaper.model';
+import { WallpaperStatBucket } from '../models/wallpaperStatBucket.model';
+import { StatsQuery, engagementService } from '../services/engagement.service';
+import { similarityService } from '../services/similarity.service';
+import { trendingService } from '../services/trending.service';
+import {
+  CustomError,
+  ForbiddenError,
+  UnauthorizedError,
+  wrapError,
+} from '../utils/customError';
 import logger from '../utils/logger';
 
 interface WallpaperQuery {
@@ -55,6 +87,8 @@ export const uploadWallpaper = async (req: Request, res: Response) => {
       throw new CustomError('User not authenticated', 401);
     }
 
+    const deliveryType = deliveryTypeFor({ isPremium, subscriptionTier });
+
     // Upload original image to Cloudinary with optimizations
     const uploadResult = await uploadToCloudinary(req.file, {
       folder: 'wallpapers',
@@ -63,30 +97,26 @@ export const uploadWallpaper = async (req: Request, res: Response) => {
         { quality: 'auto:best' }, // Best quality while maintaining reasonable file size
         { fetch_format: 'auto' }, // Automatically choose the best format
       ],
-    });
-
-    // Generate thumbnail URL with smaller dimensions
-    const thumbnailUrl = generateOptimizedUrl(uploadResult.public_id, {
-      width: 400,
-      height: 225,
-      quality: 'auto:good',
-      crop: 'fill',
+      type: deliveryType,
     });
 
     const wallpaper = new Wallpaper({
       title,
       description,
-      imageUrl: uploadResult.secure_url,
+      imageUrl: generateImageUrl(uploadResult, deliveryType),
       cloudinaryId: uploadResult.public_id,
-      thumbnailUrl,
+      thumbnailUrl: generateThumbnailUrl(uploadResult.public_id, deliveryType),
+      deliveryType,
       category,
-      tags: tags ? JSON.parse(tags) : [],
+      tags,
+      dominantColor: uploadResult.colors?.[0]?.[0],
       uploadedBy,
       isPremium,
       subscriptionTier,
     });
 
     await wallpaper.save();
+    wallpaperUploadsTotal.inc();
 
     // Log successful upload
     logger.info(
@@ -101,8 +131,7 @@ export const uploadWallpaper = async (req: Request, res: Response) => {
     // Log error
     logger.error('Error uploading wallpaper:', error);
 
-    if (error instanceof CustomError) throw error;
-    throw new CustomError('Error uploading wallpaper', 500);
+    throw wrapError(error, 'Error uploading wallpaper');
   }
 };
 
@@ -149,15 +178,14 @@ export const listWallpapers = async (
     res.json({
       success: true,
       data: {
-        wallpapers,
+        wallpapers: await presentWallpapers(wallpapers, req.user),
         total,
         page,
         totalPages: Math.ceil(total / limit),
       },
     });
   } catch (error) {
-    console.error('Error fetching wallpapers:', error);
-    throw new CustomError('Error fetching wallpapers', 500);
+    throw wrapError(error, 'Error fetching wallpapers');
   }
 };
 
@@ -173,30 +201,29 @@ export const saveWallpaper = async (
       throw new CustomError('User not authenticated', 401);
     }
 
-    const user = await User.findById(userId);
-    if (!user) {
-      throw new CustomError('User not found', 404);
-    }
-
-    const wallpaper = await Wallpaper.findById(id);
-    if (!wallpaper) {
+    if (!(await Wallpaper.exists({ _id: id }))) {
       throw new CustomError('Wallpaper not found', 404);
     }
 
-    if (user.savedWallpapers.includes(new Types.ObjectId(id))) {
+    // Conditional updates, so concurrent requests can't save twice or
+    // miscount
+    const { modifiedCount } = await User.updateOne(
+      { _id: userId, savedWallpapers: { $ne: id } },
+      { $push: { savedWallpapers: id } },
+    );
+    if (!modifiedCount) {
       throw new CustomError('Wallpaper already saved', 400);
     }
 
-    user.savedWallpapers.push(new Types.ObjectId(id));
-    await user.save();
+    await Wallpaper.updateOne({ _id: id }, { $inc: { saves: 1 } });
+    await engagementService.recordEvent(id, 'save', userId);
 
     res.json({
       success: true,
       message: 'Wallpaper saved successfully',
     });
   } catch (error) {
-    if (error instanceof CustomError) throw error;
-    throw new CustomError('Error saving wallpaper', 500);
+    throw wrapError(error, 'Error saving wallpaper');
   }
 };
 
@@ -212,32 +239,210 @@ export const unsaveWallpaper = async (
       throw new CustomError('User not authenticated', 401);
     }
 
-    const user = await User.findById(userId);
-    if (!user) {
-      throw new CustomError('User not found', 404);
+    if (!(await Wallpaper.exists({ _id: id }))) {
+      throw new CustomError('Wallpaper not found', 404);
     }
 
-    const wallpaper = await Wallpaper.findById(id);
+    const { modifiedCount } = await User.updateOne(
+      { _id: userId, savedWallpapers: id },
+      { $pull: { savedWallpapers: id } },
+    );
+    if (!modifiedCount) {
+      throw new CustomError('Wallpaper not saved', 400);
+    }
+
+    await Wallpaper.updateOne(
+      { _id: id, saves: { $gt: 0 } },
+      { $inc: { saves: -1 } },
+    );
+
+    res.json({
+      success: true,
+      message: 'Wallpaper unsaved successfully',
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error unsaving wallpaper');
+  }
+};
+
+// Idempotent: liking a liked wallpaper changes nothing
+export const likeWallpaper = async (
+  req: Request<{ id: string }>,
+  res: Response,
+) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?._id;
+
+    if (!userId) {
+      throw new CustomError('User not authenticated', 401);
+    }
+
+    if (!(await Wallpaper.exists({ _id: id }))) {
+      throw new CustomError('Wallpaper not found', 404);
+    }
+
+    let created = false;
+    try {
+      const { upsertedCount } = await Like.updateOne(
+        { userId, wallpaperId: id },
+        { $setOnInsert: { userId, wallpaperId: id } },
+        { upsert: true },
+      );
+      created = upsertedCount > 0;
+    } catch (error) {
+      // A concurrent request liked it first
+      if ((error as { code?: number }).code !== 11000) {
+        throw error;
+      }
+    }
+
+    const wallpaper = created
+      ? await Wallpaper.findByIdAndUpdate(
+          id,
+          { $inc: { likes: 1 } },
+          { new: true },
+        ).select('likes')
+      : await Wallpaper.findById(id).select('likes');
+    if (created) {
+      await engagementService.recordEvent(id, 'like', userId);
+    }
+
+    res.json({
+      success: true,
+      data: { isLikedByMe: true, likes: wallpaper?.likes ?? 0 },
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error liking wallpaper');
+  }
+};
+
+// Idempotent: unliking a wallpaper that isn't liked changes nothing
+export const unlikeWallpaper = async (
+  req: Request<{ id: string }>,
+  res: Response,
+) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?._id;
+
+    if (!userId) {
+      throw new CustomError('User not authenticated', 401);
+    }
+
+    if (!(await Wallpaper.exists({ _id: id }))) {
+      throw new CustomError('Wallpaper not found', 404);
+    }
+
+    const { deletedCount } = await Like.deleteOne({ userId, wallpaperId: id });
+
+    const wallpaper = deletedCount
+      ? await Wallpaper.findOneAndUpdate(
+          { _id: id, likes: { $gt: 0 } },
+          { $inc: { likes: -1 } },
+          { new: true },
+        ).select('likes')
+      : await Wallpaper.findById(id).select('likes');
+
+    res.json({
+      success: true,
+      data: { isLikedByMe: false, likes: wallpaper?.likes ?? 0 },
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error unliking wallpaper');
+  }
+};
+
+// Who a view or download is attributed to, so repeats can be ignored: the
+// user when signed in, else the app install (X-Device-Id), else the IP
+const validDeviceId = /^[\w.:-]{1,128}$/;
+
+const viewerOf = (req: Request<{ id: string }>) => {
+  if (req.user) {
+    return `user:${req.user.id}`;
+  }
+  const deviceId = req.header('X-Device-Id');
+  if (deviceId && validDeviceId.test(deviceId)) {
+    return `device:${deviceId}`;
+  }
+  return `ip:${req.ip}`;
+};
+
+export const recordView = async (
+  req: Request<{ id: string }>,
+  res: Response,
+) => {
+  try {
+    const wallpaper = await Wallpaper.findById(req.params.id).select('_id');
     if (!wallpaper) {
       throw new CustomError('Wallpaper not found', 404);
     }
 
-    if (!user.savedWallpapers.includes(new Types.ObjectId(id))) {
-      throw new CustomError('Wallpaper not saved', 400);
+    const { counted, count } = await engagementService.trackInteraction(
+      wallpaper._id,
+      'view',
+      viewerOf(req),
+      req.user?._id,
+    );
+
+    res.json({
+      success: true,
+      data: { counted, views: count },
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error recording view');
+  }
+};
+
+// Full resolution downloads go through here: callers with access get a
+// short-lived signed URL, everyone else only ever sees the preview
+export const downloadWallpaper = async (
+  req: Request<{ id: string }>,
+  res: Response,
+) => {
+  try {
+    const wallpaper = await Wallpaper.findById(req.params.id);
+    if (!wallpaper) {
+      throw new CustomError('Wallpaper not found', 404);
+    }
+
+    const tier = await getCallerTier([wallpaper], req.user);
+    if (!canAccessWallpaper(wallpaper, req.user, tier)) {
+      if (!req.user) {
+        throw new UnauthorizedError(
+          'Sign in with a subscription to download this wallpaper',
+        );
+      }
+      throw new ForbiddenError(
+        `A ${requiredTier(wallpaper)} subscription is required to download this wallpaper`,
+        'SUBSCRIPTION_REQUIRED',
+      );
     }
 
-    user.savedWallpapers = user.savedWallpapers.filter(
-      (savedId) => savedId.toString() !== id,
+    const { url, expiresAt } = generateSignedDownloadUrl(
+      wallpaper.cloudinaryId,
+      wallpaper.imageUrl,
+      wallpaper.deliveryType,
     );
-    await user.save();
+    const { counted, count } = await engagementService.trackInteraction(
+      wallpaper._id,
+      'download',
+      viewerOf(req),
+      req.user?._id,
+    );
+    wallpaperDownloadsTotal.inc();
 
     res.json({
       success: true,
-      message: 'Wallpaper unsaved successfully',
+      data: {
+        downloadUrl: url,
+        expiresAt,
+        counted,
+        downloads: count,
+      },
     });
   } catch (error) {
-    if (error instanceof CustomError) throw error;
-    throw new CustomError('Error unsaving wallpaper', 500);
+    throw wrapError(error, 'Error downloading wallpaper');
   }
 };
 
@@ -258,24 +463,34 @@ export const deleteWallpaper = async (
       throw new CustomError('Wallpaper not found', 404);
     }
 
-    if (wallpaper.uploadedBy.toString() !== userId.toString()) {
+    if (
+      wallpaper.uploadedBy?.toString() !== userId.toString() &&
+      !hasPermission(req.user?.role, 'wallpaper:delete:any')
+    ) {
       throw new CustomError('Not authorized to delete this wallpaper', 403);
     }
 
     // Delete from Cloudinary
     if (wallpaper.cloudinaryId) {
-      await deleteFromCloudinary(wallpaper.cloudinaryId);
+      await deleteFromCloudinary(
+        wallpaper.cloudinaryId,
+        wallpaper.deliveryType,
+      );
     }
 
     await wallpaper.deleteOne();
+    await Promise.all([
+      Like.deleteMany({ wallpaperId: wallpaper._id }),
+      EngagementEvent.deleteMany({ wallpaperId: wallpaper._id }),
+      WallpaperStatBucket.deleteMany({ wallpaperId: wallpaper._id }),
+    ]);
 
     res.json({
       success: true,
       message: 'Wallpaper deleted successfully',
     });
   } catch (error) {
-    if (error instanceof CustomError) throw error;
-    throw new CustomError('Error deleting wallpaper', 500);
+    throw wrapError(error, 'Error deleting wallpaper');
   }
 };
 
@@ -294,11 +509,13 @@ export const getSavedWallpapers = async (req: Request, res: Response) => {
 
     res.json({
       success: true,
-      data: user.savedWallpapers,
+      data: await presentWallpapers(
+        user.savedWallpapers as unknown as IWallpaper[],
+        req.user,
+      ),
     });
   } catch (error) {
-    if (error instanceof CustomError) throw error;
-    throw new CustomError('Error fetching saved wallpapers', 500);
+    throw wrapError(error, 'Error fetching saved wallpapers');
   }
 };
 
@@ -329,15 +546,14 @@ export const searchWallpapers = async (
     res.json({
       success: true,
       data: {
-        wallpapers,
+        wallpapers: await presentWallpapers(wallpapers, req.user),
         total,
         page,
         totalPages: Math.ceil(total / limit),
       },
     });
   } catch (error) {
-    if (error instanceof CustomError) throw error;
-    throw new CustomError('Error searching wallpapers', 500);
+    throw wrapError(error, 'Error searching wallpapers');
   }
 };
 
@@ -358,11 +574,10 @@ export const getWallpaperById = async (
 
     res.json({
       success: true,
-      data: wallpaper,
+      data: await presentWallpaper(wallpaper, req.user),
     });
   } catch (error) {
-    if (error instanceof CustomError) throw error;
-    throw new CustomError('Error fetching wallpaper', 500);
+    throw wrapError(error, 'Error fetching wallpaper');
   }
 };
 
@@ -378,35 +593,74 @@ export const getWallpaperStats = async (
       throw new CustomError('Wallpaper not found', 404);
     }
 
-    // Get daily stats for the last 30 days
-    const dailyStats = await Wallpaper.aggregate([
-      {
-        $match: {
-          _id: new Types.ObjectId(id),
-        },
-      },
-      {
-        $project: {
-          downloads: 1,
-          views: 1,
-          likes: 1,
-          createdAt: 1,
-        },
-      },
-    ]);
+    // Converted by statsQuerySchema
+    const query = req.query as unknown as StatsQuery;
+    const stats = await engagementService.getStats([wallpaper._id], query);
 
     res.json({
       success: true,
       data: {
         downloads: wallpaper.downloads,
         views: wallpaper.views,
+        saves: wallpaper.saves,
         likes: wallpaper.likes,
-        dailyStats,
+        ...stats,
+      },
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error fetching wallpaper stats');
+  }
+};
+
+// Statistics across all wallpapers the signed in user uploaded
+export const getCreatorDashboard = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?._id;
+
+    if (!userId) {
+      throw new CustomError('User not authenticated', 401);
+    }
+
+    const wallpapers = await Wallpaper.find({ uploadedBy: userId }).select(
+      'title thumbnailUrl views downloads saves likes',
+    );
+    const wallpaperIds = wallpapers.map((wallpaper) => wallpaper._id);
+
+    // Converted by statsQuerySchema
+    const query = req.query as unknown as StatsQuery;
+    const [stats, top] = await Promise.all([
+      engagementService.getStats(wallpaperIds, query),
+      engagementService.getTopWallpapers(wallpaperIds, query, 5),
+    ]);
+
+    const byId = new Map(
+      wallpapers.map((wallpaper) => [wallpaper.id, wallpaper]),
+    );
+
+    res.json({
+      success: true,
+      data: {
+        wallpaperCount: wallpapers.length,
+        lifetime: wallpapers.reduce(
+          (lifetime, wallpaper) => ({
+            views: lifetime.views + wallpaper.views,
+            downloads: lifetime.downloads + wallpaper.downloads,
+            saves: lifetime.saves + wallpaper.saves,
+            likes: lifetime.likes + wallpaper.likes,
+          }),
+          { views: 0, downloads: 0, saves: 0, likes: 0 },
+        ),
+        ...stats,
+        topWallpapers: top.map(({ _id, ...counts }) => ({
+          id: _id,
+          title: byId.get(_id.toString())?.title,
+          thumbnailUrl: byId.get(_id.toString())?.thumbnailUrl,
+          ...counts,
+        })),
       },
     });
   } catch (error) {
-    if (error instanceof CustomError) throw error;
-    throw new CustomError('Error fetching wallpaper stats', 500);
+    throw wrapError(error, 'Error fetching creator dashboard');
   }
 };
 
@@ -418,8 +672,7 @@ export const getWallpaperCategories = async (_req: Request, res: Response) => {
       data: categories,
     });
   } catch (error) {
-    if (error instanceof CustomError) throw error;
-    throw new CustomError('Error fetching categories', 500);
+    throw wrapError(error, 'Error fetching categories');
   }
 };
 
@@ -436,11 +689,74 @@ export const getPopularWallpapers = async (
 
     res.json({
       success: true,
-      data: wallpapers,
+      data: await presentWallpapers(wallpapers, req.user),
     });
   } catch (error) {
-    if (error instanceof CustomError) throw error;
-    throw new CustomError('Error fetching popular wallpapers', 500);
+    throw wrapError(error, 'Error fetching popular wallpapers');
+  }
+};
+
+// Served from the rankings precomputed by the rollup-trending job
+export const getTrendingWallpapers = async (
+  req: Request<
+    unknown,
+    unknown,
+    unknown,
+    { timeframe?: TrendingTimeframe; limit?: number }
+  >,
+  res: Response,
+) => {
+  try {
+    const { timeframe = 'week', limit = 10 } = req.query;
+    const wallpapers = await trendingService.getTrending(timeframe, limit);
+
+    res.json({
+      success: true,
+      data: await presentWallpapers(wallpapers, req.user),
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error fetching trending wallpapers');
+  }
+};
+
+// Only suggests wallpapers the caller's subscription gives access to
+export const getSimilarWallpapers = async (
+  req: Request<
+    { id: string },
+    unknown,
+    unknown,
+    { limit?: number; similarityThreshold?: number }
+  >,
+  res: Response,
+) => {
+  try {
+    const { limit = 10, similarityThreshold = 0.7 } = req.query;
+
+    const wallpaper = await Wallpaper.findById(req.params.id);
+    if (!wallpaper) {
+      throw new CustomError('Wallpaper not found', 404);
+    }
+
+    const tier = req.user ? await getSubscriptionTier(req.user.id) : 'free';
+    const similar = await similarityService.findSimilar(wallpaper, {
+      threshold: similarityThreshold,
+      limit,
+      canAccess: (candidate) => canAccessWallpaper(candidate, req.user, tier),
+    });
+    const wallpapers = await presentWallpapers(
+      similar.map((result) => result.wallpaper),
+      req.user,
+    );
+
+    res.json({
+      success: true,
+      data: wallpapers.map((presented, i) => ({
+        ...presented,
+        similarity: similar[i].similarity,
+      })),
+    });
+  } catch (error) {
+    throw wrapError(error, 'Error fetching similar wallpapers');
   }
 };
 
@@ -457,11 +773,10 @@ export const getMostDownloadedWallpapers = async (
 
     res.json({
       success: true,
-      data: wallpapers,
+      data: await presentWallpapers(wallpapers, req.user),
     });
   } catch (error) {
-    if (error instanceof CustomError) throw error;
-    throw new CustomError('Error fetching most downloaded wallpapers', 500);
+    throw wrapError(error, 'Error fetching most downloaded wallpapers');
   }
 };
 
@@ -486,8 +801,7 @@ export const checkSubscriptionStatus = async (req: Request, res: Response) => {
       },
     });
   } catch (error) {
-    if (error instanceof CustomError) throw error;
-    throw new CustomError('Error checking subscription status', 500);
+    throw wrapError(error, 'Error checking subscription status');
   }
 };
 
@@ -511,7 +825,10 @@ export const updateWallpaper = async (
     }
 
     // Check if user is authorized to update the wallpaper
-    if (wallpaper.uploadedBy.toString() !== userId.toString()) {
+    if (
+      wallpaper.uploadedBy?.toString() !== userId.toString() &&
+      !hasPermission(req.user?.role, 'wallpaper:update:any')
+    ) {
       throw new CustomError('Not authorized to update this wallpaper', 403);
     }
 
@@ -523,6 +840,10 @@ export const updateWallpaper = async (
     if (isPremium !== undefined) wallpaper.isPremium = isPremium;
     if (subscriptionTier) wallpaper.subscriptionTier = subscriptionTier;
 
+    // A tier change can move the image between public and authenticated
+    // delivery, which changes its URLs
+    await syncDeliveryType(wallpaper);
+
     await wallpaper.save();
 
     // Log successful update
@@ -538,7 +859,6 @@ export const updateWallpaper = async (
     // Log error
     logger.error('Error updating wallpaper:', error);
 
-    if (error instanceof CustomError) throw error;
-    throw new CustomError('Error updating wallpaper', 500);
+    throw wrapError(error, 'Error updating wallpaper');
   }
 };
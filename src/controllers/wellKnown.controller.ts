@@ -0,0 +1,13 @@
+import { Request, Response } from 'express';
+import { KeyRing } from '../services/keyRing.service';
+import { wrapError } from '../utils/customError';
+
+export const getJwks = async (_req: Request, res: Response) => {
+  try {
+    // Verifiers cache the key set; keep it short so rotations propagate quickly
+    res.set('Cache-Control', 'public, max-age=300');
+    res.json(KeyRing.getInstance().getJwks());
+  } catch (error) {
+    throw wrapError(error, 'Error fetching signing keys');
+  }
+};
@@ -1,11 +1,14 @@
 import { UploadApiResponse } from 'cloudinary';
 import { Readable } from 'stream';
+import config from '../config';
 import cloudinary from '../config/cloudinary';
+import { DeliveryType } from '../models/wallpaper.model';
 import logger from '../utils/logger';
 
 interface UploadOptions {
   folder?: string;
   transformation?: Array<Record<string, string | number | boolean>>;
+  type?: DeliveryType;
 }
 
 interface TransformationOptions {
@@ -21,7 +24,11 @@ export const uploadToCloudinary = async (
   file: Express.Multer.File,
   options: UploadOptions = {},
 ): Promise<UploadApiResponse> => {
-  const { folder = 'wallpapers', transformation = [] } = options;
+  const {
+    folder = 'wallpapers',
+    transformation = [],
+    type = 'upload',
+  } = options;
 
   // Default transformations for optimization
   const defaultTransformations: TransformationOptions[] = [
@@ -37,8 +44,10 @@ export const uploadToCloudinary = async (
     const uploadStream = cloudinary.uploader.upload_stream(
       {
         folder,
+        type,
         resource_type: 'auto',
         transformation: finalTransformations,
+        colors: true, // Predominant colors, for finding similar wallpapers
         eager: [
           // Generate a thumbnail immediately
           {
@@ -67,9 +76,12 @@ export const uploadToCloudinary = async (
   });
 };
 
-export const deleteFromCloudinary = async (publicId: string): Promise<void> => {
+export const deleteFromCloudinary = async (
+  publicId: string,
+  type: DeliveryType = 'upload',
+): Promise<void> => {
   try {
-    const result = await cloudinary.uploader.destroy(publicId);
+    const result = await cloudinary.uploader.destroy(publicId, { type });
     logger.info('Cloudinary deletion successful:', publicId);
     return result;
   } catch (error) {
@@ -78,9 +90,43 @@ export const deleteFromCloudinary = async (publicId: string): Promise<void> => {
   }
 };
 
+// Moves an image between public and authenticated delivery, keeping its
+// public id
+export const changeDeliveryType = async (
+  publicId: string,
+  from: DeliveryType,
+  to: DeliveryType,
+): Promise<UploadApiResponse> => {
+  const result = await cloudinary.uploader.rename(publicId, publicId, {
+    type: from,
+    to_type: to,
+    invalidate: true,
+  });
+  logger.info(`Cloudinary delivery type changed to ${to}:`, publicId);
+  return result;
+};
+
+// Authenticated images are only served through signed URLs. The signature
+// covers the transformation, so a preview or thumbnail URL can't be edited
+// into one for the original.
+const deliveryOptions = (type: DeliveryType) => ({
+  type,
+  sign_url: type === 'authenticated',
+  secure: true,
+});
+
+// The full resolution image, as stored in imageUrl. Never signed: for an
+// authenticated image it only records where the original is, and the
+// original is downloaded through generateSignedDownloadUrl.
+export const generateImageUrl = (
+  { public_id, format, version }: UploadApiResponse,
+  type: DeliveryType = 'upload',
+): string => cloudinary.url(public_id, { format, version, type, secure: true });
+
 export const generateOptimizedUrl = (
   publicId: string,
   options: TransformationOptions = {},
+  type: DeliveryType = 'upload',
 ): string => {
   const {
     width,
@@ -102,6 +148,64 @@ export const generateOptimizedUrl = (
 
   return cloudinary.url(publicId, {
     transformation,
-    secure: true,
+    ...deliveryOptions(type),
+  });
+};
+
+// Screen sized copy of an authenticated image for callers with access, shown
+// in place of the original
+export const generateDisplayUrl = (
+  publicId: string,
+  type: DeliveryType = 'upload',
+): string =>
+  cloudinary.url(publicId, {
+    transformation: [
+      { width: config.downloads.displayWidth, crop: 'limit' },
+      { quality: 'auto:good', fetch_format: 'auto' },
+    ],
+    ...deliveryOptions(type),
+  });
+
+// Low resolution, watermarked copy for callers without access to the full
+// image
+export const generatePreviewUrl = (
+  publicId: string,
+  type: DeliveryType = 'upload',
+): string =>
+  cloudinary.url(publicId, {
+    transformation: [
+      { width: config.downloads.previewWidth, crop: 'limit' },
+      { quality: 'auto:low', fetch_format: 'auto' },
+      {
+        overlay: {
+          font_family: 'Arial',
+          font_size: Math.round(config.downloads.previewWidth / 8),
+          font_weight: 'bold',
+          text: 'PREVIEW',
+        },
+        color: '#FFFFFF',
+        opacity: 50,
+        gravity: 'center',
+      },
+    ],
+    ...deliveryOptions(type),
+  });
+
+// Full resolution download through Cloudinary's API, signed with the API
+// secret and refused after config.downloads.signedUrlTtl seconds
+export const generateSignedDownloadUrl = (
+  publicId: string,
+  imageUrl: string,
+  type: DeliveryType = 'upload',
+): { url: string; expiresAt: Date } => {
+  const expiresAt = new Date(Date.now() + config.downloads.signedUrlTtl * 1000);
+  // Delivery URLs end in the stored format, e.g. .../wallpapers/abc.jpg
+  const format = /\.(\w+)$/.exec(new URL(imageUrl).pathname)?.[1] ?? 'jpg';
+
+  const url = cloudinary.utils.private_download_url(publicId, format, {
+    type,
+    expires_at: Math.floor(expiresAt.getTime() / 1000),
+    attachment: true,
   });
+  return { url, expiresAt };
 };
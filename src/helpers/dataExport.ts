@@ -0,0 +1,81 @@
+import { AuditLog } from '../models/auditLog.model';
+import { DeviceToken } from '../models/deviceToken.model';
+import { EngagementEvent } from '../models/engagementEvent.model';
+import { Like } from '../models/like.model';
+import { NotificationPreferences } from '../models/notificationPreferences.model';
+import { Session } from '../models/session.model';
+import { Subscription } from '../models/subscription.model';
+import { IUser } from '../models/user.model';
+import { Wallpaper } from '../models/wallpaper.model';
+
+// Everything we hold about a user, for data access requests. Secrets
+// (password hashes, 2FA secrets, push and purchase tokens) are left out; they
+// are credentials rather than personal data and useless to the user.
+export const buildUserDataExport = async (user: IUser) => {
+  const userId = user._id;
+
+  const [
+    sessions,
+    deviceTokens,
+    notificationPreferences,
+    subscriptions,
+    uploads,
+    savedWallpapers,
+    likedWallpapers,
+    activity,
+    auditLog,
+  ] = await Promise.all([
+    Session.find({ userId }).sort({ createdAt: -1 }).lean(),
+    DeviceToken.find({ userId }).select('-token').lean(),
+    NotificationPreferences.findOne({ userId }).lean(),
+    Subscription.find({ userId })
+      .select('-purchaseToken')
+      .sort({ createdAt: -1 })
+      .lean(),
+    Wallpaper.find({ uploadedBy: userId }).sort({ createdAt: -1 }).lean(),
+    Wallpaper.find({ _id: { $in: user.savedWallpapers } })
+      .select('title thumbnailUrl category')
+      .lean(),
+    Like.find({ userId })
+      .select('wallpaperId createdAt')
+      .sort({ createdAt: -1 })
+      .lean(),
+    EngagementEvent.find({ userId })
+      .select('wallpaperId type createdAt')
+      .sort({ createdAt: -1 })
+      .lean(),
+    AuditLog.find({ targetType: 'user', targetId: userId.toString() })
+      .select('action metadata createdAt')
+      .sort({ createdAt: -1 })
+      .lean(),
+  ]);
+
+  return {
+    exportedAt: new Date(),
+    profile: {
+      id: userId,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      emailVerified: user.emailVerified,
+      emailVerifiedAt: user.emailVerifiedAt,
+      passwordChangedAt: user.passwordChangedAt,
+      twoFactorEnabled: user.twoFactorEnabled,
+      oauthProviders: user.oauthProviders,
+      suspendedAt: user.suspendedAt,
+      suspendedReason: user.suspendedReason,
+      deletionScheduledFor: user.deletionScheduledFor,
+      createdAt: user.get('createdAt'),
+      updatedAt: user.get('updatedAt'),
+    },
+    sessions,
+    deviceTokens,
+    notificationPreferences,
+    subscriptions,
+    uploads,
+    savedWallpapers,
+    likedWallpapers,
+    activity,
+    auditLog,
+  };
+};
@@ -2,12 +2,11 @@ import mongoose from 'mongoose';
 import logger from '../utils/logger';
 
 export const connectDB = async (url: string) => {
+  // The process keeps running without a database; the readiness probe
+  // reports it as unhealthy
   if (!url) {
-    console.log('Please provide a database URI string');
-    logger.error(
-      'CRITICAL: Database URI string is not provided. Exiting process.',
-    );
-    process.exit(1);
+    logger.error('CRITICAL: Database URI string is not provided.');
+    throw new Error('Database URI string is not provided');
   }
 
   const options = {
@@ -56,16 +55,11 @@ export const connectDB = async (url: string) => {
         process.exit(1);
       }
     });
-  } catch (error: any) {
+  } catch (error) {
     logger.error(
       'CRITICAL: Database Connection Failed during initial mongoose.connect attempt.',
-      {
-        message: error.message,
-        name: error.name,
-        stack: error.stack,
-        errorDetails: error,
-      },
+      { error },
     );
-    process.exit(1);
+    throw error;
   }
 };
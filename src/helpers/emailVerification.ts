@@ -0,0 +1,67 @@
+import { JsonWebTokenError } from 'jsonwebtoken';
+import config from '../config';
+import { IUser, User } from '../models/user.model';
+import { KeyRing } from '../services/keyRing.service';
+import { mailService } from '../services/mail.service';
+import { emailVerificationEmail } from '../templates/mail.templates';
+import { CustomError } from '../utils/customError';
+
+interface EmailVerificationPayload {
+  sub: string;
+  email: string;
+  type: 'email_verification';
+}
+
+// The token is bound to the address it was sent to, so it stops working
+// once the user changes their email
+export const createEmailVerificationToken = (user: IUser): string => {
+  return KeyRing.getInstance().sign(
+    { email: user.email, type: 'email_verification' },
+    {
+      subject: user._id.toString(),
+      expiresIn: config.emailVerification.tokenTtl,
+      issuer: config.jwt.issuer,
+    },
+  );
+};
+
+export const sendVerificationEmail = async (user: IUser): Promise<void> => {
+  const token = createEmailVerificationToken(user);
+  const link = `${config.clientUrl}/verify-email?token=${encodeURIComponent(token)}`;
+
+  await mailService.send({
+    to: user.email,
+    ...emailVerificationEmail(user.name, link),
+  });
+};
+
+export const verifyEmailToken = async (token: string): Promise<IUser> => {
+  let payload: EmailVerificationPayload;
+  try {
+    payload = KeyRing.getInstance().verify<EmailVerificationPayload>(token, {
+      issuer: config.jwt.issuer,
+    });
+  } catch (error) {
+    if (error instanceof JsonWebTokenError) {
+      throw new CustomError('Invalid or expired verification token', 400);
+    }
+    throw error;
+  }
+
+  if (payload.type !== 'email_verification') {
+    throw new CustomError('Invalid or expired verification token', 400);
+  }
+
+  const user = await User.findById(payload.sub);
+  if (!user || user.email !== payload.email) {
+    throw new CustomError('Invalid or expired verification token', 400);
+  }
+
+  if (!user.emailVerified) {
+    user.emailVerified = true;
+    user.emailVerifiedAt = new Date();
+    await user.save();
+  }
+
+  return user;
+};
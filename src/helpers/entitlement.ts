@@ -0,0 +1,54 @@
+import { hasPermission } from '../config/permissions';
+import { IUser } from '../models/user.model';
+import { DeliveryType, IWallpaper } from '../models/wallpaper.model';
+import { SubscriptionTier, getSubscriptionTier } from './subscriptionTier';
+
+const TIER_RANK: Record<SubscriptionTier, number> = {
+  free: 0,
+  basic: 1,
+  premium: 2,
+};
+
+// The subscription a wallpaper needs. Premium wallpapers without a tier of
+// their own need the premium subscription.
+export const requiredTier = (
+  wallpaper: Pick<IWallpaper, 'isPremium' | 'subscriptionTier'>,
+): SubscriptionTier =>
+  wallpaper.isPremium && wallpaper.subscriptionTier === 'free'
+    ? 'premium'
+    : wallpaper.subscriptionTier;
+
+// Wallpapers that need a subscription are stored as authenticated images, so
+// their originals can't be fetched from a public URL
+export const deliveryTypeFor = (
+  wallpaper: Pick<IWallpaper, 'isPremium' | 'subscriptionTier'>,
+): DeliveryType =>
+  requiredTier(wallpaper) === 'free' ? 'upload' : 'authenticated';
+
+// Whether the caller may see and download the full resolution image. The
+// uploader and moderators always may; everyone else needs a subscription of
+// at least the wallpaper's tier.
+export const canAccessWallpaper = (
+  wallpaper: IWallpaper,
+  user: IUser | undefined,
+  tier: SubscriptionTier,
+): boolean => {
+  if (TIER_RANK[tier] >= TIER_RANK[requiredTier(wallpaper)]) {
+    return true;
+  }
+  return (
+    !!user &&
+    (wallpaper.uploadedBy?.equals(user._id) === true ||
+      hasPermission(user.role, 'wallpaper:update:any'))
+  );
+};
+
+// The caller's tier, looked up only when one of the wallpapers needs more
+// than a free account
+export const getCallerTier = async (
+  wallpapers: IWallpaper[],
+  user?: IUser,
+): Promise<SubscriptionTier> =>
+  user && wallpapers.some((wallpaper) => requiredTier(wallpaper) !== 'free')
+    ? getSubscriptionTier(user.id)
+    : 'free';
@@ -0,0 +1,47 @@
+import mongoose from 'mongoose';
+import config from '../config';
+import cloudinary from '../config/cloudinary';
+import { GooglePlayService } from '../services/googlePlay.service';
+import { healthService } from '../services/health.service';
+import { notificationService } from '../services/notification.service';
+
+// The dependencies reported by the readiness probe and GET /v1/api/health.
+// Only the database is critical: without it no request can be served, while
+// the others only disable uploads, push notifications or purchases.
+export const registerHealthChecks = () => {
+  healthService.register(
+    'database',
+    async () => {
+      const { db, readyState } = mongoose.connection;
+      if (readyState !== mongoose.ConnectionStates.connected || !db) {
+        throw new Error('Not connected');
+      }
+      await db.admin().ping();
+    },
+    { critical: true },
+  );
+
+  healthService.register('storage', async () => {
+    if (!config.cloudinary.cloudName || !config.cloudinary.apiKey) {
+      return { status: 'degraded', message: 'Cloudinary is not configured' };
+    }
+    await cloudinary.api.ping();
+  });
+
+  healthService.register('notifications', async () => {
+    if (!notificationService.isEnabled()) {
+      return { status: 'degraded', message: 'Firebase is not initialized' };
+    }
+  });
+
+  healthService.register('purchases', async () => {
+    const googlePlay = GooglePlayService.getInstance();
+    if (!googlePlay.isConfigured()) {
+      return {
+        status: 'degraded',
+        message: 'Google Play credentials are not configured',
+      };
+    }
+    await googlePlay.checkCredentials();
+  });
+};
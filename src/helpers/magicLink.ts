@@ -0,0 +1,84 @@
+import config from '../config';
+import { PendingSignup } from '../models/pendingSignup.model';
+import { IUser, User } from '../models/user.model';
+import { mailService } from '../services/mail.service';
+import { magicLinkEmail } from '../templates/mail.templates';
+import { generateToken, hashToken } from '../utils/tokenUtils';
+
+const sendLink = async (email: string, name: string, token: string) => {
+  const link = `${config.clientUrl}/magic-link?token=${encodeURIComponent(token)}`;
+
+  await mailService.send({
+    to: email,
+    ...magicLinkEmail(name, link, Math.round(config.magicLink.tokenTtl / 60)),
+  });
+};
+
+const linkExpiry = () =>
+  new Date(Date.now() + config.magicLink.tokenTtl * 1000);
+
+export const sendMagicLinkEmail = async (user: IUser): Promise<void> => {
+  const token = generateToken();
+  user.magicLinkToken = hashToken(token);
+  user.magicLinkExpires = linkExpiry();
+  await user.save();
+
+  await sendLink(user.email, user.name, token);
+};
+
+// Sends a sign-in link for an address without an account. Nothing is
+// created until the link is opened.
+export const sendSignupLinkEmail = async (
+  email: string,
+  name: string,
+): Promise<void> => {
+  const token = generateToken();
+  await PendingSignup.findOneAndUpdate(
+    { email },
+    { $set: { name, tokenHash: hashToken(token), expiresAt: linkExpiry() } },
+    { upsert: true },
+  );
+
+  await sendLink(email, name, token);
+};
+
+// Finds the user and clears the token in one step, so a link can only be
+// used once even when it is opened twice at the same time. A sign-up link
+// creates the account here, unless one was registered for the address in
+// the meantime.
+export const consumeMagicLinkToken = async (
+  token: string,
+): Promise<IUser | null> => {
+  const user = await User.findOneAndUpdate(
+    {
+      magicLinkToken: hashToken(token),
+      magicLinkExpires: { $gt: new Date() },
+    },
+    { $unset: { magicLinkToken: 1, magicLinkExpires: 1 } },
+    { new: true },
+  );
+  if (user) {
+    return user;
+  }
+
+  const signup = await PendingSignup.findOneAndDelete({
+    tokenHash: hashToken(token),
+    expiresAt: { $gt: new Date() },
+  });
+  if (!signup) {
+    return null;
+  }
+
+  const existingUser = await User.findOne({ email: signup.email });
+  if (existingUser) {
+    return existingUser;
+  }
+
+  const newUser = new User({
+    email: signup.email,
+    name: signup.name,
+    role: 'user',
+  });
+  await newUser.save();
+  return newUser;
+};
@@ -0,0 +1,43 @@
+import { metricsService } from '../services/metrics.service';
+
+// Every metric the API exports. Label values must stay low-cardinality:
+// route templates rather than paths, client names rather than keys.
+export const httpRequestsTotal = metricsService.counter(
+  'http_requests_total',
+  'HTTP requests handled',
+  ['method', 'route', 'status', 'client'],
+);
+
+export const httpRequestDuration = metricsService.histogram(
+  'http_request_duration_seconds',
+  'HTTP request latency in seconds',
+  ['method', 'route', 'status'],
+);
+
+export const wallpaperUploadsTotal = metricsService.counter(
+  'wallpaper_uploads_total',
+  'Wallpapers uploaded',
+);
+
+export const wallpaperDownloadsTotal = metricsService.counter(
+  'wallpaper_downloads_total',
+  'Wallpapers downloaded',
+);
+
+export const subscriptionVerificationsTotal = metricsService.counter(
+  'subscription_verifications_total',
+  'Purchase verifications by result (valid, invalid or error)',
+  ['result'],
+);
+
+export const subscriptionWebhookEventsTotal = metricsService.counter(
+  'subscription_webhook_events_total',
+  'Google Play notifications received, by notification type',
+  ['type'],
+);
+
+export const notificationsTotal = metricsService.counter(
+  'notifications_total',
+  'Push notifications by target (device, multicast or topic) and result',
+  ['target', 'result'],
+);
@@ -0,0 +1,36 @@
+import config from '../config';
+import { IUser, User } from '../models/user.model';
+import { mailService } from '../services/mail.service';
+import { passwordResetEmail } from '../templates/mail.templates';
+import { generateToken, hashToken } from '../utils/tokenUtils';
+
+// Only the hash of the reset token is stored, so a leaked user record cannot
+// be used to take over the account
+export const sendPasswordResetEmail = async (user: IUser): Promise<void> => {
+  const token = generateToken();
+  user.resetPasswordToken = hashToken(token);
+  user.resetPasswordExpires = new Date(
+    Date.now() + config.passwordReset.tokenTtl * 1000,
+  );
+  await user.save();
+
+  const link = `${config.clientUrl}/reset-password?token=${encodeURIComponent(token)}`;
+
+  await mailService.send({
+    to: user.email,
+    ...passwordResetEmail(
+      user.name,
+      link,
+      Math.round(config.passwordReset.tokenTtl / 60),
+    ),
+  });
+};
+
+export const findUserByResetToken = async (
+  token: string,
+): Promise<IUser | null> => {
+  return User.findOne({
+    resetPasswordToken: hashToken(token),
+    resetPasswordExpires: { $gt: Date.now() },
+  }).select('+passwordHistory');
+};
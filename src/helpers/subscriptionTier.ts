@@ -0,0 +1,61 @@
+import config from '../config';
+import { Subscription } from '../models/subscription.model';
+
+export type SubscriptionTier = 'free' | 'basic' | 'premium';
+
+// Entries are kept in the order they expire in (every entry lives equally
+// long and is re-inserted when refreshed), so expired ones are dropped from
+// the front. The cap bounds memory when many users are looked up within one
+// TTL.
+const cache = new Map<string, { tier: SubscriptionTier; expiresAt: number }>();
+const MAX_CACHED_TIERS = 10000;
+
+const cacheTier = (userId: string, tier: SubscriptionTier) => {
+  const now = Date.now();
+  for (const [key, entry] of cache) {
+    if (entry.expiresAt > now) break;
+    cache.delete(key);
+  }
+
+  cache.delete(userId);
+  if (cache.size >= MAX_CACHED_TIERS) {
+    cache.delete(cache.keys().next().value as string);
+  }
+  cache.set(userId, {
+    tier,
+    expiresAt: now + config.rateLimits.tierCacheTtl * 1000,
+  });
+};
+
+// The best tier among the user's active subscriptions, or free. Reused for
+// config.rateLimits.tierCacheTtl seconds, so changes made on another
+// instance (or by a Google Play notification) apply within that time.
+export const getSubscriptionTier = async (
+  userId: string,
+): Promise<SubscriptionTier> => {
+  const cached = cache.get(userId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.tier;
+  }
+
+  const subscriptions = await Subscription.find({
+    userId,
+    status: 'active',
+    expiryDate: { $gt: new Date() },
+  }).select('tier');
+
+  const tiers = subscriptions.map((subscription) => subscription.tier);
+  const tier: SubscriptionTier = tiers.includes('premium')
+    ? 'premium'
+    : tiers.includes('basic')
+      ? 'basic'
+      : 'free';
+
+  cacheTier(userId, tier);
+  return tier;
+};
+
+// Called when this instance changes a user's subscription
+export const clearSubscriptionTier = (userId: string) => {
+  cache.delete(userId);
+};
@@ -0,0 +1,110 @@
+import crypto from 'crypto';
+
+// Time-based one-time passwords as specified in RFC 6238 (HMAC-SHA1, 6 digits,
+// 30 second steps), which is what common authenticator apps implement.
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+export const base32Decode = (input: string): Buffer => {
+  const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character "${char}"`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+export const generateTotpSecret = (): string =>
+  base32Encode(crypto.randomBytes(20));
+
+export const getTimeStep = (time = Date.now()): number =>
+  Math.floor(time / 1000 / STEP_SECONDS);
+
+// HOTP (RFC 4226) for the given counter
+export const generateHotp = (secret: string, counter: number): string => {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto
+    .createHmac('sha1', base32Decode(secret))
+    .update(buffer)
+    .digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS;
+
+  return code.toString().padStart(DIGITS, '0');
+};
+
+export const generateTotp = (secret: string, time = Date.now()): string =>
+  generateHotp(secret, getTimeStep(time));
+
+// Returns the time step the code belongs to, or null if it does not match.
+// One step of clock drift is accepted in either direction.
+export const verifyTotp = (
+  secret: string,
+  code: string,
+  time = Date.now(),
+  window = 1,
+): number | null => {
+  if (!/^\d{6}$/.test(code)) return null;
+
+  const current = getTimeStep(time);
+  for (let step = current - window; step <= current + window; step++) {
+    const expected = generateHotp(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+      return step;
+    }
+  }
+  return null;
+};
+
+export const buildOtpauthUri = (
+  secret: string,
+  account: string,
+  issuer: string,
+): string => {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  // Some authenticator apps show a "+" literally, so encode spaces as %20
+  return `otpauth://totp/${label}?${params.toString().replace(/\+/g, '%20')}`;
+};
@@ -0,0 +1,137 @@
+import crypto from 'crypto';
+import { JsonWebTokenError } from 'jsonwebtoken';
+import config from '../config';
+import { IUser, User } from '../models/user.model';
+import { KeyRing } from '../services/keyRing.service';
+import { CustomError } from '../utils/customError';
+import { hashToken } from '../utils/tokenUtils';
+import { verifyTotp } from './totp';
+
+interface TwoFactorChallengePayload {
+  sub: string;
+  type: 'two_factor_challenge';
+}
+
+const RECOVERY_CODE_COUNT = 10;
+
+// The 2FA fields are not selected by default
+export const TWO_FACTOR_FIELDS =
+  '+twoFactorSecret +twoFactorPendingSecret +twoFactorRecoveryCodes +twoFactorLastUsedStep';
+
+export const isTwoFactorRequired = (user: IUser): boolean =>
+  config.twoFactor.requiredRoles.includes(user.role);
+
+// Proves the password step of a login succeeded. It is exchanged for tokens
+// together with a valid code.
+export const createTwoFactorChallenge = (user: IUser): string => {
+  return KeyRing.getInstance().sign(
+    { type: 'two_factor_challenge' },
+    {
+      subject: user._id.toString(),
+      expiresIn: config.twoFactor.challengeTtl,
+      issuer: config.jwt.issuer,
+    },
+  );
+};
+
+export const verifyTwoFactorChallenge = async (
+  token: string,
+): Promise<IUser> => {
+  let payload: TwoFactorChallengePayload;
+  try {
+    payload = KeyRing.getInstance().verify<TwoFactorChallengePayload>(token, {
+      issuer: config.jwt.issuer,
+    });
+  } catch (error) {
+    if (error instanceof JsonWebTokenError) {
+      throw new CustomError('Invalid or expired two-factor challenge', 401);
+    }
+    throw error;
+  }
+
+  if (payload.type !== 'two_factor_challenge') {
+    throw new CustomError('Invalid or expired two-factor challenge', 401);
+  }
+
+  const user = await User.findById(payload.sub).select(TWO_FACTOR_FIELDS);
+  if (!user || !user.twoFactorEnabled) {
+    throw new CustomError('Invalid or expired two-factor challenge', 401);
+  }
+
+  return user;
+};
+
+const normalizeRecoveryCode = (code: string): string =>
+  code.trim().toLowerCase().replace(/[\s-]/g, '');
+
+// Replaces the user's recovery codes and returns the new ones. They are only
+// shown this once; the user keeps the hashes.
+export const resetRecoveryCodes = (user: IUser): string[] => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  user.twoFactorRecoveryCodes = codes.map((code) =>
+    hashToken(normalizeRecoveryCode(code)),
+  );
+  return codes;
+};
+
+// Checks a code from the authenticator app. Each code is accepted only once:
+// its time step is claimed in the database in one step, so the same code
+// sent twice at the same time is only accepted once.
+export const verifyTwoFactorCode = async (
+  user: IUser,
+  code: string,
+): Promise<boolean> => {
+  if (!user.twoFactorSecret) return false;
+
+  const step = verifyTotp(user.twoFactorSecret, code);
+  if (step === null) return false;
+
+  const { modifiedCount } = await User.updateOne(
+    {
+      _id: user._id,
+      $or: [
+        { twoFactorLastUsedStep: { $lt: step } },
+        { twoFactorLastUsedStep: { $exists: false } },
+      ],
+    },
+    { $set: { twoFactorLastUsedStep: step } },
+  );
+  if (modifiedCount === 0) return false;
+
+  user.twoFactorLastUsedStep = step;
+  return true;
+};
+
+// Checks and consumes a recovery code, removing it in the database in one
+// step so it can't be used twice at the same time
+export const useRecoveryCode = async (
+  user: IUser,
+  code: string,
+): Promise<boolean> => {
+  const hash = hashToken(normalizeRecoveryCode(code));
+  if (!user.twoFactorRecoveryCodes.includes(hash)) return false;
+
+  const { modifiedCount } = await User.updateOne(
+    { _id: user._id, twoFactorRecoveryCodes: hash },
+    { $pull: { twoFactorRecoveryCodes: hash } },
+  );
+  if (modifiedCount === 0) return false;
+
+  user.twoFactorRecoveryCodes = user.twoFactorRecoveryCodes.filter(
+    (stored) => stored !== hash,
+  );
+  return true;
+};
+
+export const verifySecondFactor = async (
+  user: IUser,
+  factor: { code?: string; recoveryCode?: string },
+): Promise<boolean> => {
+  if (factor.code) return verifyTwoFactorCode(user, factor.code);
+  if (factor.recoveryCode) return useRecoveryCode(user, factor.recoveryCode);
+  return false;
+};
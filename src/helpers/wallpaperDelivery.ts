@@ -0,0 +1,74 @@
+import config from '../config';
+import { DeliveryType, IWallpaper, Wallpaper } from '../models/wallpaper.model';
+import logger from '../utils/logger';
+import {
+  changeDeliveryType,
+  generateImageUrl,
+  generateOptimizedUrl,
+} from './cloudinary';
+import { deliveryTypeFor } from './entitlement';
+
+// Thumbnail URL with smaller dimensions
+export const generateThumbnailUrl = (publicId: string, type: DeliveryType) =>
+  generateOptimizedUrl(
+    publicId,
+    {
+      width: 400,
+      height: 225,
+      quality: 'auto:good',
+      crop: 'fill',
+    },
+    type,
+  );
+
+// Moves the image between public and authenticated delivery when the
+// wallpaper's tier asks for the other one, and updates its URLs. Returns
+// whether it moved; the caller saves the wallpaper.
+export const syncDeliveryType = async (
+  wallpaper: IWallpaper,
+): Promise<boolean> => {
+  const deliveryType = deliveryTypeFor(wallpaper);
+  if (deliveryType === wallpaper.deliveryType) {
+    return false;
+  }
+
+  const result = await changeDeliveryType(
+    wallpaper.cloudinaryId,
+    wallpaper.deliveryType,
+    deliveryType,
+  );
+  wallpaper.imageUrl = generateImageUrl(result, deliveryType);
+  wallpaper.thumbnailUrl = generateThumbnailUrl(
+    wallpaper.cloudinaryId,
+    deliveryType,
+  );
+  wallpaper.deliveryType = deliveryType;
+  return true;
+};
+
+// Moves wallpapers that need a subscription but are still publicly delivered,
+// such as those uploaded before paid images were protected. Failures are
+// logged and retried on the next run.
+export const protectPaidWallpapers = async (
+  limit = config.downloads.protectBatchSize,
+): Promise<{ moved: number; failed: number }> => {
+  const wallpapers = await Wallpaper.find({
+    deliveryType: { $ne: 'authenticated' },
+    $or: [{ isPremium: true }, { subscriptionTier: { $ne: 'free' } }],
+  }).limit(limit);
+
+  let moved = 0;
+  let failed = 0;
+  for (const wallpaper of wallpapers) {
+    try {
+      await syncDeliveryType(wallpaper);
+      await wallpaper.save();
+      moved++;
+    } catch (error) {
+      failed++;
+      logger.error(`Error protecting wallpaper ${wallpaper._id}:`, error);
+    }
+  }
+
+  return { moved, failed };
+};
@@ -0,0 +1,68 @@
+import { Like } from '../models/like.model';
+import { IUser } from '../models/user.model';
+import { IWallpaper } from '../models/wallpaper.model';
+import { generateDisplayUrl, generatePreviewUrl } from './cloudinary';
+import { canAccessWallpaper, getCallerTier } from './entitlement';
+
+// Wallpapers as returned by the API. Callers without access to a wallpaper
+// get a watermarked preview as its imageUrl instead of the original. The
+// preview URL still contains the public id; what keeps the original out of
+// reach is that wallpapers needing a subscription are stored as
+// authenticated images, which Cloudinary only serves through signed URLs.
+// Those signed URLs never expire, so callers with access get a screen sized
+// copy rather than the original, which they download through
+// generateSignedDownloadUrl. Signed in callers also learn whether they liked
+// (isLikedByMe) and saved (isSavedByMe) each one, looked up with one query
+// for the whole list.
+export const presentWallpapers = async (
+  wallpapers: IWallpaper[],
+  user?: IUser,
+) => {
+  const tier = await getCallerTier(wallpapers, user);
+  const present = (wallpaper: IWallpaper) => {
+    const hasAccess = canAccessWallpaper(wallpaper, user, tier);
+    if (!hasAccess) {
+      return {
+        ...wallpaper.toJSON(),
+        imageUrl: generatePreviewUrl(
+          wallpaper.cloudinaryId,
+          wallpaper.deliveryType,
+        ),
+        cloudinaryId: undefined,
+        hasAccess,
+      };
+    }
+    return wallpaper.deliveryType === 'authenticated'
+      ? {
+          ...wallpaper.toJSON(),
+          imageUrl: generateDisplayUrl(
+            wallpaper.cloudinaryId,
+            wallpaper.deliveryType,
+          ),
+          hasAccess,
+        }
+      : { ...wallpaper.toJSON(), hasAccess };
+  };
+
+  if (!user) {
+    return wallpapers.map(present);
+  }
+
+  const likes = await Like.find({
+    userId: user._id,
+    wallpaperId: { $in: wallpapers.map((wallpaper) => wallpaper._id) },
+  })
+    .select('wallpaperId')
+    .lean();
+  const liked = new Set(likes.map((like) => like.wallpaperId.toString()));
+  const saved = new Set(user.savedWallpapers.map((id) => id.toString()));
+
+  return wallpapers.map((wallpaper) => ({
+    ...present(wallpaper),
+    isLikedByMe: liked.has(wallpaper.id),
+    isSavedByMe: saved.has(wallpaper.id),
+  }));
+};
+
+export const presentWallpaper = async (wallpaper: IWallpaper, user?: IUser) =>
+  (await presentWallpapers([wallpaper], user))[0];
@@ -0,0 +1,13 @@
+import { protectPaidWallpapers } from './protectPaidWallpapers';
+import { purgeDeletedAccounts } from './purgeDeletedAccounts';
+import { rollupTrending } from './rollupTrending';
+
+export type Job = () => Promise<Record<string, unknown>>;
+
+// Jobs run on a schedule through GET /v1/api/jobs/:name. The schedules live
+// in vercel.json.
+export const jobs = new Map<string, Job>([
+  ['protect-paid-wallpapers', protectPaidWallpapers],
+  ['purge-deleted-accounts', purgeDeletedAccounts],
+  ['rollup-trending', rollupTrending],
+]);
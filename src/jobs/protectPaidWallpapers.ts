@@ -0,0 +1,5 @@
+import { protectPaidWallpapers as protect } from '../helpers/wallpaperDelivery';
+
+// Moves paid wallpapers that are still publicly delivered to authenticated
+// delivery
+export const protectPaidWallpapers = () => protect();
@@ -0,0 +1,5 @@
+import { accountDeletionService } from '../services/accountDeletion.service';
+
+// Purges accounts whose deletion grace period has run out
+export const purgeDeletedAccounts = () =>
+  accountDeletionService.purgeDueAccounts();
@@ -0,0 +1,4 @@
+import { trendingService } from '../services/trending.service';
+
+// Recomputes the trending rankings served by GET /v1/api/wallpapers/trending
+export const rollupTrending = () => trendingService.computeRankings();
@@ -1,21 +1,72 @@
 import { NextFunction, Request, Response } from 'express';
-import config from '../config';
-import { CustomError } from '../utils/customError';
+import { ApiScope } from '../config/apiScopes';
+import {
+  AuthenticatedApiClient,
+  apiClientService,
+} from '../services/apiClient.service';
+import { rateLimitService } from '../services/rateLimit.service';
+import {
+  ForbiddenError,
+  TooManyRequestsError,
+  UnauthorizedError,
+} from '../utils/customError';
+import { setRequestContext } from '../utils/requestContext';
 
-export const validateApiKey = (
+declare module 'express' {
+  interface Request {
+    apiClient?: AuthenticatedApiClient;
+  }
+}
+
+// Identifies the calling app from its x-api-key header and enforces the
+// client's request quota
+export const validateApiKey = async (
   req: Request,
   res: Response,
   next: NextFunction,
 ) => {
-  const apiKey = req.headers['x-api-key'];
+  try {
+    const apiKey = req.headers['x-api-key'];
 
-  if (!apiKey) {
-    throw new CustomError('API key is required', 401);
-  }
+    if (!apiKey || typeof apiKey !== 'string') {
+      throw new UnauthorizedError('API key is required', 'INVALID_API_KEY');
+    }
+
+    const client = await apiClientService.authenticate(apiKey);
+
+    if (!client) {
+      throw new UnauthorizedError('Invalid API key', 'INVALID_API_KEY');
+    }
 
-  if (apiKey !== config.apiKey) {
-    throw new CustomError('Invalid API key', 401);
+    req.apiClient = client;
+    setRequestContext({ apiClientId: client.id });
+
+    const quota = await rateLimitService.consume(
+      `api-client:${client.id}`,
+      client.rateLimit.limit,
+      client.rateLimit.windowSeconds,
+    );
+
+    if (!quota.allowed) {
+      throw new TooManyRequestsError(
+        'API key request quota exceeded',
+        (quota.resetAt.getTime() - Date.now()) / 1000,
+      );
+    }
+
+    next();
+  } catch (error) {
+    next(error);
   }
+};
+
+// Must run after validateApiKey
+export const requireApiScope = (scope: ApiScope) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.apiClient?.scopes.includes(scope)) {
+      throw new ForbiddenError('API key is not allowed to access this API');
+    }
 
-  next();
+    next();
+  };
 };
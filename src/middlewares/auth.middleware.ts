@@ -1,17 +1,23 @@
 import { NextFunction, Request, Response } from 'express';
 import jwt from 'jsonwebtoken';
+import config from '../config';
+import { Permission, hasPermission } from '../config/permissions';
+import { isTwoFactorRequired } from '../helpers/twoFactor';
+import { ISession } from '../models/session.model';
 import { IUser, User } from '../models/user.model';
-import { CustomError } from '../utils/customError';
-
-interface JwtPayload {
-  id: string;
-  role: string;
-}
+import { AccessTokenPayload, tokenService } from '../services/token.service';
+import {
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+} from '../utils/customError';
+import { setRequestContext } from '../utils/requestContext';
 
 // Extend Express Request type using module augmentation
 declare module 'express' {
   interface Request {
     user?: IUser;
+    authSession?: ISession;
   }
 }
 
@@ -20,47 +26,130 @@ export const auth = async (req: Request, res: Response, next: NextFunction) => {
     const token = req.header('Authorization')?.replace('Bearer ', '');
 
     if (!token) {
-      throw new CustomError('No token provided', 401);
+      throw new UnauthorizedError('No token provided');
+    }
+
+    let decoded: AccessTokenPayload;
+    try {
+      decoded = tokenService.verifyAccessToken(token);
+    } catch (error) {
+      // Lets clients tell when to refresh rather than sign in again
+      if (error instanceof jwt.TokenExpiredError) {
+        throw new UnauthorizedError('Token has expired', 'TOKEN_EXPIRED');
+      }
+      throw new UnauthorizedError('Invalid token');
+    }
+
+    // Tokens are only valid while the session they belong to is active
+    const session = decoded.sid
+      ? await tokenService.findActiveSession(decoded.sid, decoded.id)
+      : null;
+
+    if (!session) {
+      throw new UnauthorizedError('Session has expired or been revoked');
     }
 
-    const decoded = jwt.verify(
-      token,
-      process.env.JWT_SECRET || 'your-secret-key',
-    ) as JwtPayload;
     const user = await User.findOne({ _id: decoded.id });
 
     if (!user) {
-      throw new CustomError('User not found', 404);
+      throw new NotFoundError('User not found');
+    }
+
+    if (user.suspendedAt) {
+      throw new ForbiddenError('Account suspended', 'ACCOUNT_SUSPENDED');
     }
 
+    setRequestContext({ userId: user.id });
+
+    await tokenService.touchSession(session, req.ip);
+
     req.user = user;
+    req.authSession = session;
     next();
   } catch (error) {
-    if (error instanceof CustomError) {
-      res.status(error.statusCode).json({ error: error.message });
-    } else {
-      res.status(401).json({ error: 'Please authenticate.' });
-    }
+    next(error);
   }
 };
 
-export const adminAuth = async (
+// For routes that serve anonymous callers too but tailor the response to a
+// signed in user. A missing or unusable token leaves req.user unset instead
+// of failing the request.
+export const optionalAuth = (
   req: Request,
   res: Response,
   next: NextFunction,
 ) => {
-  try {
-    await auth(req, res, () => {
-      if (req.user?.role !== 'admin') {
-        throw new CustomError('Access denied. Admin only.', 403);
-      }
-      next();
-    });
-  } catch (error) {
-    if (error instanceof CustomError) {
-      res.status(error.statusCode).json({ error: error.message });
-    } else {
-      res.status(401).json({ error: 'Please authenticate.' });
+  if (!req.header('Authorization')) {
+    return next();
+  }
+  auth(req, res, () => next());
+};
+
+export const adminAuth = (req: Request, res: Response, next: NextFunction) => {
+  auth(req, res, (error?: unknown) => {
+    if (error) {
+      return next(error);
     }
+    if (req.user?.role !== 'admin') {
+      return next(new ForbiddenError('Access denied. Admin only.'));
+    }
+    if (isTwoFactorRequired(req.user) && !req.user.twoFactorEnabled) {
+      return next(
+        new ForbiddenError(
+          'Two-factor authentication must be enabled to use admin features',
+          'TWO_FACTOR_REQUIRED',
+        ),
+      );
+    }
+    next();
+  });
+};
+
+// Blocks unverified accounts from the actions the verification policy
+// protects. Must run after `auth`.
+export const requireVerifiedEmail = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  if (config.emailVerification.restrictUnverified && !req.user?.emailVerified) {
+    return next(
+      new ForbiddenError(
+        'Please verify your email address to continue',
+        'EMAIL_NOT_VERIFIED',
+      ),
+    );
   }
+  next();
+};
+
+// Allows the request if the user's role grants every listed permission.
+// Must run after `auth`.
+export const requirePermission = (...permissions: Permission[]) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const { user } = req;
+    if (!user) {
+      return next(new UnauthorizedError('User not authenticated'));
+    }
+
+    const allowed = permissions.every((permission) =>
+      hasPermission(user.role, permission),
+    );
+    if (!allowed) {
+      return next(
+        new ForbiddenError('You do not have permission to perform this action'),
+      );
+    }
+
+    if (isTwoFactorRequired(user) && !user.twoFactorEnabled) {
+      return next(
+        new ForbiddenError(
+          'Two-factor authentication must be enabled to use this feature',
+          'TWO_FACTOR_REQUIRED',
+        ),
+      );
+    }
+
+    next();
+  };
 };
@@ -0,0 +1,25 @@
+import crypto from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { UnauthorizedError } from '../utils/customError';
+
+// For machine callers (schedulers, scrapers) that authenticate with a shared
+// secret as bearer token. The secret is read per request so config changes
+// apply, and an empty secret rejects everything.
+export const requireBearerSecret =
+  (getSecret: () => string, message: string) =>
+  (req: Request, _res: Response, next: NextFunction) => {
+    const token = Buffer.from(
+      req.header('Authorization')?.replace('Bearer ', '') || '',
+    );
+    const secret = Buffer.from(getSecret());
+
+    if (
+      secret.length === 0 ||
+      token.length !== secret.length ||
+      !crypto.timingSafeEqual(token, secret)
+    ) {
+      throw new UnauthorizedError(message);
+    }
+
+    next();
+  };
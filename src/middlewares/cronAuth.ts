@@ -0,0 +1,9 @@
+import config from '../config';
+import { requireBearerSecret } from './bearerSecret';
+
+// The scheduler sends CRON_SECRET as a bearer token. Without a secret
+// configured no job can be triggered over HTTP.
+export const cronAuth = requireBearerSecret(
+  () => config.cronSecret,
+  'Invalid cron secret',
+);
@@ -1,38 +1,48 @@
 import { NextFunction, Request, Response } from 'express';
+import {
+  NotFoundError,
+  TooManyRequestsError,
+  wrapError,
+} from '../utils/customError';
+import logger from '../utils/logger';
 
-export class AppError extends Error {
-  statusCode: number;
-  status: string;
-  isOperational: boolean;
-
-  constructor(message: string, statusCode: number) {
-    super(message);
-    this.statusCode = statusCode;
-    this.status = `${statusCode}`.startsWith('4') ? 'fail' : 'error';
-    this.isOperational = true;
-
-    Error.captureStackTrace(this, this.constructor);
-  }
-}
-
+// Every error response has the same shape:
+// { success: false, error: { code, message, details? } }
 export const errorHandler = (
-  err: Error | AppError,
+  err: unknown,
   req: Request,
   res: Response,
   next: NextFunction,
 ) => {
-  if (err instanceof AppError) {
-    return res.status(err.statusCode).json({
-      status: err.status,
-      message: err.message,
+  // Too late to send our own response; Express closes the connection
+  if (res.headersSent) {
+    return next(err);
+  }
+
+  const error = wrapError(err, 'Something went wrong');
+
+  if (error.statusCode >= 500) {
+    // Unknown errors are only logged; their details must not reach clients
+    const cause = error.cause || error;
+    logger.error(`${req.method} ${req.originalUrl} failed: ${error.message}`, {
+      error: cause instanceof Error ? cause.stack : cause,
     });
   }
 
-  // Programming or other unknown error: don't leak error details
-  console.error('ERROR 💥', err);
-  return res.status(500).json({
-    status: 'error',
-    message: 'Something went wrong!',
+  if (error instanceof TooManyRequestsError) {
+    res.setHeader('Retry-After', String(error.retryAfter));
+  }
+
+  res.status(error.statusCode).json({
+    success: false,
+    error: {
+      code: error.code,
+      message: error.message,
+      ...(error.details && { details: error.details }),
+      ...(error instanceof TooManyRequestsError && {
+        retryAfter: error.retryAfter,
+      }),
+    },
   });
 };
 
@@ -41,5 +51,5 @@ export const notFoundHandler = (
   res: Response,
   next: NextFunction,
 ) => {
-  next(new AppError(`Can't find ${req.originalUrl} on this server!`, 404));
+  next(new NotFoundError(`Can't find ${req.originalUrl} on this server`));
 };
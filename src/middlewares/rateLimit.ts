@@ -0,0 +1,80 @@
+import { NextFunction, Request, Response } from 'express';
+import config, { RateLimitPolicy, RateLimitTier } from '../config';
+import { getSubscriptionTier } from '../helpers/subscriptionTier';
+import { rateLimitService } from '../services/rateLimit.service';
+import { tokenService } from '../services/token.service';
+import { TooManyRequestsError } from '../utils/customError';
+
+interface Caller {
+  key: string;
+  tier: RateLimitTier;
+}
+
+// Signed in users are limited per account, on any device or network, with
+// the limit of their subscription tier. The access token is only verified
+// here, not its session; routes needing a user still go through auth.
+// Anonymous callers are told apart by IP rather than API client, since
+// every install of an app shares its client and the client has its own
+// quota (see validateApiKey).
+const identifyCaller = async (req: Request): Promise<Caller> => {
+  let userId: string | undefined = req.user?.id;
+
+  if (!userId) {
+    const token = req.header('Authorization')?.replace('Bearer ', '');
+    if (token) {
+      try {
+        userId = tokenService.verifyAccessToken(token).id;
+      } catch {
+        // Invalid or expired tokens count as anonymous
+      }
+    }
+  }
+
+  if (userId) {
+    return { key: `user:${userId}`, tier: await getSubscriptionTier(userId) };
+  }
+  return { key: `ip:${req.ip}`, tier: 'anonymous' };
+};
+
+// Fixed window limits shared by all instances through rateLimitService.
+// Every policy is counted separately under its name, so a route with its
+// own policy (e.g. login) is limited by it as well as by the default one.
+export const rateLimit = (
+  name = 'default',
+  policy: RateLimitPolicy = config.rateLimits.default,
+) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    // CORS preflights are sent by the browser, not the caller, and must not
+    // use up their allowance
+    if (req.method === 'OPTIONS') {
+      return next();
+    }
+
+    try {
+      const caller = await identifyCaller(req);
+      const result = await rateLimitService.consume(
+        `rate-limit:${name}:${caller.key}`,
+        policy.limits[caller.tier],
+        policy.windowSeconds,
+      );
+
+      res.setHeader('X-RateLimit-Limit', result.limit);
+      res.setHeader('X-RateLimit-Remaining', result.remaining);
+      res.setHeader(
+        'X-RateLimit-Reset',
+        Math.ceil(result.resetAt.getTime() / 1000),
+      );
+
+      if (!result.allowed) {
+        throw new TooManyRequestsError(
+          'Too many requests, please try again later.',
+          (result.resetAt.getTime() - Date.now()) / 1000,
+        );
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
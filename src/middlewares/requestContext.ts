@@ -0,0 +1,53 @@
+import crypto from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import logger from '../utils/logger';
+import { RequestContext, runWithRequestContext } from '../utils/requestContext';
+
+const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// IDs from upstream proxies and clients are kept so a request can be followed
+// across services, as long as they are safe to echo and log
+const validRequestId = /^[\w.:-]{1,128}$/;
+
+// Gives every request an ID, returns it in X-Request-Id and logs one entry
+// when the response has been sent
+export const requestContext = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  const incoming = req.header(REQUEST_ID_HEADER);
+  const context: RequestContext = {
+    requestId:
+      incoming && validRequestId.test(incoming)
+        ? incoming
+        : crypto.randomUUID(),
+  };
+  const startedAt = process.hrtime.bigint();
+
+  res.setHeader(REQUEST_ID_HEADER, context.requestId);
+
+  res.on('finish', () => {
+    const { statusCode } = res;
+    // The query string is logged separately, so sensitive values in it are
+    // redacted
+    const path = req.originalUrl.split('?')[0];
+    const level =
+      statusCode >= 500 ? 'error' : statusCode >= 400 ? 'warn' : 'info';
+
+    logger.log(level, `${req.method} ${path} ${statusCode}`, {
+      ...context,
+      method: req.method,
+      path,
+      query: req.query,
+      status: statusCode,
+      durationMs:
+        Math.round(Number(process.hrtime.bigint() - startedAt) / 1e4) / 100,
+      contentLength: res.getHeader('content-length'),
+      ip: req.ip,
+      userAgent: req.header('user-agent'),
+    });
+  });
+
+  runWithRequestContext(context, next);
+};
@@ -0,0 +1,51 @@
+import { NextFunction, Request, Response } from 'express';
+import { httpRequestDuration, httpRequestsTotal } from '../helpers/metrics';
+
+const segments = (path: string) => path.split('/').filter(Boolean);
+
+// The route template, e.g. /v1/api/wallpapers/:id. Routers reset baseUrl
+// when an error leaves them, so the mount path is rebuilt from the request
+// path: everything before the segments matched by the route itself.
+// Requests no route matched (404s, rejected API keys) share one label.
+export const routeTemplate = (req: Request) => {
+  if (!req.route) {
+    return 'unmatched';
+  }
+
+  const routePath = segments(String(req.route.path));
+  const requestPath = segments(req.originalUrl.split('?')[0]);
+  const mountPath = requestPath.slice(
+    0,
+    Math.max(requestPath.length - routePath.length, 0),
+  );
+
+  return `/${[...mountPath, ...routePath].join('/')}`;
+};
+
+// Counts every request and records its latency once the response is sent
+export const requestMetrics = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  const startedAt = process.hrtime.bigint();
+
+  res.on('finish', () => {
+    const labels = {
+      method: req.method,
+      route: routeTemplate(req),
+      status: res.statusCode,
+    };
+
+    httpRequestsTotal.inc({
+      ...labels,
+      client: req.apiClient?.name || 'none',
+    });
+    httpRequestDuration.observe(
+      labels,
+      Number(process.hrtime.bigint() - startedAt) / 1e9,
+    );
+  });
+
+  next();
+};
@@ -1,6 +1,6 @@
 import { NextFunction, Request, Response } from 'express';
 import { ISubscription, Subscription } from '../models/subscription.model';
-import { CustomError } from '../utils/customError';
+import { ForbiddenError, UnauthorizedError } from '../utils/customError';
 
 // Extend Express Request type
 declare module 'express' {
@@ -18,7 +18,7 @@ export const checkSubscription = (
       const userId = req.user?._id;
 
       if (!userId) {
-        throw new CustomError('User not authenticated', 401);
+        throw new UnauthorizedError('User not authenticated');
       }
 
       const subscription = await Subscription.findOne({
@@ -28,12 +28,18 @@ export const checkSubscription = (
       });
 
       if (!subscription) {
-        throw new CustomError('Subscription required', 403);
+        throw new ForbiddenError(
+          'Subscription required',
+          'SUBSCRIPTION_REQUIRED',
+        );
       }
 
       // Check if user's subscription tier is sufficient
       if (requiredTier === 'premium' && subscription.tier !== 'premium') {
-        throw new CustomError('Premium subscription required', 403);
+        throw new ForbiddenError(
+          'Premium subscription required',
+          'SUBSCRIPTION_REQUIRED',
+        );
       }
 
       // Add subscription info to request for use in controllers
@@ -55,7 +61,7 @@ export const hasActiveSubscription = async (
     const userId = req.user?._id;
 
     if (!userId) {
-      throw new CustomError('User not authenticated', 401);
+      throw new UnauthorizedError('User not authenticated');
     }
 
     const subscription = await Subscription.findOne({
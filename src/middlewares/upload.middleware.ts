@@ -1,5 +1,6 @@
 import { Request } from 'express';
 import multer from 'multer';
+import { ValidationError } from '../utils/customError';
 
 // Configure multer for memory storage
 const storage = multer.memoryStorage();
@@ -13,7 +14,11 @@ const fileFilter = (
   if (file.mimetype.startsWith('image/')) {
     cb(null, true);
   } else {
-    cb(new Error('Only image files are allowed!'));
+    cb(
+      new ValidationError('Only image files are allowed', [
+        { field: file.fieldname, message: 'Must be an image' },
+      ]),
+    );
   }
 };
 
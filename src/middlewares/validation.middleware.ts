@@ -1,28 +1,21 @@
 import { NextFunction, Request, Response } from 'express';
-import { ZodError, ZodType } from 'zod';
-import { CustomError } from '../utils/customError';
+import { ZodType } from 'zod';
 
-export const validate = <T extends ZodType>(schema: T) => {
+export type ValidationSource = 'body' | 'query' | 'params';
+
+// Validates one part of the request and replaces it with the parsed value,
+// so controllers see trimmed, coerced and defaulted data. Failures reach the
+// error handler as a ValidationError with one detail per invalid field.
+export const validate = <T extends ZodType>(
+  schema: T,
+  source: ValidationSource = 'body',
+) => {
   return async (req: Request, res: Response, next: NextFunction) => {
     try {
-      // Validate request data based on the schema
-      await schema.parseAsync({
-        body: req.body,
-        query: req.query,
-        params: req.params,
-        file: req.file,
-      });
-
+      req[source] = await schema.parseAsync(req[source] ?? {});
       next();
     } catch (error) {
-      if (error instanceof ZodError) {
-        const errorMessage = error.errors
-          .map((err) => `${err.path.join('.')}: ${err.message}`)
-          .join('; ');
-        next(new CustomError(errorMessage, 400));
-      } else {
-        next(error);
-      }
+      next(error);
     }
   };
 };
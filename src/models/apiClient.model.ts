@@ -0,0 +1,111 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+import { ApiScope, apiScopes } from '../config/apiScopes';
+
+// One key of a client. Only the hash is stored; the prefix is kept so admins
+// can tell keys apart.
+export interface IApiKey extends mongoose.Types.Subdocument {
+  _id: mongoose.Types.ObjectId;
+  keyHash: string;
+  prefix: string;
+  createdAt: Date;
+  expiresAt?: Date;
+  revokedAt?: Date;
+  lastUsedAt?: Date;
+}
+
+// An app or partner integration calling the API, e.g. the Android app
+export interface IApiClient extends Document {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  description?: string;
+  scopes: ApiScope[];
+  rateLimit: {
+    limit: number; // requests per window
+    windowSeconds: number;
+  };
+  keys: mongoose.Types.DocumentArray<IApiKey>;
+  createdBy?: mongoose.Types.ObjectId;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const apiKeySchema = new Schema<IApiKey>({
+  keyHash: {
+    type: String,
+    required: true,
+  },
+  prefix: {
+    type: String,
+    required: true,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+  expiresAt: {
+    type: Date,
+  },
+  revokedAt: {
+    type: Date,
+  },
+  lastUsedAt: {
+    type: Date,
+  },
+});
+
+const apiClientSchema = new Schema<IApiClient>(
+  {
+    name: {
+      type: String,
+      required: true,
+      unique: true,
+      trim: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    scopes: [
+      {
+        type: String,
+        enum: apiScopes,
+      },
+    ],
+    rateLimit: {
+      limit: {
+        type: Number,
+        required: true,
+      },
+      windowSeconds: {
+        type: Number,
+        required: true,
+      },
+    },
+    keys: [apiKeySchema],
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    revokedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Create indexes
+apiClientSchema.index(
+  { 'keys.keyHash': 1 },
+  {
+    unique: true,
+    partialFilterExpression: { 'keys.keyHash': { $exists: true } },
+  },
+);
+
+export const ApiClient: Model<IApiClient> = mongoose.model<IApiClient>(
+  'ApiClient',
+  apiClientSchema,
+);
@@ -0,0 +1,55 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+export interface IAuditLog extends Document {
+  actorId?: mongoose.Types.ObjectId; // missing for actions without a signed-in user
+  action: string;
+  targetType: string;
+  targetId?: string;
+  metadata?: Record<string, unknown>;
+  ip?: string;
+  userAgent?: string;
+  createdAt: Date;
+}
+
+const auditLogSchema = new Schema<IAuditLog>(
+  {
+    actorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    action: {
+      type: String,
+      required: true,
+    },
+    targetType: {
+      type: String,
+      required: true,
+    },
+    targetId: {
+      type: String,
+    },
+    metadata: {
+      type: Schema.Types.Mixed,
+    },
+    ip: {
+      type: String,
+    },
+    userAgent: {
+      type: String,
+    },
+  },
+  {
+    // Entries are never changed once written
+    timestamps: { createdAt: true, updatedAt: false },
+  },
+);
+
+// Create indexes
+auditLogSchema.index({ targetType: 1, targetId: 1, createdAt: -1 });
+auditLogSchema.index({ actorId: 1, createdAt: -1 });
+auditLogSchema.index({ action: 1, createdAt: -1 });
+
+export const AuditLog: Model<IAuditLog> = mongoose.model<IAuditLog>(
+  'AuditLog',
+  auditLogSchema,
+);
@@ -0,0 +1,45 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+export type EngagementType = 'view' | 'download' | 'save' | 'like';
+
+// One interaction with a wallpaper, kept for the trending rollup
+export interface IEngagementEvent extends Document {
+  wallpaperId: mongoose.Types.ObjectId;
+  type: EngagementType;
+  userId?: mongoose.Types.ObjectId; // unset for anonymous views
+  createdAt: Date;
+}
+
+const engagementEventSchema = new Schema<IEngagementEvent>(
+  {
+    wallpaperId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Wallpaper',
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: ['view', 'download', 'save', 'like'],
+      required: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  },
+);
+
+// Create indexes. Events are kept for the longest trending timeframe (30
+// days) plus a margin.
+engagementEventSchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: 35 * 24 * 60 * 60 },
+);
+engagementEventSchema.index({ wallpaperId: 1 });
+engagementEventSchema.index({ userId: 1 });
+
+export const EngagementEvent: Model<IEngagementEvent> =
+  mongoose.model<IEngagementEvent>('EngagementEvent', engagementEventSchema);
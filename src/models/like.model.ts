@@ -0,0 +1,33 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+// A user's like of a wallpaper. At most one per user and wallpaper; the
+// wallpaper's likes counter is kept in step with these documents.
+export interface ILike extends Document {
+  userId: mongoose.Types.ObjectId;
+  wallpaperId: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+const likeSchema = new Schema<ILike>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    wallpaperId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Wallpaper',
+      required: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  },
+);
+
+// Create indexes
+likeSchema.index({ userId: 1, wallpaperId: 1 }, { unique: true });
+likeSchema.index({ wallpaperId: 1 });
+
+export const Like: Model<ILike> = mongoose.model<ILike>('Like', likeSchema);
@@ -0,0 +1,49 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+// Failed login counter for one email address or IP. Keys are prefixed with
+// their kind, e.g. "email:jane@example.com" or "ip:203.0.113.7".
+export interface ILoginAttempt extends Document {
+  key: string;
+  failures: number;
+  lastFailureAt: Date;
+  lockedUntil?: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const loginAttemptSchema = new Schema<ILoginAttempt>(
+  {
+    key: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    failures: {
+      type: Number,
+      default: 0,
+    },
+    lastFailureAt: {
+      type: Date,
+      required: true,
+    },
+    lockedUntil: {
+      type: Date,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Create indexes
+loginAttemptSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const LoginAttempt: Model<ILoginAttempt> = mongoose.model<ILoginAttempt>(
+  'LoginAttempt',
+  loginAttemptSchema,
+);
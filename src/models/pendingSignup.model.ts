@@ -0,0 +1,49 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+// A sign-up requested through a sign-in link. The account is only created
+// once the link is opened, which proves the address belongs to whoever
+// asked for it.
+export interface IPendingSignup extends Document {
+  email: string;
+  name: string;
+  tokenHash: string;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const pendingSignupSchema = new Schema<IPendingSignup>(
+  {
+    email: {
+      type: String,
+      required: true,
+      lowercase: true,
+      trim: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Create indexes
+// A new link for the same email replaces the previous one
+pendingSignupSchema.index({ email: 1 }, { unique: true });
+pendingSignupSchema.index({ tokenHash: 1 });
+pendingSignupSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const PendingSignup: Model<IPendingSignup> =
+  mongoose.model<IPendingSignup>('PendingSignup', pendingSignupSchema);
@@ -0,0 +1,32 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+// Request counter for one key in one fixed window. The window start is part
+// of the key, e.g. "api-client:<id>:1700000000000", so a new window always
+// starts from a fresh document.
+export interface IRateLimitCounter extends Document {
+  key: string;
+  count: number;
+  expiresAt: Date;
+}
+
+const rateLimitCounterSchema = new Schema<IRateLimitCounter>({
+  key: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  count: {
+    type: Number,
+    default: 0,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+});
+
+// Create indexes
+rateLimitCounterSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RateLimitCounter: Model<IRateLimitCounter> =
+  mongoose.model<IRateLimitCounter>('RateLimitCounter', rateLimitCounterSchema);
@@ -0,0 +1,81 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+import {
+  SessionRevocationReason,
+  sessionRevocationReasons,
+} from './session.model';
+
+export interface IRefreshToken extends Document {
+  userId: mongoose.Types.ObjectId;
+  tokenHash: string;
+  sessionId: mongoose.Types.ObjectId;
+  deviceId?: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  replacedByHash?: string;
+  revokedAt?: Date;
+  revokedReason?: SessionRevocationReason;
+  createdByIp?: string;
+  userAgent?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const refreshTokenSchema = new Schema<IRefreshToken>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+    },
+    sessionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Session',
+      required: true,
+    },
+    deviceId: {
+      type: String,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    usedAt: {
+      type: Date,
+    },
+    replacedByHash: {
+      type: String,
+    },
+    revokedAt: {
+      type: Date,
+    },
+    revokedReason: {
+      type: String,
+      enum: sessionRevocationReasons,
+    },
+    createdByIp: {
+      type: String,
+    },
+    userAgent: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Create indexes
+refreshTokenSchema.index({ tokenHash: 1 }, { unique: true });
+refreshTokenSchema.index({ sessionId: 1 });
+refreshTokenSchema.index({ userId: 1 });
+// Used tokens are kept until they expire so that replays can still be detected
+refreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RefreshToken: Model<IRefreshToken> = mongoose.model<IRefreshToken>(
+  'RefreshToken',
+  refreshTokenSchema,
+);
@@ -0,0 +1,92 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+export type SessionRevocationReason =
+  | 'logout'
+  | 'logout_all'
+  | 'reuse_detected'
+  | 'password_reset'
+  | 'password_changed'
+  | 'user_deleted'
+  | 'suspended'
+  | 'admin_revoked';
+
+export interface ISession extends Document {
+  userId: mongoose.Types.ObjectId;
+  deviceId?: string;
+  deviceName?: string;
+  platform?: 'android' | 'ios' | 'web';
+  ip?: string;
+  userAgent?: string;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: SessionRevocationReason;
+  createdAt: Date;
+  updatedAt: Date;
+  _id: mongoose.Types.ObjectId;
+}
+
+export const sessionRevocationReasons: SessionRevocationReason[] = [
+  'logout',
+  'logout_all',
+  'reuse_detected',
+  'password_reset',
+  'password_changed',
+  'user_deleted',
+  'suspended',
+  'admin_revoked',
+];
+
+const sessionSchema = new Schema<ISession>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    deviceId: {
+      type: String,
+    },
+    deviceName: {
+      type: String,
+      trim: true,
+    },
+    platform: {
+      type: String,
+      enum: ['android', 'ios', 'web'],
+    },
+    ip: {
+      type: String,
+    },
+    userAgent: {
+      type: String,
+    },
+    lastSeenAt: {
+      type: Date,
+      default: Date.now,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    revokedAt: {
+      type: Date,
+    },
+    revokedReason: {
+      type: String,
+      enum: sessionRevocationReasons,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Create indexes
+sessionSchema.index({ userId: 1, revokedAt: 1 });
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const Session: Model<ISession> = mongoose.model<ISession>(
+  'Session',
+  sessionSchema,
+);
@@ -0,0 +1,44 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+export type TrendingTimeframe = 'day' | 'week' | 'month';
+
+// The precomputed trending list for one timeframe, best first. Replaced as a
+// whole by every rollup.
+export interface ITrendingRanking extends Document {
+  timeframe: TrendingTimeframe;
+  wallpapers: {
+    wallpaperId: mongoose.Types.ObjectId;
+    score: number;
+  }[];
+  computedAt: Date;
+}
+
+const trendingRankingSchema = new Schema<ITrendingRanking>({
+  timeframe: {
+    type: String,
+    enum: ['day', 'week', 'month'],
+    required: true,
+    unique: true,
+  },
+  wallpapers: [
+    {
+      _id: false,
+      wallpaperId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Wallpaper',
+        required: true,
+      },
+      score: {
+        type: Number,
+        required: true,
+      },
+    },
+  ],
+  computedAt: {
+    type: Date,
+    required: true,
+  },
+});
+
+export const TrendingRanking: Model<ITrendingRanking> =
+  mongoose.model<ITrendingRanking>('TrendingRanking', trendingRankingSchema);
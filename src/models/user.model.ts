@@ -1,15 +1,46 @@
 import bcrypt from 'bcrypt';
 import mongoose, { Document, Model, Schema } from 'mongoose';
+import config, { OAuthProviderName } from '../config';
+import { Role, roles } from '../config/permissions';
+
+export interface IOAuthProvider {
+  provider: OAuthProviderName;
+  subject: string; // the provider's user id
+  email?: string;
+  linkedAt: Date;
+}
 
 export interface IUser extends Document {
   email: string;
-  password: string;
+  // Missing for accounts that only sign in through a provider
+  password?: string;
+  passwordHistory: string[];
+  passwordChangedAt?: Date;
   name: string;
-  role: 'user' | 'admin';
+  oauthProviders: IOAuthProvider[];
+  role: Role;
+  emailVerified: boolean;
+  emailVerifiedAt?: Date;
+  twoFactorEnabled: boolean;
+  twoFactorEnabledAt?: Date;
+  twoFactorSecret?: string;
+  twoFactorPendingSecret?: string;
+  twoFactorRecoveryCodes: string[];
+  twoFactorLastUsedStep?: number;
   resetPasswordToken?: string;
   resetPasswordExpires?: Date;
+  magicLinkToken?: string;
+  magicLinkExpires?: Date;
+  passwordResetRequired: boolean;
+  suspendedAt?: Date;
+  suspendedReason?: string;
+  suspendedBy?: mongoose.Types.ObjectId;
+  deletionRequestedAt?: Date;
+  deletionScheduledFor?: Date;
   savedWallpapers: mongoose.Types.ObjectId[];
   comparePassword(candidatePassword: string): Promise<boolean>;
+  isRecentPassword(candidatePassword: string): Promise<boolean>;
+  setPassword(newPassword: string): void;
   _id: mongoose.Types.ObjectId;
 }
 
@@ -24,21 +55,94 @@ const userSchema = new Schema<IUser>(
     },
     password: {
       type: String,
-      required: true,
       minlength: 6,
     },
+    // Hashes of previous passwords, newest first
+    passwordHistory: {
+      type: [String],
+      default: [],
+      select: false,
+    },
+    passwordChangedAt: Date,
     name: {
       type: String,
       required: true,
       trim: true,
     },
+    oauthProviders: [
+      {
+        _id: false,
+        provider: {
+          type: String,
+          enum: ['google', 'apple'],
+          required: true,
+        },
+        subject: {
+          type: String,
+          required: true,
+        },
+        email: String,
+        linkedAt: {
+          type: Date,
+          default: Date.now,
+        },
+      },
+    ],
     role: {
       type: String,
-      enum: ['user', 'admin'],
+      enum: roles,
       default: 'user',
     },
+    emailVerified: {
+      type: Boolean,
+      default: false,
+    },
+    emailVerifiedAt: Date,
+    twoFactorEnabled: {
+      type: Boolean,
+      default: false,
+    },
+    twoFactorEnabledAt: Date,
+    twoFactorSecret: {
+      type: String,
+      select: false,
+    },
+    // Secret handed out during enrollment, until the first code confirms it
+    twoFactorPendingSecret: {
+      type: String,
+      select: false,
+    },
+    // Hashes of the unused recovery codes
+    twoFactorRecoveryCodes: {
+      type: [String],
+      default: [],
+      select: false,
+    },
+    // Codes of this time step or earlier are rejected, so each code works once
+    twoFactorLastUsedStep: {
+      type: Number,
+      select: false,
+    },
     resetPasswordToken: String,
     resetPasswordExpires: Date,
+    // Hash of the pending sign-in link; a new link replaces the previous one
+    magicLinkToken: String,
+    magicLinkExpires: Date,
+    // Set by an admin; every login method (password, sign-in link, Google,
+    // Apple) is refused until the password is reset
+    passwordResetRequired: {
+      type: Boolean,
+      default: false,
+    },
+    suspendedAt: Date,
+    suspendedReason: String,
+    suspendedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    // Set while the account waits out the deletion grace period
+    deletionRequestedAt: Date,
+    deletionScheduledFor: Date,
     savedWallpapers: [
       {
         type: Schema.Types.ObjectId,
@@ -51,9 +155,20 @@ const userSchema = new Schema<IUser>(
   },
 );
 
+// Create indexes
+userSchema.index({ role: 1, createdAt: -1 });
+userSchema.index({ deletionScheduledFor: 1 }, { sparse: true });
+userSchema.index(
+  { 'oauthProviders.provider': 1, 'oauthProviders.subject': 1 },
+  {
+    unique: true,
+    partialFilterExpression: { 'oauthProviders.subject': { $exists: true } },
+  },
+);
+
 // Hash password before saving
 userSchema.pre('save', async function (next) {
-  if (!this.isModified('password')) return next();
+  if (!this.isModified('password') || !this.password) return next();
 
   try {
     const salt = await bcrypt.genSalt(10);
@@ -68,7 +183,37 @@ userSchema.pre('save', async function (next) {
 userSchema.methods.comparePassword = async function (
   candidatePassword: string,
 ): Promise<boolean> {
+  if (!this.password) return false;
   return bcrypt.compare(candidatePassword, this.password);
 };
 
+// Checks the current password and the remembered previous ones. The
+// passwordHistory field has to be selected for the history to be checked.
+userSchema.methods.isRecentPassword = async function (
+  candidatePassword: string,
+): Promise<boolean> {
+  const hashes: string[] = [
+    this.password,
+    ...(this.passwordHistory || []),
+  ].filter(Boolean);
+
+  for (const hash of hashes) {
+    if (await bcrypt.compare(candidatePassword, hash)) return true;
+  }
+  return false;
+};
+
+// Replaces the password and remembers the old hash. Together with the current
+// password, the last historySize passwords are kept.
+userSchema.methods.setPassword = function (newPassword: string): void {
+  if (!this.isNew && this.password) {
+    this.passwordHistory = [
+      this.password,
+      ...(this.passwordHistory || []),
+    ].slice(0, Math.max(config.passwordPolicy.historySize - 1, 0));
+  }
+  this.password = newPassword;
+  this.passwordChangedAt = new Date();
+};
+
 export const User: Model<IUser> = mongoose.model<IUser>('User', userSchema);
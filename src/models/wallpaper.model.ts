@@ -1,5 +1,9 @@
 import mongoose, { Document, Model, Schema } from 'mongoose';
 
+// How the image is stored on Cloudinary. Authenticated images are only
+// delivered through signed URLs.
+export type DeliveryType = 'upload' | 'authenticated';
+
 export interface IWallpaper extends Document {
   title: string;
   description: string;
@@ -8,13 +12,15 @@ export interface IWallpaper extends Document {
   thumbnailUrl: string;
   category: string;
   tags: string[];
-  uploadedBy: mongoose.Types.ObjectId;
+  dominantColor?: string; // hex, e.g. #1a2b3c; unknown for early uploads
+  uploadedBy?: mongoose.Types.ObjectId; // unset once the uploader deleted their account
   views: number;
   downloads: number;
   saves: number;
   likes: number;
   isPremium: boolean;
   subscriptionTier: 'free' | 'basic' | 'premium';
+  deliveryType: DeliveryType;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -54,10 +60,13 @@ const wallpaperSchema = new Schema<IWallpaper>(
         trim: true,
       },
     ],
+    dominantColor: {
+      type: String,
+      match: /^#[0-9a-f]{6}$/i,
+    },
     uploadedBy: {
       type: Schema.Types.ObjectId,
       ref: 'User',
-      required: true,
     },
     views: {
       type: Number,
@@ -84,6 +93,11 @@ const wallpaperSchema = new Schema<IWallpaper>(
       enum: ['free', 'basic', 'premium'],
       default: 'free',
     },
+    deliveryType: {
+      type: String,
+      enum: ['upload', 'authenticated'],
+      default: 'upload',
+    },
   },
   {
     timestamps: true,
@@ -93,6 +107,7 @@ const wallpaperSchema = new Schema<IWallpaper>(
 // Create indexes for better search performance
 wallpaperSchema.index({ title: 'text', description: 'text', tags: 'text' });
 wallpaperSchema.index({ category: 1 });
+wallpaperSchema.index({ tags: 1 });
 wallpaperSchema.index({ uploadedBy: 1 });
 wallpaperSchema.index({ isPremium: 1, subscriptionTier: 1 });
 
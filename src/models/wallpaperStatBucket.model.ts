@@ -0,0 +1,58 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+// A wallpaper's engagement in one UTC hour. Hourly buckets can be summed
+// into hours, days or weeks of any timezone; they are kept for good, unlike
+// the raw engagement events.
+export interface IWallpaperStatBucket extends Document {
+  wallpaperId: mongoose.Types.ObjectId;
+  hour: Date; // start of the hour
+  views: number;
+  downloads: number;
+  saves: number;
+  likes: number;
+  userIds: mongoose.Types.ObjectId[]; // signed in users active in the hour
+}
+
+const wallpaperStatBucketSchema = new Schema<IWallpaperStatBucket>({
+  wallpaperId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Wallpaper',
+    required: true,
+  },
+  hour: {
+    type: Date,
+    required: true,
+  },
+  views: {
+    type: Number,
+    default: 0,
+  },
+  downloads: {
+    type: Number,
+    default: 0,
+  },
+  saves: {
+    type: Number,
+    default: 0,
+  },
+  likes: {
+    type: Number,
+    default: 0,
+  },
+  userIds: [
+    {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  ],
+});
+
+// Create indexes
+wallpaperStatBucketSchema.index({ wallpaperId: 1, hour: 1 }, { unique: true });
+wallpaperStatBucketSchema.index({ userIds: 1 });
+
+export const WallpaperStatBucket: Model<IWallpaperStatBucket> =
+  mongoose.model<IWallpaperStatBucket>(
+    'WallpaperStatBucket',
+    wallpaperStatBucketSchema,
+  );
@@ -0,0 +1,1146 @@
+import { Router } from 'express';
+import {
+  changeUserRole,
+  forcePasswordReset,
+  getUserAuditLog,
+  getUserDetails,
+  listUsers,
+  revokeUserSessions,
+  suspendUser,
+  unlockLogin,
+  unsuspendUser,
+} from '../controllers/admin.controller';
+import {
+  createApiClient,
+  getApiClient,
+  listApiClients,
+  revokeApiClient,
+  revokeApiKey,
+  rotateApiKey,
+  updateApiClient,
+} from '../controllers/apiClient.controller';
+import { auth, requirePermission } from '../middlewares/auth.middleware';
+import { validate } from '../middlewares/validation.middleware';
+import { asyncHandler } from '../utils/asyncHandler';
+import {
+  auditLogQuerySchema,
+  changeRoleSchema,
+  suspendUserSchema,
+  unlockLoginSchema,
+  userParamsSchema,
+  userSearchSchema,
+} from '../validations/admin.validation';
+import {
+  apiClientParamsSchema,
+  apiKeyParamsSchema,
+  createApiClientSchema,
+  rotateApiKeySchema,
+  updateApiClientSchema,
+} from '../validations/apiClient.validation';
+
+const router = Router();
+
+router.use(auth);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AdminUser:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         email:
+ *           type: string
+ *         name:
+ *           type: string
+ *         role:
+ *           type: string
+ *           enum: [user, creator, moderator, support, admin]
+ *         emailVerified:
+ *           type: boolean
+ *         twoFactorEnabled:
+ *           type: boolean
+ *         oauthProviders:
+ *           type: array
+ *           items:
+ *             type: string
+ *         passwordResetRequired:
+ *           type: boolean
+ *         suspendedAt:
+ *           type: string
+ *           format: date-time
+ *         suspendedReason:
+ *           type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *     AuditLogEntry:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         actorId:
+ *           type: object
+ *           properties:
+ *             _id:
+ *               type: string
+ *             email:
+ *               type: string
+ *             name:
+ *               type: string
+ *         action:
+ *           type: string
+ *           example: "user.suspended"
+ *         targetType:
+ *           type: string
+ *           example: "user"
+ *         targetId:
+ *           type: string
+ *         metadata:
+ *           type: object
+ *         ip:
+ *           type: string
+ *         userAgent:
+ *           type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /v1/api/admin/users:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Search users
+ *     description: Requires the user:read:any permission.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Matches email or name
+ *       - in: query
+ *         name: email
+ *         schema:
+ *           type: string
+ *         description: Email prefix
+ *       - in: query
+ *         name: name
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: role
+ *         schema:
+ *           type: string
+ *           enum: [user, creator, moderator, support, admin]
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, suspended]
+ *       - in: query
+ *         name: createdFrom
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: createdTo
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Matching users, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     users:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/AdminUser'
+ *                     total:
+ *                       type: integer
+ *                     page:
+ *                       type: integer
+ *                     totalPages:
+ *                       type: integer
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  '/users',
+  requirePermission('user:read:any'),
+  validate(userSearchSchema, 'query'),
+  asyncHandler(listUsers),
+);
+
+/**
+ * @swagger
+ * /v1/api/admin/users/{id}:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Get a user's account details
+ *     description: Returns the user with their device tokens, uploads and active session count. Subscriptions are included only for staff with the subscription:read:any permission. Requires the user:read:any permission.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: User details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     user:
+ *                       $ref: '#/components/schemas/AdminUser'
+ *                     subscriptions:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                     deviceTokens:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                     uploads:
+ *                       type: object
+ *                       properties:
+ *                         total:
+ *                           type: integer
+ *                         recent:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                     activeSessions:
+ *                       type: integer
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  '/users/:id',
+  requirePermission('user:read:any'),
+  validate(userParamsSchema, 'params'),
+  asyncHandler(getUserDetails),
+);
+
+/**
+ * @swagger
+ * /v1/api/admin/users/{id}/role:
+ *   patch:
+ *     tags: [Admin]
+ *     summary: Change a user's role
+ *     description: Signs the user out of all sessions so the new role takes effect. Staff cannot change their own role. Requires the user:role:assign permission.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - role
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [user, creator, moderator, support, admin]
+ *     responses:
+ *       200:
+ *         description: Role changed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     user:
+ *                       $ref: '#/components/schemas/AdminUser'
+ *       400:
+ *         description: Invalid role or own account
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.patch(
+  '/users/:id/role',
+  requirePermission('user:role:assign'),
+  validate(userParamsSchema, 'params'),
+  validate(changeRoleSchema),
+  asyncHandler(changeUserRole),
+);
+
+/**
+ * @swagger
+ * /v1/api/admin/users/{id}/suspend:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Suspend a user
+ *     description: Blocks the account from signing in or using existing tokens and revokes all of its sessions. Only admins can suspend admins. Requires the user:suspend permission.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: "Repeated copyright violations"
+ *     responses:
+ *       200:
+ *         description: User suspended
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     user:
+ *                       $ref: '#/components/schemas/AdminUser'
+ *       400:
+ *         description: Already suspended or own account
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  '/users/:id/suspend',
+  requirePermission('user:suspend'),
+  validate(userParamsSchema, 'params'),
+  validate(suspendUserSchema),
+  asyncHandler(suspendUser),
+);
+
+/**
+ * @swagger
+ * /v1/api/admin/users/{id}/unsuspend:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Lift a user's suspension
+ *     description: Requires the user:suspend permission.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Suspension lifted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     user:
+ *                       $ref: '#/components/schemas/AdminUser'
+ *       400:
+ *         description: User is not suspended
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  '/users/:id/unsuspend',
+  requirePermission('user:suspend'),
+  validate(userParamsSchema, 'params'),
+  asyncHandler(unsuspendUser),
+);
+
+/**
+ * @swagger
+ * /v1/api/admin/users/{id}/force-password-reset:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Force a password reset
+ *     description: Revokes all of the user's sessions, blocks every login method until the password is reset and emails a reset link. Requires the user:security:manage permission.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Reset required and link sent
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Password reset required and reset link sent"
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  '/users/:id/force-password-reset',
+  requirePermission('user:security:manage'),
+  validate(userParamsSchema, 'params'),
+  asyncHandler(forcePasswordReset),
+);
+
+/**
+ * @swagger
+ * /v1/api/admin/users/{id}/revoke-sessions:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Sign a user out everywhere
+ *     description: Revokes all of the user's refresh tokens. Requires the user:security:manage permission.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Sessions revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "All sessions revoked"
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  '/users/:id/revoke-sessions',
+  requirePermission('user:security:manage'),
+  validate(userParamsSchema, 'params'),
+  asyncHandler(revokeUserSessions),
+);
+
+/**
+ * @swagger
+ * /v1/api/admin/users/{id}/audit-logs:
+ *   get:
+ *     tags: [Admin]
+ *     summary: List the audit trail of a user
+ *     description: Administrative actions taken on the user, newest first. Requires the user:read:any permission.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Audit log entries
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     entries:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/AuditLogEntry'
+ *                     total:
+ *                       type: integer
+ *                     page:
+ *                       type: integer
+ *                     totalPages:
+ *                       type: integer
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  '/users/:id/audit-logs',
+  requirePermission('user:read:any'),
+  validate(userParamsSchema, 'params'),
+  validate(auditLogQuerySchema, 'query'),
+  asyncHandler(getUserAuditLog),
+);
+
+/**
+ * @swagger
+ * /v1/api/admin/login-lockouts/unlock:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Clear a login lockout
+ *     description: Resets the failed login counter of an email address and/or an IP address, lifting any lockout and delay on it. Requires the user:security:manage permission.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: "john.doe@example.com"
+ *               ip:
+ *                 type: string
+ *                 example: "203.0.113.7"
+ *     responses:
+ *       200:
+ *         description: Lockout cleared
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Login lockout cleared"
+ *       400:
+ *         description: Neither email nor ip given
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  '/login-lockouts/unlock',
+  requirePermission('user:security:manage'),
+  validate(unlockLoginSchema),
+  asyncHandler(unlockLogin),
+);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ApiClient:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         name:
+ *           type: string
+ *           example: "android-app"
+ *         description:
+ *           type: string
+ *         scopes:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [auth, wallpapers, categories, health, subscriptions, notifications, admin]
+ *         rateLimit:
+ *           type: object
+ *           properties:
+ *             limit:
+ *               type: integer
+ *               example: 1000
+ *             windowSeconds:
+ *               type: integer
+ *               example: 60
+ *         keys:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: string
+ *               prefix:
+ *                 type: string
+ *                 example: "wpk_3q2-Xh"
+ *               active:
+ *                 type: boolean
+ *               createdAt:
+ *                 type: string
+ *                 format: date-time
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *               revokedAt:
+ *                 type: string
+ *                 format: date-time
+ *               lastUsedAt:
+ *                 type: string
+ *                 format: date-time
+ *         revokedAt:
+ *           type: string
+ *           format: date-time
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /v1/api/admin/api-clients:
+ *   get:
+ *     tags: [Admin]
+ *     summary: List API clients
+ *     description: Requires the api_client:manage permission.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: All API clients with their keys (without the key values)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ApiClient'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *   post:
+ *     tags: [Admin]
+ *     summary: Create an API client
+ *     description: Creates a client and issues its first key. Requires the api_client:manage permission.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - scopes
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: "android-app"
+ *               description:
+ *                 type: string
+ *               scopes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [auth, wallpapers, categories, health, subscriptions, notifications, admin]
+ *               rateLimit:
+ *                 type: object
+ *                 properties:
+ *                   limit:
+ *                     type: integer
+ *                   windowSeconds:
+ *                     type: integer
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: When the first key expires; never if omitted
+ *     responses:
+ *       201:
+ *         description: Client created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     client:
+ *                       $ref: '#/components/schemas/ApiClient'
+ *                     apiKey:
+ *                       type: string
+ *                       description: The new key. It is only shown in this response.
+ *                       example: "wpk_3q2-Xh8sD9..."
+ *       400:
+ *         description: Invalid input
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Name already taken
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router
+  .route('/api-clients')
+  .get(requirePermission('api_client:manage'), asyncHandler(listApiClients))
+  .post(
+    requirePermission('api_client:manage'),
+    validate(createApiClientSchema),
+    asyncHandler(createApiClient),
+  );
+
+/**
+ * @swagger
+ * /v1/api/admin/api-clients/{id}:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Get an API client
+ *     description: Requires the api_client:manage permission.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: API client
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/ApiClient'
+ *       404:
+ *         description: API client not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *   patch:
+ *     tags: [Admin]
+ *     summary: Update an API client
+ *     description: Changes the scopes or quota of a client. Requires the api_client:manage permission.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               description:
+ *                 type: string
+ *               scopes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [auth, wallpapers, categories, health, subscriptions, notifications, admin]
+ *               rateLimit:
+ *                 type: object
+ *                 properties:
+ *                   limit:
+ *                     type: integer
+ *                   windowSeconds:
+ *                     type: integer
+ *     responses:
+ *       200:
+ *         description: API client updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/ApiClient'
+ *       404:
+ *         description: API client not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *   delete:
+ *     tags: [Admin]
+ *     summary: Revoke an API client
+ *     description: All keys of the client stop working. Requires the api_client:manage permission.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: API client revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "API client revoked"
+ *       400:
+ *         description: Already revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: API client not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router
+  .route('/api-clients/:id')
+  .get(
+    requirePermission('api_client:manage'),
+    validate(apiClientParamsSchema, 'params'),
+    asyncHandler(getApiClient),
+  )
+  .patch(
+    requirePermission('api_client:manage'),
+    validate(apiClientParamsSchema, 'params'),
+    validate(updateApiClientSchema),
+    asyncHandler(updateApiClient),
+  )
+  .delete(
+    requirePermission('api_client:manage'),
+    validate(apiClientParamsSchema, 'params'),
+    asyncHandler(revokeApiClient),
+  );
+
+/**
+ * @swagger
+ * /v1/api/admin/api-clients/{id}/keys:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Rotate an API client's key
+ *     description: Issues a new key. Keys that are still active keep working for the overlap window, then expire. Requires the api_client:manage permission.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               overlapSeconds:
+ *                 type: integer
+ *                 default: 86400
+ *                 description: How long the current keys stay valid
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: When the new key expires; never if omitted
+ *     responses:
+ *       201:
+ *         description: New key issued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     client:
+ *                       $ref: '#/components/schemas/ApiClient'
+ *                     apiKey:
+ *                       type: string
+ *                       description: The new key. It is only shown in this response.
+ *                       example: "wpk_3q2-Xh8sD9..."
+ *       400:
+ *         description: Client revoked or overlap too long
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: API client not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  '/api-clients/:id/keys',
+  requirePermission('api_client:manage'),
+  validate(apiClientParamsSchema, 'params'),
+  validate(rotateApiKeySchema),
+  asyncHandler(rotateApiKey),
+);
+
+/**
+ * @swagger
+ * /v1/api/admin/api-clients/{id}/keys/{keyId}:
+ *   delete:
+ *     tags: [Admin]
+ *     summary: Revoke one API key
+ *     description: The key stops working immediately on this instance and within API_CLIENT_CACHE_TTL seconds everywhere. Requires the api_client:manage permission.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: keyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Key revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/ApiClient'
+ *       400:
+ *         description: Already revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: API client or key not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete(
+  '/api-clients/:id/keys/:keyId',
+  requirePermission('api_client:manage'),
+  validate(apiKeyParamsSchema, 'params'),
+  asyncHandler(revokeApiKey),
+);
+
+export default router;
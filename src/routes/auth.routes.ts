@@ -1,19 +1,57 @@
 import { Router } from 'express';
+import config from '../config';
 import {
+  changePassword,
+  deleteAccount,
+  exportAccountData,
   forgotPassword,
+  linkOAuthProvider,
+  listSessions,
   login,
   logout,
+  logoutAll,
+  oauthLogin,
+  refreshToken,
   register,
+  requestMagicLink,
+  resendVerification,
   resetPassword,
+  revokeSessionById,
+  unlinkOAuthProvider,
   updateUser,
+  verifyEmail,
+  verifyMagicLink,
+  verifyTwoFactorLogin,
 } from '../controllers/auth.controller';
+import {
+  disableTwoFactor,
+  enableTwoFactor,
+  regenerateRecoveryCodes,
+  setupTwoFactor,
+} from '../controllers/twoFactor.controller';
 import { auth } from '../middlewares/auth.middleware';
+import { rateLimit } from '../middlewares/rateLimit';
 import { validate } from '../middlewares/validation.middleware';
+import { asyncHandler } from '../utils/asyncHandler';
 import {
+  changePasswordSchema,
+  deleteAccountSchema,
+  disableTwoFactorSchema,
   loginSchema,
+  magicLinkRequestSchema,
+  magicLinkVerifySchema,
+  oauthLinkSchema,
+  oauthLoginSchema,
+  oauthProviderParamsSchema,
   passwordResetRequestSchema,
   passwordResetSchema,
+  refreshTokenSchema,
   registerSchema,
+  sessionParamsSchema,
+  twoFactorCodeSchema,
+  twoFactorLoginSchema,
+  updateProfileSchema,
+  verifyEmailSchema,
 } from '../validations/auth.validation';
 
 const router = Router();
@@ -24,7 +62,7 @@ const router = Router();
  *   post:
  *     tags: [Auth]
  *     summary: Register a new user
- *     description: Create a new user account with email and password
+ *     description: Create a new user account with email and password. A verification link is emailed to the new address.
  *     requestBody:
  *       required: true
  *       content:
@@ -73,7 +111,10 @@ const router = Router();
  *                   description: JWT access token
  *                 refreshToken:
  *                   type: string
- *                   description: JWT refresh token
+ *                   description: Opaque refresh token
+ *                 expiresIn:
+ *                   type: number
+ *                   description: Access token expiration time in seconds
  *       400:
  *         description: Invalid input data
  *         content:
@@ -93,7 +134,93 @@ const router = Router();
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/register', validate(registerSchema), register);
+router.post('/register', validate(registerSchema), asyncHandler(register));
+
+/**
+ * @swagger
+ * /v1/api/auth/verify-email:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Verify email address
+ *     description: Confirm ownership of the account's email address using the token from the verification email
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 description: Verification token received via email
+ *     responses:
+ *       200:
+ *         description: Email verified successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Email verified successfully"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     user:
+ *                       $ref: '#/components/schemas/User'
+ *       400:
+ *         description: Invalid or expired verification token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  '/verify-email',
+  validate(verifyEmailSchema),
+  asyncHandler(verifyEmail),
+);
+
+/**
+ * @swagger
+ * /v1/api/auth/resend-verification:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Resend verification email
+ *     description: Send a new verification link to the current user's email address
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Verification email sent
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: "Verification email sent"
+ *       400:
+ *         description: Email already verified
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/resend-verification', auth, asyncHandler(resendVerification));
 
 /**
  * @swagger
@@ -101,7 +228,7 @@ router.post('/register', validate(registerSchema), register);
  *   post:
  *     tags: [Auth]
  *     summary: Login user
- *     description: Authenticate user with email and password
+ *     description: Authenticate user with email and password. For accounts with two-factor authentication the response holds a challenge token instead of tokens; complete the login with POST /v1/api/auth/login/2fa.
  *     requestBody:
  *       required: true
  *       content:
@@ -121,6 +248,17 @@ router.post('/register', validate(registerSchema), register);
  *                 type: string
  *                 description: User's password
  *                 example: "StrongP@ss123"
+ *               deviceId:
+ *                 type: string
+ *                 description: Identifier of the device the session belongs to
+ *                 example: "a1b2c3d4e5f6"
+ *               deviceName:
+ *                 type: string
+ *                 description: Human-readable device name shown in the session list
+ *                 example: "Pixel 8"
+ *               platform:
+ *                 type: string
+ *                 enum: [android, ios, web]
  *               rememberMe:
  *                 type: boolean
  *                 description: Whether to keep the user logged in for a longer period
@@ -140,18 +278,27 @@ router.post('/register', validate(registerSchema), register);
  *                   description: JWT access token
  *                 refreshToken:
  *                   type: string
- *                   description: JWT refresh token
+ *                   description: Opaque refresh token
  *                 expiresIn:
  *                   type: number
  *                   description: Token expiration time in seconds
+ *                 twoFactorSetupRequired:
+ *                   type: boolean
+ *                   description: The account's role requires two-factor authentication, which is not enabled yet
+ *                 twoFactorRequired:
+ *                   type: boolean
+ *                   description: Only present for accounts with two-factor authentication
+ *                 challengeToken:
+ *                   type: string
+ *                   description: Short-lived token for the second login step
  *       400:
- *         description: Invalid credentials
+ *         description: Invalid input
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *       401:
- *         description: Account locked
+ *         description: Invalid credentials or account locked
  *         content:
  *           application/json:
  *             schema:
@@ -163,44 +310,93 @@ router.post('/register', validate(registerSchema), register);
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/login', validate(loginSchema), login);
+// Both login steps share one budget of attempts per IP, on top of the
+// per-account lockout of loginThrottleService
+const loginRateLimit = rateLimit('login', config.rateLimits.login);
+
+router.post(
+  '/login',
+  loginRateLimit,
+  validate(loginSchema),
+  asyncHandler(login),
+);
 
 /**
  * @swagger
- * /v1/api/auth/logout:
+ * /v1/api/auth/login/2fa:
  *   post:
  *     tags: [Auth]
- *     summary: Logout user
- *     description: Invalidate the current user's session and tokens
- *     security:
- *       - bearerAuth: []
+ *     summary: Complete a two-factor login
+ *     description: Exchange the challenge token from /login and a code from the authenticator app (or an unused recovery code) for tokens. Wrong codes count as failed logins.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 description: 6-digit code from the authenticator app
+ *                 example: "123456"
+ *               recoveryCode:
+ *                 type: string
+ *                 description: One of the recovery codes, instead of code
+ *                 example: "3f9a1-c04be"
+ *               deviceId:
+ *                 type: string
+ *               deviceName:
+ *                 type: string
+ *               platform:
+ *                 type: string
+ *                 enum: [android, ios, web]
  *     responses:
  *       200:
- *         description: Logout successful
+ *         description: User logged in successfully
  *         content:
  *           application/json:
  *             schema:
  *               type: object
  *               properties:
- *                 message:
+ *                 user:
+ *                   $ref: '#/components/schemas/User'
+ *                 token:
  *                   type: string
- *                   example: "Logged out successfully"
+ *                 refreshToken:
+ *                   type: string
+ *                 expiresIn:
+ *                   type: number
  *       401:
- *         description: Unauthorized
+ *         description: Invalid code, invalid or expired challenge, or account locked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         description: Too many login attempts
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/logout', auth, logout);
+router.post(
+  '/login/2fa',
+  loginRateLimit,
+  validate(twoFactorLoginSchema),
+  asyncHandler(verifyTwoFactorLogin),
+);
 
 /**
  * @swagger
- * /v1/api/auth/forgot-password:
+ * /v1/api/auth/magic-link:
  *   post:
  *     tags: [Auth]
- *     summary: Request password reset
- *     description: Send a password reset link to the user's email
+ *     summary: Request a sign-in link
+ *     description: Emails a single-use link for signing in without a password. With a name, an email that is not registered yet gets a sign-up link; the account is created when the link is opened. The response is the same whether or not the account exists.
  *     requestBody:
  *       required: true
  *       content:
@@ -213,51 +409,57 @@ router.post('/logout', auth, logout);
  *               email:
  *                 type: string
  *                 format: email
- *                 description: User's email address
  *                 example: "john.doe@example.com"
+ *               name:
+ *                 type: string
+ *                 description: Only used to create a new account
+ *                 example: "John Doe"
  *     responses:
  *       200:
- *         description: Password reset email sent
+ *         description: Request accepted
  *         content:
  *           application/json:
  *             schema:
  *               type: object
  *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
  *                 message:
  *                   type: string
- *                   example: "Password reset email sent"
+ *                   example: "If an account exists for this email, a sign-in link has been sent"
  *       400:
- *         description: Invalid email
+ *         description: Invalid input
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
- *       404:
- *         description: Email not found
+ *       401:
+ *         description: Account locked
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *       429:
- *         description: Too many password reset attempts
+ *         description: Too many links requested or too many failed logins
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
 router.post(
-  '/forgot-password',
-  validate(passwordResetRequestSchema),
-  forgotPassword,
+  '/magic-link',
+  validate(magicLinkRequestSchema),
+  asyncHandler(requestMagicLink),
 );
 
 /**
  * @swagger
- * /v1/api/auth/reset-password:
+ * /v1/api/auth/magic-link/verify:
  *   post:
  *     tags: [Auth]
- *     summary: Reset password
- *     description: Reset user password using the token from forgot password email
+ *     summary: Sign in with a sign-in link
+ *     description: Exchanges the token from the emailed link for tokens, like /login. The link works once, creates the account for a sign-up link and verifies the email address. With 2FA on, the response is a two-factor challenge instead.
  *     requestBody:
  *       required: true
  *       content:
@@ -266,125 +468,1131 @@ router.post(
  *             type: object
  *             required:
  *               - token
- *               - password
- *               - confirmPassword
  *             properties:
  *               token:
  *                 type: string
- *                 description: Password reset token received via email
- *                 example: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
- *               password:
+ *               deviceId:
  *                 type: string
- *                 minLength: 8
- *                 pattern: ^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]{8,}$
- *                 description: New password
- *                 example: "NewStrongP@ss123"
- *               confirmPassword:
+ *               deviceName:
  *                 type: string
- *                 description: Password confirmation must match password
- *                 example: "NewStrongP@ss123"
+ *               platform:
+ *                 type: string
+ *                 enum: [android, ios, web]
  *     responses:
  *       200:
- *         description: Password reset successful
+ *         description: User logged in successfully
  *         content:
  *           application/json:
  *             schema:
  *               type: object
  *               properties:
- *                 message:
+ *                 user:
+ *                   $ref: '#/components/schemas/User'
+ *                 token:
  *                   type: string
- *                   example: "Password reset successful"
- *       400:
- *         description: Invalid input data
+ *                 refreshToken:
+ *                   type: string
+ *                 expiresIn:
+ *                   type: number
+ *       401:
+ *         description: Invalid, expired or already used link
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
- *       401:
- *         description: Invalid or expired token
+ *       403:
+ *         description: Account suspended
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         description: Too many failed attempts from this IP
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/reset-password', validate(passwordResetSchema), resetPassword);
+router.post(
+  '/magic-link/verify',
+  validate(magicLinkVerifySchema),
+  asyncHandler(verifyMagicLink),
+);
 
 /**
  * @swagger
- * /v1/api/auth/update:
- *   patch:
+ * /v1/api/auth/oauth/{provider}:
+ *   post:
  *     tags: [Auth]
- *     summary: Update user profile
- *     description: Update user's name and email
- *     security:
- *       - bearerAuth: []
+ *     summary: Sign in with Google or Apple
+ *     description: |
+ *       Verifies an ID token from the provider's SDK and returns the same
+ *       response as /login. A new account is created for unknown identities.
+ *       If an account with the same email already exists, sign in to it and
+ *       link the provider instead.
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [google, apple]
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
  *             type: object
+ *             required:
+ *               - idToken
  *             properties:
+ *               idToken:
+ *                 type: string
+ *                 description: ID token issued by the provider
  *               name:
  *                 type: string
- *                 minLength: 2
- *                 maxLength: 50
- *                 description: User's full name
+ *                 description: Name for a new account, when the token carries none (Apple)
  *                 example: "John Doe"
- *               email:
+ *               deviceId:
  *                 type: string
- *                 format: email
- *                 description: User's email address
- *                 example: "john.doe@example.com"
+ *               deviceName:
+ *                 type: string
+ *               platform:
+ *                 type: string
+ *                 enum: [android, ios, web]
  *     responses:
  *       200:
- *         description: User profile updated successfully
+ *         description: User logged in successfully
  *         content:
  *           application/json:
  *             schema:
  *               type: object
  *               properties:
- *                 success:
- *                   type: boolean
- *                   example: true
- *                 data:
- *                   type: object
- *                   properties:
- *                     user:
- *                       type: object
- *                       properties:
- *                         id:
- *                           type: string
- *                           description: User's ID
- *                         email:
- *                           type: string
- *                           description: User's email
- *                         name:
- *                           type: string
- *                           description: User's name
- *                         role:
- *                           type: string
- *                           enum: [user, admin]
- *                           description: User's role
+ *                 user:
+ *                   $ref: '#/components/schemas/User'
+ *                 token:
+ *                   type: string
+ *                 refreshToken:
+ *                   type: string
+ *                 expiresIn:
+ *                   type: number
  *       400:
- *         description: Invalid input data or email already in use
+ *         description: Invalid input, provider not enabled or no email shared
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *       401:
- *         description: Unauthorized
+ *         description: Invalid or expired ID token
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
- *       404:
- *         description: User not found
+ *       409:
+ *         description: An account with this email already exists
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  '/oauth/:provider',
+  validate(oauthProviderParamsSchema, 'params'),
+  validate(oauthLoginSchema),
+  asyncHandler(oauthLogin),
+);
+
+/**
+ * @swagger
+ * /v1/api/auth/oauth/{provider}/link:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Link a Google or Apple account
+ *     description: Links the identity in the ID token to the current user, so it can be used to sign in.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [google, apple]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - idToken
+ *             properties:
+ *               idToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Provider linked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     user:
+ *                       $ref: '#/components/schemas/User'
+ *       401:
+ *         description: Unauthorized or invalid ID token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: The provider account is linked to another user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  '/oauth/:provider/link',
+  auth,
+  validate(oauthProviderParamsSchema, 'params'),
+  validate(oauthLinkSchema),
+  asyncHandler(linkOAuthProvider),
+);
+
+/**
+ * @swagger
+ * /v1/api/auth/oauth/{provider}:
+ *   delete:
+ *     tags: [Auth]
+ *     summary: Unlink a Google or Apple account
+ *     description: Removes the provider from the current user. The last sign-in method cannot be removed.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [google, apple]
+ *     responses:
+ *       200:
+ *         description: Provider unlinked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     user:
+ *                       $ref: '#/components/schemas/User'
+ *       400:
+ *         description: The account has no password and no other provider
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: The provider is not linked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete(
+  '/oauth/:provider',
+  auth,
+  validate(oauthProviderParamsSchema, 'params'),
+  asyncHandler(unlinkOAuthProvider),
+);
+
+/**
+ * @swagger
+ * /v1/api/auth/2fa/setup:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Start two-factor enrollment
+ *     description: Generates a TOTP secret. Add it to an authenticator app (the otpauth URI can be shown as a QR code), then confirm with /2fa/enable.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Secret generated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     secret:
+ *                       type: string
+ *                       example: "JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP"
+ *                     otpauthUri:
+ *                       type: string
+ *                       example: "otpauth://totp/Wallpaper%20App%3Ajohn%40example.com?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=Wallpaper%20App&algorithm=SHA1&digits=6&period=30"
+ *       400:
+ *         description: Two-factor authentication is already enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/2fa/setup', auth, asyncHandler(setupTwoFactor));
+
+/**
+ * @swagger
+ * /v1/api/auth/2fa/enable:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Enable two-factor authentication
+ *     description: Confirms enrollment with a code generated from the new secret. Returns the recovery codes, which are only shown once.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     recoveryCodes:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                       example: ["3f9a1-c04be", "8d2e7-91f0a"]
+ *       400:
+ *         description: Invalid code, setup not started or already enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  '/2fa/enable',
+  auth,
+  validate(twoFactorCodeSchema),
+  asyncHandler(enableTwoFactor),
+);
+
+/**
+ * @swagger
+ * /v1/api/auth/2fa/disable:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Disable two-factor authentication
+ *     description: Requires a current code or a recovery code, and the password for accounts that have one. Not allowed for roles that must use two-factor authentication.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               password:
+ *                 type: string
+ *                 format: password
+ *                 description: Required for accounts that have a password
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *               recoveryCode:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication disabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Two-factor authentication disabled"
+ *       400:
+ *         description: Invalid password or code, or not enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Two-factor authentication is required for the account's role
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  '/2fa/disable',
+  auth,
+  validate(disableTwoFactorSchema),
+  asyncHandler(disableTwoFactor),
+);
+
+/**
+ * @swagger
+ * /v1/api/auth/2fa/recovery-codes:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Regenerate recovery codes
+ *     description: Replaces all recovery codes. Requires a current code from the authenticator app.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *     responses:
+ *       200:
+ *         description: New recovery codes
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     recoveryCodes:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *       400:
+ *         description: Invalid code or not enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  '/2fa/recovery-codes',
+  auth,
+  validate(twoFactorCodeSchema),
+  asyncHandler(regenerateRecoveryCodes),
+);
+
+/**
+ * @swagger
+ * /v1/api/auth/refresh:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Refresh access token
+ *     description: |
+ *       Exchange a refresh token for a new access token and refresh token.
+ *       Refresh tokens are single-use; presenting a token that was already
+ *       used revokes every token issued from the same login.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refreshToken
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *                 description: Refresh token received from login, register or a previous refresh
+ *               deviceId:
+ *                 type: string
+ *                 description: Identifier of the device the session belongs to
+ *     responses:
+ *       200:
+ *         description: Tokens refreshed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 token:
+ *                   type: string
+ *                   description: JWT access token
+ *                 refreshToken:
+ *                   type: string
+ *                   description: New opaque refresh token
+ *                 expiresIn:
+ *                   type: number
+ *                   description: Access token expiration time in seconds
+ *       400:
+ *         description: Invalid input data
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Invalid, expired, revoked or reused refresh token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  '/refresh',
+  validate(refreshTokenSchema),
+  asyncHandler(refreshToken),
+);
+
+/**
+ * @swagger
+ * /v1/api/auth/logout:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Logout user
+ *     description: Revoke the current session so its access and refresh tokens stop working
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Logout successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: "Logged out successfully"
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/logout', auth, asyncHandler(logout));
+
+/**
+ * @swagger
+ * /v1/api/auth/logout-all:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Logout from all devices
+ *     description: Revoke every active session of the current user, including the current one
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Logout successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: "Logged out from all devices successfully"
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/logout-all', auth, asyncHandler(logoutAll));
+
+/**
+ * @swagger
+ * /v1/api/auth/sessions:
+ *   get:
+ *     tags: [Auth]
+ *     summary: List active sessions
+ *     description: List every device the current user is signed in on
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active sessions, most recently used first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                         description: Session ID
+ *                       deviceName:
+ *                         type: string
+ *                         example: "Pixel 8"
+ *                       platform:
+ *                         type: string
+ *                         enum: [android, ios, web]
+ *                       ip:
+ *                         type: string
+ *                         example: "203.0.113.7"
+ *                       userAgent:
+ *                         type: string
+ *                       lastSeenAt:
+ *                         type: string
+ *                         format: date-time
+ *                       createdAt:
+ *                         type: string
+ *                         format: date-time
+ *                       current:
+ *                         type: boolean
+ *                         description: Whether this is the session making the request
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/sessions', auth, asyncHandler(listSessions));
+
+/**
+ * @swagger
+ * /v1/api/auth/sessions/{id}:
+ *   delete:
+ *     tags: [Auth]
+ *     summary: Revoke a session
+ *     description: Sign out one of the current user's devices and deactivate its push notification token
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Session ID
+ *     responses:
+ *       200:
+ *         description: Session revoked successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: "Session revoked successfully"
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Session not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete(
+  '/sessions/:id',
+  auth,
+  validate(sessionParamsSchema, 'params'),
+  asyncHandler(revokeSessionById),
+);
+
+/**
+ * @swagger
+ * /v1/api/auth/forgot-password:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Request password reset
+ *     description: Emails a single-use password reset link to the address. The response is the same whether or not an account exists for it.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 description: User's email address
+ *                 example: "john.doe@example.com"
+ *     responses:
+ *       200:
+ *         description: Request accepted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "If an account exists for this email, a password reset link has been sent"
+ *       400:
+ *         description: Invalid email
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         description: Too many password reset attempts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  '/forgot-password',
+  validate(passwordResetRequestSchema),
+  asyncHandler(forgotPassword),
+);
+
+/**
+ * @swagger
+ * /v1/api/auth/reset-password:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Reset password
+ *     description: Reset user password using the token from forgot password email. Every active session of the user is revoked.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - password
+ *               - confirmPassword
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 description: Password reset token received via email
+ *                 example: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
+ *               password:
+ *                 type: string
+ *                 minLength: 8
+ *                 pattern: ^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]{8,}$
+ *                 description: New password
+ *                 example: "NewStrongP@ss123"
+ *               confirmPassword:
+ *                 type: string
+ *                 description: Password confirmation must match password
+ *                 example: "NewStrongP@ss123"
+ *     responses:
+ *       200:
+ *         description: Password reset successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: "Password reset successful"
+ *       400:
+ *         description: Invalid input data
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Invalid or expired token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  '/reset-password',
+  validate(passwordResetSchema),
+  asyncHandler(resetPassword),
+);
+
+/**
+ * @swagger
+ * /v1/api/auth/update:
+ *   patch:
+ *     tags: [Auth]
+ *     summary: Update user profile
+ *     description: Update user's name and email
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 minLength: 2
+ *                 maxLength: 50
+ *                 description: User's full name
+ *                 example: "John Doe"
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 description: User's email address
+ *                 example: "john.doe@example.com"
+ *     responses:
+ *       200:
+ *         description: User profile updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     user:
+ *                       type: object
+ *                       properties:
+ *                         id:
+ *                           type: string
+ *                           description: User's ID
+ *                         email:
+ *                           type: string
+ *                           description: User's email
+ *                         name:
+ *                           type: string
+ *                           description: User's name
+ *                         role:
+ *                           type: string
+ *                           enum: [user, admin]
+ *                           description: User's role
+ *       400:
+ *         description: Invalid input data or email already in use
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.patch(
+  '/update',
+  auth,
+  validate(updateProfileSchema),
+  asyncHandler(updateUser),
+);
+
+/**
+ * @swagger
+ * /v1/api/auth/change-password:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Change password
+ *     description: Change the password of the current user. The new password must differ from the recent ones. Every other session is revoked and the user's devices are notified.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - currentPassword
+ *               - newPassword
+ *               - confirmNewPassword
+ *             properties:
+ *               currentPassword:
+ *                 type: string
+ *                 format: password
+ *                 description: The user's current password
+ *               newPassword:
+ *                 type: string
+ *                 format: password
+ *                 minLength: 8
+ *                 description: Must contain at least one uppercase letter, one lowercase letter, one number, and one special character
+ *                 example: "NewPassword123!"
+ *               confirmNewPassword:
+ *                 type: string
+ *                 format: password
+ *                 description: Must match newPassword
+ *                 example: "NewPassword123!"
+ *     responses:
+ *       200:
+ *         description: Password changed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Password changed successfully"
+ *       400:
+ *         description: Invalid input, wrong current password or a recently used new password
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  '/change-password',
+  auth,
+  validate(changePasswordSchema),
+  asyncHandler(changePassword),
+);
+
+/**
+ * @swagger
+ * /v1/api/auth/me:
+ *   delete:
+ *     tags: [Auth]
+ *     summary: Delete account
+ *     description: Schedules the account for deletion after a grace period (ACCOUNT_DELETION_GRACE_DAYS, default 30 days) and signs the user out everywhere. Signing in again before then cancels the deletion. Afterwards the account, its sessions, device tokens and notification preferences are purged and its uploads are anonymized.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               password:
+ *                 type: string
+ *                 format: password
+ *                 description: Required for accounts that have a password. Accounts without one must have signed in within the last ACCOUNT_DELETION_REAUTH_WINDOW seconds (default 300).
+ *     responses:
+ *       200:
+ *         description: Account scheduled for deletion
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Account scheduled for deletion"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     deletionScheduledFor:
+ *                       type: string
+ *                       format: date-time
+ *       400:
+ *         description: Wrong password
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Account without a password that did not sign in recently (REAUTHENTICATION_REQUIRED)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete(
+  '/me',
+  auth,
+  validate(deleteAccountSchema),
+  asyncHandler(deleteAccount),
+);
+
+/**
+ * @swagger
+ * /v1/api/auth/me/export:
+ *   get:
+ *     tags: [Auth]
+ *     summary: Export account data
+ *     description: Downloads a JSON file with everything stored about the user - profile, sessions, devices, notification preferences, subscription history, uploads, saved and liked wallpapers, recent activity and the account's audit log. Secrets such as password hashes and push tokens are left out.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Data export, sent as an attachment
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     exportedAt:
+ *                       type: string
+ *                       format: date-time
+ *                     profile:
+ *                       type: object
+ *                     sessions:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                     deviceTokens:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                     notificationPreferences:
+ *                       type: object
+ *                     subscriptions:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                     uploads:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                     savedWallpapers:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                     likedWallpapers:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           wallpaperId:
+ *                             type: string
+ *                           createdAt:
+ *                             type: string
+ *                             format: date-time
+ *                     activity:
+ *                       type: array
+ *                       description: Views, downloads, saves and likes of the last 30 days
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           wallpaperId:
+ *                             type: string
+ *                           type:
+ *                             type: string
+ *                             enum: [view, download, save, like]
+ *                           createdAt:
+ *                             type: string
+ *                             format: date-time
+ *                     auditLog:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *       401:
+ *         description: Unauthorized
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.patch('/update', auth, updateUser);
+router.get('/me/export', auth, asyncHandler(exportAccountData));
 
 export default router;
@@ -7,7 +7,15 @@ import {
   listCategories,
   updateCategory,
 } from '../controllers/category.controller';
-import { auth } from '../middlewares/auth.middleware';
+import { auth, requirePermission } from '../middlewares/auth.middleware';
+import { validate } from '../middlewares/validation.middleware';
+import { asyncHandler } from '../utils/asyncHandler';
+import {
+  categoryParamsSchema,
+  categoryQuerySchema,
+  createCategorySchema,
+  updateCategorySchema,
+} from '../validations/category.validation';
 
 const router = Router();
 
@@ -62,6 +70,23 @@ const router = Router();
  *   get:
  *     tags: [Categories]
  *     summary: List all categories
+ *     parameters:
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Full-text search on name and description
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           maximum: 100
  *     responses:
  *       200:
  *         description: List of categories
@@ -70,14 +95,27 @@ const router = Router();
  *             schema:
  *               type: object
  *               properties:
- *                 categories:
- *                   type: array
- *                   items:
- *                     $ref: '#/components/schemas/Category'
- *                 pagination:
- *                   $ref: '#/components/schemas/Pagination'
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     categories:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Category'
+ *                     total:
+ *                       type: number
+ *                     page:
+ *                       type: number
+ *                     totalPages:
+ *                       type: number
  */
-router.get('/', listCategories);
+router.get(
+  '/',
+  validate(categoryQuerySchema, 'query'),
+  asyncHandler(listCategories),
+);
 
 /**
  * @swagger
@@ -97,7 +135,6 @@ router.get('/', listCategories);
  *             required:
  *               - name
  *               - description
- *               - slug
  *             properties:
  *               name:
  *                 type: string
@@ -110,17 +147,18 @@ router.get('/', listCategories);
  *                 maxLength: 500
  *                 description: Category description
  *                 example: "Beautiful nature wallpapers"
- *               slug:
- *                 type: string
- *                 description: URL-friendly version of the category name
- *                 example: "nature"
  *     responses:
  *       201:
  *         description: Category created successfully
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/Category'
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Category'
  *       400:
  *         description: Invalid input data
  *         content:
@@ -133,6 +171,12 @@ router.get('/', listCategories);
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Missing category:manage permission
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       409:
  *         description: Category name already exists
  *         content:
@@ -140,7 +184,13 @@ router.get('/', listCategories);
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/', auth, createCategory);
+router.post(
+  '/',
+  auth,
+  requirePermission('category:manage'),
+  validate(createCategorySchema),
+  asyncHandler(createCategory),
+);
 
 /**
  * @swagger
@@ -161,7 +211,12 @@ router.post('/', auth, createCategory);
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/Category'
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Category'
  *       404:
  *         description: Category not found
  *         content:
@@ -169,7 +224,11 @@ router.post('/', auth, createCategory);
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/:id', getCategoryById);
+router.get(
+  '/:id',
+  validate(categoryParamsSchema, 'params'),
+  asyncHandler(getCategoryById),
+);
 
 /**
  * @swagger
@@ -190,7 +249,12 @@ router.get('/:id', getCategoryById);
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/Category'
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Category'
  *       404:
  *         description: Category not found
  *         content:
@@ -198,7 +262,7 @@ router.get('/:id', getCategoryById);
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/slug/:slug', getCategoryBySlug);
+router.get('/slug/:slug', asyncHandler(getCategoryBySlug));
 
 /**
  * @swagger
@@ -240,7 +304,12 @@ router.get('/slug/:slug', getCategoryBySlug);
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/Category'
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Category'
  *       400:
  *         description: Invalid input data
  *         content:
@@ -253,6 +322,12 @@ router.get('/slug/:slug', getCategoryBySlug);
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Missing category:manage permission
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: Category not found
  *         content:
@@ -266,7 +341,14 @@ router.get('/slug/:slug', getCategoryBySlug);
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.patch('/:id', auth, updateCategory);
+router.patch(
+  '/:id',
+  auth,
+  requirePermission('category:manage'),
+  validate(categoryParamsSchema, 'params'),
+  validate(updateCategorySchema),
+  asyncHandler(updateCategory),
+);
 
 /**
  * @swagger
@@ -292,6 +374,8 @@ router.patch('/:id', auth, updateCategory);
  *             schema:
  *               type: object
  *               properties:
+ *                 success:
+ *                   type: boolean
  *                 message:
  *                   type: string
  *                   example: "Category deleted successfully"
@@ -301,6 +385,12 @@ router.patch('/:id', auth, updateCategory);
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Missing category:manage permission
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: Category not found
  *         content:
@@ -308,6 +398,12 @@ router.patch('/:id', auth, updateCategory);
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.delete('/:id', auth, deleteCategory);
+router.delete(
+  '/:id',
+  auth,
+  requirePermission('category:manage'),
+  validate(categoryParamsSchema, 'params'),
+  asyncHandler(deleteCategory),
+);
 
 export default router;
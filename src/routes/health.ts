@@ -1,44 +1,86 @@
 import { Router } from 'express';
 import { getHealth, getMetrics } from '../controllers/health.controller';
+import { asyncHandler } from '../utils/asyncHandler';
 
 const router = Router();
 
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     HealthStatus:
+ *       type: string
+ *       enum: [healthy, degraded, unhealthy]
+ *     ReadinessReport:
+ *       type: object
+ *       properties:
+ *         status:
+ *           $ref: '#/components/schemas/HealthStatus'
+ *         timestamp:
+ *           type: string
+ *           format: date-time
+ *         checks:
+ *           type: object
+ *           additionalProperties:
+ *             $ref: '#/components/schemas/HealthStatus'
+ *           example:
+ *             database: healthy
+ *             storage: healthy
+ *             notifications: degraded
+ *             purchases: healthy
+ *     HealthReport:
+ *       type: object
+ *       properties:
+ *         status:
+ *           $ref: '#/components/schemas/HealthStatus'
+ *         version:
+ *           type: string
+ *         timestamp:
+ *           type: string
+ *           format: date-time
+ *         uptime:
+ *           type: number
+ *         checks:
+ *           type: object
+ *           additionalProperties:
+ *             $ref: '#/components/schemas/HealthCheckResult'
+ *     HealthCheckResult:
+ *       type: object
+ *       properties:
+ *         status:
+ *           $ref: '#/components/schemas/HealthStatus'
+ *         critical:
+ *           type: boolean
+ *           description: Whether this dependency being unhealthy makes the service unhealthy
+ *         durationMs:
+ *           type: number
+ *         message:
+ *           type: string
+ *           description: Why the check is degraded or unhealthy
+ */
+
 /**
  * @swagger
  * /v1/api/health:
  *   get:
  *     tags: [Health]
  *     summary: Get API health status
+ *     description: Detailed results of every dependency check (database, storage, notifications, purchases). Results are cached for HEALTH_CACHE_TTL seconds.
  *     responses:
  *       200:
- *         description: API health status
+ *         description: Healthy or degraded
  *         content:
  *           application/json:
  *             schema:
- *               type: object
- *               properties:
- *                 status:
- *                   type: string
- *                   enum: [healthy, unhealthy]
- *                 version:
- *                   type: string
- *                 timestamp:
- *                   type: string
- *                   format: date-time
- *                 services:
- *                   type: object
- *                   properties:
- *                     database:
- *                       type: string
- *                       enum: [healthy, unhealthy]
- *                     storage:
- *                       type: string
- *                       enum: [healthy, unhealthy]
- *                     cache:
- *                       type: string
- *                       enum: [healthy, unhealthy]
+ *               $ref: '#/components/schemas/HealthReport'
+ *       503:
+ *         description: A critical dependency is unhealthy
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/HealthReport'
  */
-router.get('/', getHealth);
+router.get('/', asyncHandler(getHealth));
 
 /**
  * @swagger
@@ -46,6 +88,7 @@ router.get('/', getHealth);
  *   get:
  *     tags: [Health]
  *     summary: Get API metrics
+ *     description: Request totals and response times since the instance started, from the same data as the Prometheus endpoint (/metrics). Percentiles are estimated from histogram buckets.
  *     responses:
  *       200:
  *         description: API metrics
@@ -55,9 +98,11 @@ router.get('/', getHealth);
  *               type: object
  *               properties:
  *                 uptime:
- *                   type: string
+ *                   type: number
+ *                   description: Process uptime in seconds
  *                 responseTime:
  *                   type: object
+ *                   description: Response times in milliseconds
  *                   properties:
  *                     avg:
  *                       type: number
@@ -72,8 +117,10 @@ router.get('/', getHealth);
  *                       type: number
  *                     successful:
  *                       type: number
+ *                       description: Responses with a status below 400
  *                     failed:
  *                       type: number
+ *                       description: Responses with a 4xx or 5xx status
  *                 resources:
  *                   type: object
  *                   properties:
@@ -99,6 +146,6 @@ router.get('/', getHealth);
  *                         total:
  *                           type: string
  */
-router.get('/metrics', getMetrics);
+router.get('/metrics', asyncHandler(getMetrics));
 
 export default router;
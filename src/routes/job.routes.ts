@@ -0,0 +1,53 @@
+import { Router } from 'express';
+import { runJob } from '../controllers/job.controller';
+import { cronAuth } from '../middlewares/cronAuth';
+import { asyncHandler } from '../utils/asyncHandler';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /v1/api/jobs/{name}:
+ *   get:
+ *     tags: [Jobs]
+ *     summary: Run a scheduled job
+ *     description: Called by the scheduler (Vercel Cron) with CRON_SECRET as bearer token. Available jobs - protect-paid-wallpapers, purge-deleted-accounts, rollup-trending.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: "purge-deleted-accounts"
+ *     responses:
+ *       200:
+ *         description: Job finished
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   example: { "purged": 3, "failed": 0 }
+ *       401:
+ *         description: Missing or invalid cron secret
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Unknown job
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:name', cronAuth, asyncHandler(runJob));
+
+export default router;
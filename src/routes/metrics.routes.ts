@@ -0,0 +1,41 @@
+import { Router } from 'express';
+import config from '../config';
+import { getPrometheusMetrics } from '../controllers/health.controller';
+import { requireBearerSecret } from '../middlewares/bearerSecret';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /metrics:
+ *   get:
+ *     tags: [Health]
+ *     summary: Prometheus metrics
+ *     description: Request counts and latency histograms by method, route template and status, plus upload, download, subscription verification, webhook and push notification counters, in the Prometheus text format. Counters are per instance and reset on restart. Authenticated with METRICS_TOKEN as bearer token instead of an API key; without METRICS_TOKEN the endpoint rejects every request.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Metrics in the Prometheus text exposition format
+ *         content:
+ *           text/plain:
+ *             schema:
+ *               type: string
+ *               example: |
+ *                 # HELP http_requests_total HTTP requests handled
+ *                 # TYPE http_requests_total counter
+ *                 http_requests_total{method="GET",route="/v1/api/wallpapers/:id",status="200",client="android-app"} 42
+ *       401:
+ *         description: Missing or invalid metrics token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  '/',
+  requireBearerSecret(() => config.metricsToken, 'Invalid metrics token'),
+  getPrometheusMetrics,
+);
+
+export default router;
@@ -6,6 +6,7 @@ import {
 } from '../controllers/notification.controller';
 import { auth } from '../middlewares/auth.middleware';
 import { validate } from '../middlewares/validation.middleware';
+import { asyncHandler } from '../utils/asyncHandler';
 import {
   deviceTokenSchema,
   unregisterTokenSchema,
@@ -83,7 +84,7 @@ router.post(
   '/register',
   auth,
   validate(deviceTokenSchema),
-  registerDeviceToken,
+  asyncHandler(registerDeviceToken),
 );
 
 /**
@@ -145,7 +146,7 @@ router.post(
   '/unregister',
   auth,
   validate(unregisterTokenSchema),
-  unregisterDeviceToken,
+  asyncHandler(unregisterDeviceToken),
 );
 
 /**
@@ -193,7 +194,7 @@ router.post(
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/tokens', auth, getUserDeviceTokens);
+router.get('/tokens', auth, asyncHandler(getUserDeviceTokens));
 
 /**
  * @swagger
@@ -251,7 +252,7 @@ router.delete(
   '/tokens',
   auth,
   validate(unregisterTokenSchema),
-  unregisterDeviceToken,
+  asyncHandler(unregisterDeviceToken),
 );
 
 export default router;
@@ -0,0 +1,69 @@
+import { Router } from 'express';
+import { getLiveness, getReadiness } from '../controllers/health.controller';
+import { asyncHandler } from '../utils/asyncHandler';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /health/live:
+ *   get:
+ *     tags: [Health]
+ *     summary: Liveness probe
+ *     description: Succeeds while the process is up, without checking any dependency. Also served at /health. Needs no API key.
+ *     responses:
+ *       200:
+ *         description: The process is alive
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: ok
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *                 uptime:
+ *                   type: number
+ *                   description: Process uptime in seconds
+ *                 memory:
+ *                   type: object
+ *                   description: Process memory usage in bytes
+ *                   properties:
+ *                     rss:
+ *                       type: number
+ *                     heapTotal:
+ *                       type: number
+ *                     heapUsed:
+ *                       type: number
+ *                     external:
+ *                       type: number
+ */
+router.get(['/', '/live'], getLiveness);
+
+/**
+ * @swagger
+ * /health/ready:
+ *   get:
+ *     tags: [Health]
+ *     summary: Readiness probe
+ *     description: Reports whether the instance can take traffic. Fails only when a critical dependency (the database) is down; other failing dependencies make it degraded. Results are cached for HEALTH_CACHE_TTL seconds. Needs no API key.
+ *     responses:
+ *       200:
+ *         description: Ready (healthy or degraded)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ReadinessReport'
+ *       503:
+ *         description: Not ready, a critical dependency is unhealthy
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ReadinessReport'
+ */
+router.get('/ready', asyncHandler(getReadiness));
+
+export default router;
@@ -6,8 +6,9 @@ import {
   handleSubscriptionWebhook,
   verifyAndSaveSubscription,
 } from '../controllers/subscription.controller';
-import { auth } from '../middlewares/auth.middleware';
+import { auth, requireVerifiedEmail } from '../middlewares/auth.middleware';
 import { validate } from '../middlewares/validation.middleware';
+import { asyncHandler } from '../utils/asyncHandler';
 import { subscriptionSchema } from '../validations/subscription.validation';
 
 const router = Router();
@@ -40,7 +41,7 @@ const router = Router();
  *       500:
  *         description: Error processing webhook
  */
-router.post('/webhook', handleSubscriptionWebhook);
+router.post('/webhook', asyncHandler(handleSubscriptionWebhook));
 
 /**
  * @swagger
@@ -87,12 +88,15 @@ router.post('/webhook', handleSubscriptionWebhook);
  *         description: Invalid subscription data
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Email address not verified
  */
 router.post(
   '/verify',
   auth,
+  requireVerifiedEmail,
   validate(subscriptionSchema),
-  verifyAndSaveSubscription,
+  asyncHandler(verifyAndSaveSubscription),
 );
 
 /**
@@ -128,7 +132,7 @@ router.post(
  *       401:
  *         description: Unauthorized
  */
-router.get('/status', auth, getSubscriptionStatus);
+router.get('/status', auth, asyncHandler(getSubscriptionStatus));
 
 /**
  * @swagger
@@ -156,7 +160,7 @@ router.get('/status', auth, getSubscriptionStatus);
  *       404:
  *         description: No active subscription found
  */
-router.delete('/', auth, cancelSubscription);
+router.delete('/', auth, asyncHandler(cancelSubscription));
 
 /**
  * @swagger
@@ -184,7 +188,7 @@ router.delete('/', auth, cancelSubscription);
  *       401:
  *         description: Unauthorized
  */
-router.get('/history', auth, getSubscriptionHistory);
+router.get('/history', auth, asyncHandler(getSubscriptionHistory));
 
 /**
  * @swagger
@@ -1,39 +1,49 @@
-import { Request, Response, Router } from 'express';
+import { Router } from 'express';
+import config from '../config';
 import {
   deleteWallpaper,
+  downloadWallpaper,
+  getCreatorDashboard,
   getMostDownloadedWallpapers,
   getPopularWallpapers,
   getSavedWallpapers,
+  getSimilarWallpapers,
+  getTrendingWallpapers,
   getWallpaperById,
   getWallpaperCategories,
   getWallpaperStats,
+  likeWallpaper,
   listWallpapers,
+  recordView,
   saveWallpaper,
   searchWallpapers,
+  unlikeWallpaper,
   unsaveWallpaper,
   updateWallpaper,
   uploadWallpaper,
 } from '../controllers/wallpaper.controller';
-import { auth } from '../middlewares/auth.middleware';
+import {
+  auth,
+  optionalAuth,
+  requirePermission,
+  requireVerifiedEmail,
+} from '../middlewares/auth.middleware';
+import { rateLimit } from '../middlewares/rateLimit';
 import upload from '../middlewares/upload.middleware';
 import { validate } from '../middlewares/validation.middleware';
+import { asyncHandler } from '../utils/asyncHandler';
 import {
   limitQuerySchema,
   searchQuerySchema,
+  similarQuerySchema,
+  statsQuerySchema,
+  trendingQuerySchema,
+  updateWallpaperSchema,
   uploadWallpaperSchema,
   wallpaperParamsSchema,
   wallpaperQuerySchema,
 } from '../validations/wallpaper.validation';
 
-interface WallpaperRequestBody {
-  title?: string;
-  description?: string;
-  category?: string;
-  tags?: string[];
-  isPremium?: boolean;
-  subscriptionTier?: 'free' | 'basic' | 'premium';
-}
-
 const router = Router();
 
 /**
@@ -102,51 +112,20 @@ const router = Router();
  *                     totalPages:
  *                       type: number
  */
-router.get('/', validate(wallpaperQuerySchema), listWallpapers);
-
-/**
- * @swagger
- * /v1/api/wallpapers/{wallpaperId}:
- *   get:
- *     tags: [Wallpapers]
- *     summary: Get wallpaper by ID
- *     parameters:
- *       - in: path
- *         name: wallpaperId
- *         required: true
- *         schema:
- *           type: string
- *         description: Wallpaper ID
- *     responses:
- *       200:
- *         description: Wallpaper details
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Wallpaper'
- *       404:
- *         description: Wallpaper not found
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Error'
- */
 router.get(
-  '/:wallpaperId',
-  validate(wallpaperParamsSchema),
-  (req: Request<{ id: string }>, res: Response) => {
-    getWallpaperById(req, res);
-  },
+  '/',
+  optionalAuth,
+  validate(wallpaperQuerySchema, 'query'),
+  asyncHandler(listWallpapers),
 );
 
-
 /**
  * @swagger
  * /v1/api/wallpapers:
  *   post:
  *     tags: [Wallpapers]
  *     summary: Upload a new wallpaper
- *     description: Upload a new wallpaper with metadata
+ *     description: Upload a new wallpaper with metadata. Requires the wallpaper:upload permission (creator and admin roles).
  *     security:
  *       - bearerAuth: []
  *     requestBody:
@@ -158,12 +137,14 @@ router.get(
  *             required:
  *               - file
  *               - title
- *               - categoryId
+ *               - description
+ *               - category
+ *               - tags
  *             properties:
  *               file:
  *                 type: string
  *                 format: binary
- *                 description: Wallpaper image file (JPG, PNG, WEBP)
+ *                 description: Wallpaper image file (JPG, PNG, WEBP, max 10MB)
  *               title:
  *                 type: string
  *                 minLength: 3
@@ -171,16 +152,21 @@ router.get(
  *                 description: Wallpaper title
  *               description:
  *                 type: string
- *                 maxLength: 1000
+ *                 minLength: 10
+ *                 maxLength: 500
  *                 description: Wallpaper description
- *               categoryId:
+ *               category:
  *                 type: string
- *                 description: Category ID
+ *                 description: Category name
  *               tags:
- *                 type: array
- *                 items:
- *                   type: string
- *                 description: Array of tags
+ *                 type: string
+ *                 description: JSON array or comma-separated list of 1-10 tags
+ *                 example: nature,mountains
+ *               isPremium:
+ *                 type: boolean
+ *               subscriptionTier:
+ *                 type: string
+ *                 enum: [free, basic, premium]
  *     responses:
  *       201:
  *         description: Wallpaper uploaded successfully
@@ -200,59 +186,34 @@ router.get(
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
- *       413:
- *         description: File too large
+ *       403:
+ *         description: Missing wallpaper:upload permission or email address not verified
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
- */
-router.post(
-  '/',
-  auth,
-  upload.single('file'),
-  validate(uploadWallpaperSchema),
-  uploadWallpaper,
-);
-
-/**
- * @swagger
- * /v1/api/wallpapers/{id}:
- *   get:
- *     tags: [Wallpapers]
- *     summary: Get wallpaper by ID
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *         description: Wallpaper ID
- *     responses:
- *       200:
- *         description: Wallpaper details
+ *       413:
+ *         description: File too large
  *         content:
  *           application/json:
  *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                 data:
- *                   $ref: '#/components/schemas/Wallpaper'
- *       404:
- *         description: Wallpaper not found
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         description: Upload limit of the user's subscription tier reached
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get(
-  '/:id',
-  validate(wallpaperParamsSchema),
-  (req: Request<{ id: string }>, res: Response) => {
-    getWallpaperById(req, res);
-  },
+router.post(
+  '/',
+  auth,
+  requireVerifiedEmail,
+  requirePermission('wallpaper:upload'),
+  rateLimit('upload', config.rateLimits.upload),
+  upload.single('file'),
+  validate(uploadWallpaperSchema),
+  asyncHandler(uploadWallpaper),
 );
 
 /**
@@ -261,7 +222,7 @@ router.get(
  *   delete:
  *     tags: [Wallpapers]
  *     summary: Delete wallpaper
- *     description: Delete a wallpaper by ID
+ *     description: Delete a wallpaper by ID. Uploaders can delete their own wallpapers; the wallpaper:delete:any permission allows deleting any.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -288,6 +249,12 @@ router.get(
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Not authorized to delete this wallpaper
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: Wallpaper not found
  *         content:
@@ -298,10 +265,8 @@ router.get(
 router.delete(
   '/:id',
   auth,
-  validate(wallpaperParamsSchema),
-  (req: Request<{ id: string }>, res: Response) => {
-    deleteWallpaper(req, res);
-  },
+  validate(wallpaperParamsSchema, 'params'),
+  asyncHandler(deleteWallpaper),
 );
 
 /**
@@ -347,7 +312,12 @@ router.delete(
  *                 pagination:
  *                   $ref: '#/components/schemas/Pagination'
  */
-router.get('/search', validate(searchQuerySchema), searchWallpapers);
+router.get(
+  '/search',
+  optionalAuth,
+  validate(searchQuerySchema, 'query'),
+  asyncHandler(searchWallpapers),
+);
 
 /**
  * @swagger
@@ -378,7 +348,62 @@ router.get('/search', validate(searchQuerySchema), searchWallpapers);
  *                   items:
  *                     $ref: '#/components/schemas/Wallpaper'
  */
-router.get('/popular', validate(limitQuerySchema), getPopularWallpapers);
+router.get(
+  '/popular',
+  optionalAuth,
+  validate(limitQuerySchema, 'query'),
+  asyncHandler(getPopularWallpapers),
+);
+
+/**
+ * @swagger
+ * /v1/api/wallpapers/trending:
+ *   get:
+ *     tags: [Wallpapers]
+ *     summary: Get trending wallpapers
+ *     description: Wallpapers with the most recent views, downloads, saves and likes in the timeframe, where recent activity weighs more than older activity. Rankings are recomputed hourly, so new activity shows up with a delay.
+ *     parameters:
+ *       - in: query
+ *         name: timeframe
+ *         schema:
+ *           type: string
+ *           enum: [day, week, month]
+ *           default: week
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           minimum: 1
+ *           maximum: 100
+ *         description: Number of wallpapers to return
+ *     responses:
+ *       200:
+ *         description: Trending wallpapers, best first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Wallpaper'
+ *       400:
+ *         description: Invalid timeframe or limit
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  '/trending',
+  optionalAuth,
+  validate(trendingQuerySchema, 'query'),
+  asyncHandler(getTrendingWallpapers),
+);
 
 /**
  * @swagger
@@ -411,8 +436,9 @@ router.get('/popular', validate(limitQuerySchema), getPopularWallpapers);
  */
 router.get(
   '/most-downloaded',
-  validate(limitQuerySchema),
-  getMostDownloadedWallpapers,
+  optionalAuth,
+  validate(limitQuerySchema, 'query'),
+  asyncHandler(getMostDownloadedWallpapers),
 );
 
 /**
@@ -440,7 +466,88 @@ router.get(
  *       401:
  *         description: Unauthorized
  */
-router.get('/saved', auth, getSavedWallpapers);
+router.get('/saved', auth, asyncHandler(getSavedWallpapers));
+
+/**
+ * @swagger
+ * /v1/api/wallpapers/dashboard:
+ *   get:
+ *     tags: [Wallpapers]
+ *     summary: Get the creator dashboard
+ *     description: Statistics across all wallpapers the signed in user uploaded - lifetime counters, activity per period of the range and the five wallpapers with the most views in the range.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/StatsFrom'
+ *       - $ref: '#/components/parameters/StatsTo'
+ *       - $ref: '#/components/parameters/StatsGranularity'
+ *       - $ref: '#/components/parameters/StatsTimezone'
+ *     responses:
+ *       200:
+ *         description: Creator statistics
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   allOf:
+ *                     - type: object
+ *                       properties:
+ *                         wallpaperCount:
+ *                           type: number
+ *                         lifetime:
+ *                           type: object
+ *                           properties:
+ *                             views:
+ *                               type: number
+ *                             downloads:
+ *                               type: number
+ *                             saves:
+ *                               type: number
+ *                             likes:
+ *                               type: number
+ *                         topWallpapers:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               id:
+ *                                 type: string
+ *                               title:
+ *                                 type: string
+ *                               thumbnailUrl:
+ *                                 type: string
+ *                               views:
+ *                                 type: number
+ *                               downloads:
+ *                                 type: number
+ *                               saves:
+ *                                 type: number
+ *                               likes:
+ *                                 type: number
+ *                     - $ref: '#/components/schemas/EngagementStats'
+ *       400:
+ *         description: Invalid range, granularity or timezone
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  '/dashboard',
+  auth,
+  validate(statsQuerySchema, 'query'),
+  asyncHandler(getCreatorDashboard),
+);
 
 /**
  * @swagger
@@ -491,10 +598,8 @@ router.get('/saved', auth, getSavedWallpapers);
 router.post(
   '/:id/save',
   auth,
-  validate(wallpaperParamsSchema),
-  (req: Request<{ id: string }>, res: Response) => {
-    saveWallpaper(req, res);
-  },
+  validate(wallpaperParamsSchema, 'params'),
+  asyncHandler(saveWallpaper),
 );
 
 /**
@@ -540,10 +645,231 @@ router.post(
 router.delete(
   '/:id/save',
   auth,
-  validate(wallpaperParamsSchema),
-  (req: Request<{ id: string }>, res: Response) => {
-    unsaveWallpaper(req, res);
-  },
+  validate(wallpaperParamsSchema, 'params'),
+  asyncHandler(unsaveWallpaper),
+);
+
+/**
+ * @swagger
+ * components:
+ *   parameters:
+ *     DeviceId:
+ *       in: header
+ *       name: X-Device-Id
+ *       schema:
+ *         type: string
+ *         pattern: '^[\w.:-]{1,128}$'
+ *       description: Stable identifier of the app install, used to ignore repeats from anonymous callers. Without it (or a bearer token) repeats are recognized by IP address.
+ *   schemas:
+ *     LikeStatus:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *         data:
+ *           type: object
+ *           properties:
+ *             isLikedByMe:
+ *               type: boolean
+ *             likes:
+ *               type: number
+ *               description: The wallpaper's like count after the change
+ */
+
+/**
+ * @swagger
+ * /v1/api/wallpapers/{id}/like:
+ *   post:
+ *     tags: [Wallpapers]
+ *     summary: Like wallpaper
+ *     description: Idempotent; liking a wallpaper the user already likes changes nothing.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Wallpaper ID
+ *     responses:
+ *       200:
+ *         description: Wallpaper liked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LikeStatus'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Wallpaper not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *   delete:
+ *     tags: [Wallpapers]
+ *     summary: Unlike wallpaper
+ *     description: Idempotent; unliking a wallpaper the user doesn't like changes nothing.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Wallpaper ID
+ *     responses:
+ *       200:
+ *         description: Wallpaper unliked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LikeStatus'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Wallpaper not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  '/:id/like',
+  auth,
+  validate(wallpaperParamsSchema, 'params'),
+  asyncHandler(likeWallpaper),
+);
+
+router.delete(
+  '/:id/like',
+  auth,
+  validate(wallpaperParamsSchema, 'params'),
+  asyncHandler(unlikeWallpaper),
+);
+
+/**
+ * @swagger
+ * /v1/api/wallpapers/{id}/view:
+ *   post:
+ *     tags: [Wallpapers]
+ *     summary: Record a view
+ *     description: Counts a view of the wallpaper. Repeat views by the same user, device or IP address within ENGAGEMENT_DEDUPE_WINDOW seconds are not counted. Authentication is optional.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Wallpaper ID
+ *       - $ref: '#/components/parameters/DeviceId'
+ *     responses:
+ *       200:
+ *         description: View recorded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     counted:
+ *                       type: boolean
+ *                       description: False when the view was a repeat
+ *                     views:
+ *                       type: number
+ *       404:
+ *         description: Wallpaper not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  '/:id/view',
+  optionalAuth,
+  validate(wallpaperParamsSchema, 'params'),
+  asyncHandler(recordView),
+);
+
+/**
+ * @swagger
+ * /v1/api/wallpapers/{id}/download:
+ *   post:
+ *     tags: [Wallpapers]
+ *     summary: Download wallpaper
+ *     description: Returns a signed URL to the full resolution image, valid for DOWNLOAD_URL_TTL seconds, and counts the download. Wallpapers above the free tier need a subscription of at least their tier; free wallpapers can be downloaded without authentication. Repeat downloads by the same user, device or IP address within ENGAGEMENT_DEDUPE_WINDOW seconds are not counted.
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Wallpaper ID
+ *       - $ref: '#/components/parameters/DeviceId'
+ *     responses:
+ *       200:
+ *         description: Download URL
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     downloadUrl:
+ *                       type: string
+ *                     expiresAt:
+ *                       type: string
+ *                       format: date-time
+ *                     counted:
+ *                       type: boolean
+ *                       description: False when the download was a repeat
+ *                     downloads:
+ *                       type: number
+ *       401:
+ *         description: The wallpaper needs a subscription and the caller isn't authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: The caller's subscription doesn't cover the wallpaper's tier (SUBSCRIPTION_REQUIRED)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Wallpaper not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  '/:id/download',
+  optionalAuth,
+  validate(wallpaperParamsSchema, 'params'),
+  asyncHandler(downloadWallpaper),
 );
 
 /**
@@ -565,60 +891,254 @@ router.delete(
  *                   items:
  *                     $ref: '#/components/schemas/Category'
  */
-router.get('/categories', getWallpaperCategories);
+router.get('/categories', asyncHandler(getWallpaperCategories));
 
 /**
  * @swagger
- * /v1/api/wallpapers/{wallpaperId}/stats:
+ * /v1/api/wallpapers/{id}:
  *   get:
  *     tags: [Wallpapers]
- *     summary: Get wallpaper statistics
+ *     summary: Get wallpaper by ID
  *     parameters:
  *       - in: path
- *         name: wallpaperId
+ *         name: id
  *         required: true
  *         schema:
  *           type: string
  *         description: Wallpaper ID
  *     responses:
  *       200:
- *         description: Wallpaper statistics
+ *         description: Wallpaper details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Wallpaper'
+ *       404:
+ *         description: Wallpaper not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  '/:id',
+  optionalAuth,
+  validate(wallpaperParamsSchema, 'params'),
+  asyncHandler(getWallpaperById),
+);
+
+/**
+ * @swagger
+ * components:
+ *   parameters:
+ *     StatsFrom:
+ *       in: query
+ *       name: from
+ *       schema:
+ *         type: string
+ *         format: date-time
+ *       description: Start of the range (default - 30 days before to)
+ *     StatsTo:
+ *       in: query
+ *       name: to
+ *       schema:
+ *         type: string
+ *         format: date-time
+ *       description: End of the range, exclusive (default - now). At most 31 days after from for hourly and 366 days for daily or weekly statistics.
+ *     StatsGranularity:
+ *       in: query
+ *       name: granularity
+ *       schema:
+ *         type: string
+ *         enum: [hour, day, week]
+ *         default: day
+ *     StatsTimezone:
+ *       in: query
+ *       name: timezone
+ *       schema:
+ *         type: string
+ *         default: UTC
+ *         example: Europe/Berlin
+ *       description: IANA timezone the days and weeks (starting on Monday) begin in
+ *   schemas:
+ *     EngagementCounts:
+ *       type: object
+ *       properties:
+ *         views:
+ *           type: number
+ *         downloads:
+ *           type: number
+ *         saves:
+ *           type: number
+ *         likes:
+ *           type: number
+ *         uniqueUsers:
+ *           type: number
+ *           description: Signed in users with any activity; anonymous views are not included
+ *     EngagementStats:
+ *       type: object
+ *       properties:
+ *         from:
+ *           type: string
+ *           format: date-time
+ *         to:
+ *           type: string
+ *           format: date-time
+ *         granularity:
+ *           type: string
+ *           enum: [hour, day, week]
+ *         timezone:
+ *           type: string
+ *         totals:
+ *           $ref: '#/components/schemas/EngagementCounts'
+ *         buckets:
+ *           type: array
+ *           description: One entry per period with activity, oldest first
+ *           items:
+ *             allOf:
+ *               - type: object
+ *                 properties:
+ *                   date:
+ *                     type: string
+ *                     format: date-time
+ *                     description: Start of the period
+ *               - $ref: '#/components/schemas/EngagementCounts'
+ */
+
+/**
+ * @swagger
+ * /v1/api/wallpapers/{id}/similar:
+ *   get:
+ *     tags: [Wallpapers]
+ *     summary: Get similar wallpapers
+ *     description: Wallpapers scored by the tags they share with this one (rare tags count more), the same category, how close their dominant colours are and how often users who saved this wallpaper also saved them. Only wallpapers the caller's subscription gives access to are returned. Authentication is optional.
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Wallpaper ID
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           minimum: 1
+ *           maximum: 100
+ *         description: Number of wallpapers to return
+ *       - in: query
+ *         name: similarityThreshold
+ *         schema:
+ *           type: number
+ *           default: 0.7
+ *           minimum: 0
+ *           maximum: 1
+ *         description: Minimum similarity score
+ *     responses:
+ *       200:
+ *         description: Similar wallpapers, most similar first
  *         content:
  *           application/json:
  *             schema:
  *               type: object
  *               properties:
- *                 downloads:
- *                   type: number
- *                 likes:
- *                   type: number
- *                 views:
- *                   type: number
- *                 saves:
- *                   type: number
- *                 dailyStats:
+ *                 success:
+ *                   type: boolean
+ *                 data:
  *                   type: array
  *                   items:
- *                     type: object
- *                     properties:
- *                       date:
- *                         type: string
- *                         format: date
- *                       downloads:
- *                         type: number
- *                       views:
- *                         type: number
- *                       likes:
- *                         type: number
+ *                     allOf:
+ *                       - $ref: '#/components/schemas/Wallpaper'
+ *                       - type: object
+ *                         properties:
+ *                           similarity:
+ *                             type: number
+ *                             example: 0.82
+ *       400:
+ *         description: Invalid limit or similarity threshold
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Wallpaper not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  '/:id/similar',
+  optionalAuth,
+  validate(wallpaperParamsSchema, 'params'),
+  validate(similarQuerySchema, 'query'),
+  asyncHandler(getSimilarWallpapers),
+);
+
+/**
+ * @swagger
+ * /v1/api/wallpapers/{id}/stats:
+ *   get:
+ *     tags: [Wallpapers]
+ *     summary: Get wallpaper statistics
+ *     description: Lifetime counters plus views, downloads, saves, likes and unique users per hour, day or week of the range.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Wallpaper ID
+ *       - $ref: '#/components/parameters/StatsFrom'
+ *       - $ref: '#/components/parameters/StatsTo'
+ *       - $ref: '#/components/parameters/StatsGranularity'
+ *       - $ref: '#/components/parameters/StatsTimezone'
+ *     responses:
+ *       200:
+ *         description: Wallpaper statistics
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   allOf:
+ *                     - type: object
+ *                       properties:
+ *                         downloads:
+ *                           type: number
+ *                         likes:
+ *                           type: number
+ *                         views:
+ *                           type: number
+ *                         saves:
+ *                           type: number
+ *                     - $ref: '#/components/schemas/EngagementStats'
+ *       400:
+ *         description: Invalid range, granularity or timezone
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: Wallpaper not found
  */
 router.get(
   '/:id/stats',
-  validate(wallpaperParamsSchema),
-  (req: Request<{ id: string }>, res: Response) => {
-    getWallpaperStats(req, res);
-  },
+  validate(wallpaperParamsSchema, 'params'),
+  validate(statsQuerySchema, 'query'),
+  asyncHandler(getWallpaperStats),
 );
 
 /**
@@ -677,20 +1197,16 @@ router.get(
  *       401:
  *         description: Unauthorized
  *       403:
- *         description: Forbidden - Not authorized to update this wallpaper
+ *         description: Forbidden - Not the uploader and no wallpaper:update:any permission
  *       404:
  *         description: Wallpaper not found
  */
 router.patch(
   '/:id',
   auth,
-  validate(wallpaperParamsSchema),
-  (
-    req: Request<{ id: string }, unknown, WallpaperRequestBody>,
-    res: Response,
-  ) => {
-    updateWallpaper(req, res);
-  },
+  validate(wallpaperParamsSchema, 'params'),
+  validate(updateWallpaperSchema),
+  asyncHandler(updateWallpaper),
 );
 
 export default router;
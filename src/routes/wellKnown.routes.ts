@@ -0,0 +1,46 @@
+import { Router } from 'express';
+import { getJwks } from '../controllers/wellKnown.controller';
+import { asyncHandler } from '../utils/asyncHandler';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /.well-known/jwks.json:
+ *   get:
+ *     tags: [Auth]
+ *     summary: Get token signing keys
+ *     description: |
+ *       JSON Web Key Set with the public keys access tokens are signed with.
+ *       Other services can use it to verify tokens issued by this API; match
+ *       the `kid` header of a token with the key of the same id. Only
+ *       asymmetric (RS256/ES256) keys are published.
+ *     responses:
+ *       200:
+ *         description: JSON Web Key Set
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 keys:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       kid:
+ *                         type: string
+ *                         example: "2024-06"
+ *                       kty:
+ *                         type: string
+ *                         example: "RSA"
+ *                       alg:
+ *                         type: string
+ *                         enum: [RS256, ES256]
+ *                       use:
+ *                         type: string
+ *                         example: "sig"
+ */
+router.get('/jwks.json', asyncHandler(getJwks));
+
+export default router;
@@ -0,0 +1,147 @@
+import config from '../config';
+import { DeviceToken } from '../models/deviceToken.model';
+import { EngagementEvent } from '../models/engagementEvent.model';
+import { Like } from '../models/like.model';
+import { NotificationPreferences } from '../models/notificationPreferences.model';
+import { RefreshToken } from '../models/refreshToken.model';
+import { Session } from '../models/session.model';
+import { IUser, User } from '../models/user.model';
+import { Wallpaper } from '../models/wallpaper.model';
+import { WallpaperStatBucket } from '../models/wallpaperStatBucket.model';
+import { accountDeletionScheduledEmail } from '../templates/mail.templates';
+import logger from '../utils/logger';
+import { loginThrottleService } from './loginThrottle.service';
+import { mailService } from './mail.service';
+import { tokenService } from './token.service';
+
+// Deleting an account only schedules it. The user is signed out everywhere
+// and can still change their mind by signing in during the grace period;
+// after that a scheduled job purges the account for good.
+class AccountDeletionService {
+  private static instance: AccountDeletionService;
+
+  private constructor() {}
+
+  public static getInstance(): AccountDeletionService {
+    if (!AccountDeletionService.instance) {
+      AccountDeletionService.instance = new AccountDeletionService();
+    }
+    return AccountDeletionService.instance;
+  }
+
+  public async scheduleDeletion(user: IUser): Promise<Date> {
+    const now = new Date();
+    const scheduledFor = new Date(
+      now.getTime() + config.accountDeletion.gracePeriodDays * 86400 * 1000,
+    );
+
+    user.deletionRequestedAt = now;
+    user.deletionScheduledFor = scheduledFor;
+    await user.save();
+    await tokenService.revokeAllSessions(user._id, 'user_deleted');
+
+    try {
+      await mailService.send({
+        to: user.email,
+        ...accountDeletionScheduledEmail(
+          user.name,
+          `${config.clientUrl}/login`,
+          scheduledFor,
+        ),
+      });
+    } catch (error) {
+      logger.error('Error sending account deletion email:', error);
+    }
+
+    return scheduledFor;
+  }
+
+  public async cancelDeletion(user: IUser): Promise<void> {
+    user.deletionRequestedAt = undefined;
+    user.deletionScheduledFor = undefined;
+    await user.save();
+  }
+
+  // Removes everything tied to the user. Subscriptions are kept as purchase
+  // records; without the user they no longer point to a person. Safe to run
+  // again after a partial failure: saves and likes are removed before the
+  // counters they added to are decremented, and only for what was removed,
+  // so a retry never decrements twice.
+  public async purgeUser(user: IUser): Promise<void> {
+    const userId = user._id;
+
+    // Returns the list as it was before clearing it, so only saves removed
+    // here are decremented
+    const saved = await User.findOneAndUpdate(
+      { _id: userId },
+      { $set: { savedWallpapers: [] } },
+    ).select('savedWallpapers');
+    if (saved && saved.savedWallpapers.length > 0) {
+      await Wallpaper.updateMany(
+        { _id: { $in: saved.savedWallpapers }, saves: { $gt: 0 } },
+        { $inc: { saves: -1 } },
+      );
+    }
+
+    let like;
+    while ((like = await Like.findOneAndDelete({ userId }))) {
+      await Wallpaper.updateOne(
+        { _id: like.wallpaperId, likes: { $gt: 0 } },
+        { $inc: { likes: -1 } },
+      );
+    }
+
+    const { reassignUploadsTo } = config.accountDeletion;
+    await Wallpaper.updateMany(
+      { uploadedBy: userId },
+      reassignUploadsTo
+        ? { $set: { uploadedBy: reassignUploadsTo } }
+        : { $unset: { uploadedBy: 1 } },
+    );
+
+    await Promise.all([
+      // Kept for trending and statistics, without the link to the user
+      EngagementEvent.updateMany({ userId }, { $unset: { userId: 1 } }),
+      WallpaperStatBucket.updateMany(
+        { userIds: userId },
+        { $pull: { userIds: userId } },
+      ),
+      DeviceToken.deleteMany({ userId }),
+      NotificationPreferences.deleteMany({ userId }),
+      Session.deleteMany({ userId }),
+      RefreshToken.deleteMany({ userId }),
+      loginThrottleService.unlock({ email: user.email }),
+    ]);
+
+    await User.deleteOne({ _id: userId });
+  }
+
+  // Purges accounts whose grace period is over, oldest first. Returns how
+  // many were purged; failures are logged and retried on the next run.
+  public async purgeDueAccounts(
+    limit = config.accountDeletion.purgeBatchSize,
+  ): Promise<{ purged: number; failed: number }> {
+    const users = await User.find({
+      deletionScheduledFor: { $lte: new Date() },
+    })
+      .sort({ deletionScheduledFor: 1 })
+      .limit(limit);
+
+    let purged = 0;
+    let failed = 0;
+    for (const user of users) {
+      try {
+        await this.purgeUser(user);
+        purged++;
+        logger.info(`Purged deleted account ${user._id}`);
+      } catch (error) {
+        failed++;
+        logger.error(`Error purging deleted account ${user._id}:`, error);
+      }
+    }
+
+    return { purged, failed };
+  }
+}
+
+export const accountDeletionService = AccountDeletionService.getInstance();
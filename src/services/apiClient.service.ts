@@ -0,0 +1,229 @@
+import crypto from 'crypto';
+import config from '../config';
+import { ApiScope, apiScopes } from '../config/apiScopes';
+import { ApiClient, IApiClient, IApiKey } from '../models/apiClient.model';
+import { CustomError } from '../utils/customError';
+import logger from '../utils/logger';
+import { generateToken, hashToken } from '../utils/tokenUtils';
+
+const KEY_PREFIX = 'wpk_';
+const LEGACY_CLIENT_ID = 'legacy';
+
+// The shared key only reaches the route groups it could before API clients
+// existed; admin access needs a client of its own
+const LEGACY_SCOPES = apiScopes.filter((scope) => scope !== 'admin');
+
+// What a request authenticated with an API key is attributed to
+export interface AuthenticatedApiClient {
+  id: string;
+  name: string;
+  keyId: string;
+  scopes: ApiScope[];
+  rateLimit: {
+    limit: number;
+    windowSeconds: number;
+  };
+  keyExpiresAt?: Date;
+}
+
+export interface ApiClientInput {
+  name: string;
+  description?: string;
+  scopes: ApiScope[];
+  rateLimit?: {
+    limit: number;
+    windowSeconds: number;
+  };
+  expiresAt?: Date;
+}
+
+export interface IssuedApiKey {
+  client: IApiClient;
+  key: IApiKey;
+  apiKey: string; // shown once, never stored
+}
+
+export const isKeyActive = (key: IApiKey, now = new Date()): boolean =>
+  !key.revokedAt && (!key.expiresAt || key.expiresAt > now);
+
+const sameHash = (a: string, b: string): boolean =>
+  crypto.timingSafeEqual(Buffer.from(a, 'hex'), Buffer.from(b, 'hex'));
+
+// Issues, rotates and checks the keys apps and partners call the API with.
+// Looked up keys are cached for a short while so most requests do not hit
+// the database; revocations made on another instance take up to that long
+// to apply.
+class ApiClientService {
+  private static instance: ApiClientService;
+  private cache = new Map<
+    string,
+    { client: AuthenticatedApiClient; cachedUntil: number }
+  >();
+
+  private constructor() {}
+
+  public static getInstance(): ApiClientService {
+    if (!ApiClientService.instance) {
+      ApiClientService.instance = new ApiClientService();
+    }
+    return ApiClientService.instance;
+  }
+
+  public async authenticate(
+    apiKey: string,
+  ): Promise<AuthenticatedApiClient | null> {
+    const keyHash = hashToken(apiKey);
+    const now = Date.now();
+
+    const { legacyKey } = config.apiClients;
+    if (legacyKey && sameHash(keyHash, hashToken(legacyKey))) {
+      return {
+        id: LEGACY_CLIENT_ID,
+        name: LEGACY_CLIENT_ID,
+        keyId: LEGACY_CLIENT_ID,
+        scopes: LEGACY_SCOPES,
+        rateLimit: config.apiClients.defaultRateLimit,
+      };
+    }
+
+    const cached = this.cache.get(keyHash);
+    if (cached && cached.cachedUntil > now) {
+      const { keyExpiresAt } = cached.client;
+      return keyExpiresAt && keyExpiresAt.getTime() <= now
+        ? null
+        : cached.client;
+    }
+    this.cache.delete(keyHash);
+
+    const client = await ApiClient.findOne({
+      'keys.keyHash': keyHash,
+      revokedAt: { $exists: false },
+    });
+    const key = client?.keys.find((candidate) => candidate.keyHash === keyHash);
+    if (!client || !key || !isKeyActive(key)) {
+      return null;
+    }
+
+    const authenticated: AuthenticatedApiClient = {
+      id: client._id.toString(),
+      name: client.name,
+      keyId: key._id.toString(),
+      scopes: client.scopes,
+      rateLimit: client.rateLimit,
+      keyExpiresAt: key.expiresAt,
+    };
+    this.cache.set(keyHash, {
+      client: authenticated,
+      cachedUntil: now + config.apiClients.cacheTtl * 1000,
+    });
+
+    // Recorded on cache misses only, which is precise enough to spot unused
+    // keys without a write per request
+    ApiClient.updateOne(
+      { _id: client._id, 'keys._id': key._id },
+      { $set: { 'keys.$.lastUsedAt': new Date(now) } },
+    ).catch((error) =>
+      logger.error(`Error recording use of API client ${client.name}:`, error),
+    );
+
+    return authenticated;
+  }
+
+  public async createClient(
+    input: ApiClientInput,
+    createdBy?: string,
+  ): Promise<IssuedApiKey> {
+    const existing = await ApiClient.findOne({ name: input.name });
+    if (existing) {
+      throw new CustomError('An API client with this name already exists', 409);
+    }
+
+    const client = new ApiClient({
+      name: input.name,
+      description: input.description,
+      scopes: input.scopes,
+      rateLimit: input.rateLimit || config.apiClients.defaultRateLimit,
+      createdBy,
+    });
+    const apiKey = this.addKey(client, input.expiresAt);
+    await client.save();
+
+    return { client, key: client.keys[client.keys.length - 1], apiKey };
+  }
+
+  // Issues a new key. Keys that are still active stay valid for the overlap
+  // so deployed apps can switch over before the old key stops working.
+  public async rotateKey(
+    client: IApiClient,
+    overlapSeconds: number,
+    expiresAt?: Date,
+  ): Promise<IssuedApiKey> {
+    if (overlapSeconds > config.apiClients.maxRotationOverlap) {
+      throw new CustomError(
+        `Overlap cannot exceed ${config.apiClients.maxRotationOverlap} seconds`,
+        400,
+      );
+    }
+
+    const now = new Date();
+    const overlapEnd = new Date(now.getTime() + overlapSeconds * 1000);
+    for (const key of client.keys) {
+      if (
+        isKeyActive(key, now) &&
+        (!key.expiresAt || key.expiresAt > overlapEnd)
+      ) {
+        key.expiresAt = overlapEnd;
+      }
+    }
+
+    const apiKey = this.addKey(client, expiresAt);
+    await client.save();
+    this.clearCache();
+
+    return { client, key: client.keys[client.keys.length - 1], apiKey };
+  }
+
+  public async revokeKey(client: IApiClient, keyId: string): Promise<IApiKey> {
+    const key = client.keys.id(keyId);
+    if (!key) {
+      throw new CustomError('API key not found', 404);
+    }
+    if (key.revokedAt) {
+      throw new CustomError('API key is already revoked', 400);
+    }
+
+    key.revokedAt = new Date();
+    await client.save();
+    this.clearCache();
+
+    return key;
+  }
+
+  public async revokeClient(client: IApiClient): Promise<void> {
+    if (client.revokedAt) {
+      throw new CustomError('API client is already revoked', 400);
+    }
+
+    client.revokedAt = new Date();
+    await client.save();
+    this.clearCache();
+  }
+
+  // Changes to a client (scopes, quota) apply here right away and on other
+  // instances once their cached copy runs out
+  public clearCache() {
+    this.cache.clear();
+  }
+
+  private addKey(client: IApiClient, expiresAt?: Date): string {
+    const apiKey = `${KEY_PREFIX}${generateToken(32)}`;
+    client.keys.push({
+      keyHash: hashToken(apiKey),
+      prefix: apiKey.slice(0, KEY_PREFIX.length + 6),
+      expiresAt,
+    });
+    return apiKey;
+  }
+}
+
+export const apiClientService = ApiClientService.getInstance();
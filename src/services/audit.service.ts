@@ -0,0 +1,64 @@
+import { Request } from 'express';
+import { Types } from 'mongoose';
+import { AuditLog, IAuditLog } from '../models/auditLog.model';
+import logger from '../utils/logger';
+
+export interface AuditEntry {
+  action: string;
+  targetType: string;
+  targetId?: Types.ObjectId | string;
+  metadata?: Record<string, unknown>;
+}
+
+// Records who did what to which record. Writing the trail must never undo or
+// fail the action itself, so errors are only logged.
+class AuditService {
+  private static instance: AuditService;
+
+  private constructor() {}
+
+  public static getInstance(): AuditService {
+    if (!AuditService.instance) {
+      AuditService.instance = new AuditService();
+    }
+    return AuditService.instance;
+  }
+
+  // Takes the actor, IP and user agent from the request
+  public async record(req: Request, entry: AuditEntry): Promise<void> {
+    try {
+      await AuditLog.create({
+        actorId: req.user?._id,
+        action: entry.action,
+        targetType: entry.targetType,
+        targetId: entry.targetId?.toString(),
+        metadata: entry.metadata,
+        ip: req.ip,
+        userAgent: req.get('user-agent'),
+      });
+    } catch (error) {
+      logger.error(`Error writing audit log entry ${entry.action}:`, error);
+    }
+  }
+
+  public async listForTarget(
+    targetType: string,
+    targetId: string,
+    page: number,
+    limit: number,
+  ): Promise<{ entries: IAuditLog[]; total: number }> {
+    const query = { targetType, targetId };
+    const [entries, total] = await Promise.all([
+      AuditLog.find(query)
+        .populate('actorId', 'name email role')
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      AuditLog.countDocuments(query),
+    ]);
+
+    return { entries, total };
+  }
+}
+
+export const auditService = AuditService.getInstance();
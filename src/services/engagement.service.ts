@@ -0,0 +1,253 @@
+import mongoose from 'mongoose';
+import config from '../config';
+import {
+  EngagementEvent,
+  EngagementType,
+} from '../models/engagementEvent.model';
+import { Wallpaper } from '../models/wallpaper.model';
+import { WallpaperStatBucket } from '../models/wallpaperStatBucket.model';
+import logger from '../utils/logger';
+import { rateLimitService } from './rateLimit.service';
+
+const HOUR = 60 * 60 * 1000;
+
+const COUNTERS: Record<
+  EngagementType,
+  'views' | 'downloads' | 'saves' | 'likes'
+> = {
+  view: 'views',
+  download: 'downloads',
+  save: 'saves',
+  like: 'likes',
+};
+
+export type StatsGranularity = 'hour' | 'day' | 'week';
+
+export interface StatsQuery {
+  from: Date;
+  to: Date; // exclusive
+  granularity: StatsGranularity;
+  timezone: string; // IANA name, e.g. Europe/Berlin
+}
+
+export interface StatsCounts {
+  views: number;
+  downloads: number;
+  saves: number;
+  likes: number;
+  uniqueUsers: number; // signed in users only
+}
+
+const emptyCounts = (): StatsCounts => ({
+  views: 0,
+  downloads: 0,
+  saves: 0,
+  likes: 0,
+  uniqueUsers: 0,
+});
+
+const sumCounters = {
+  views: { $sum: '$views' },
+  downloads: { $sum: '$downloads' },
+  saves: { $sum: '$saves' },
+  likes: { $sum: '$likes' },
+};
+
+// Records views, downloads, saves and likes: as events for the trending
+// rollup and in hourly buckets for the statistics
+class EngagementService {
+  private static instance: EngagementService;
+
+  private constructor() {}
+
+  public static getInstance(): EngagementService {
+    if (!EngagementService.instance) {
+      EngagementService.instance = new EngagementService();
+    }
+    return EngagementService.instance;
+  }
+
+  // Best effort: a lost event only makes trending and statistics slightly
+  // less accurate, so it never fails the request that caused it
+  public async recordEvent(
+    wallpaperId: string | mongoose.Types.ObjectId,
+    type: EngagementType,
+    userId?: string | mongoose.Types.ObjectId,
+  ): Promise<void> {
+    try {
+      await Promise.all([
+        EngagementEvent.create({ wallpaperId, type, userId }),
+        this.incrementBucket(wallpaperId, type, userId),
+      ]);
+    } catch (error) {
+      logger.warn(`Error recording ${type} of wallpaper ${wallpaperId}:`, {
+        error,
+      });
+    }
+  }
+
+  // Counts a view or download unless the same viewer (a user, device or IP
+  // address) already did so within config.engagement.dedupeWindow seconds.
+  // Returns the wallpaper's counter and whether this one was counted.
+  public async trackInteraction(
+    wallpaperId: mongoose.Types.ObjectId,
+    type: 'view' | 'download',
+    viewer: string,
+    userId?: mongoose.Types.ObjectId,
+  ): Promise<{ counted: boolean; count: number }> {
+    const counter = COUNTERS[type];
+    const { allowed } = await rateLimitService.consume(
+      `engagement:${type}:${wallpaperId}:${viewer}`,
+      1,
+      config.engagement.dedupeWindow,
+    );
+
+    const wallpaper = allowed
+      ? await Wallpaper.findByIdAndUpdate(
+          wallpaperId,
+          { $inc: { [counter]: 1 } },
+          { new: true },
+        ).select(counter)
+      : await Wallpaper.findById(wallpaperId).select(counter);
+
+    if (allowed) {
+      await this.recordEvent(wallpaperId, type, userId);
+    }
+
+    return { counted: allowed, count: wallpaper?.[counter] ?? 0 };
+  }
+
+  // Totals and per-period counts of the given wallpapers. Periods start in
+  // the given timezone (weeks on Monday) at the precision of an hour;
+  // periods without any activity are left out.
+  public async getStats(
+    wallpaperIds: mongoose.Types.ObjectId[],
+    { from, to, granularity, timezone }: StatsQuery,
+  ) {
+    const [result] = await WallpaperStatBucket.aggregate<{
+      buckets: (Omit<StatsCounts, 'uniqueUsers'> & { _id: Date })[];
+      bucketUsers: { _id: Date; uniqueUsers: number }[];
+      totals: Omit<StatsCounts, 'uniqueUsers'>[];
+      totalUsers: { uniqueUsers: number }[];
+    }>([
+      {
+        $match: {
+          wallpaperId: { $in: wallpaperIds },
+          hour: { $gte: from, $lt: to },
+        },
+      },
+      {
+        $addFields: {
+          period: {
+            $dateTrunc: {
+              date: '$hour',
+              unit: granularity,
+              timezone,
+              startOfWeek: 'monday',
+            },
+          },
+        },
+      },
+      {
+        $facet: {
+          buckets: [{ $group: { _id: '$period', ...sumCounters } }],
+          bucketUsers: [
+            { $unwind: '$userIds' },
+            { $group: { _id: { period: '$period', userId: '$userIds' } } },
+            { $group: { _id: '$_id.period', uniqueUsers: { $sum: 1 } } },
+          ],
+          totals: [{ $group: { _id: null, ...sumCounters } }],
+          totalUsers: [
+            { $unwind: '$userIds' },
+            { $group: { _id: '$userIds' } },
+            { $count: 'uniqueUsers' },
+          ],
+        },
+      },
+    ]);
+
+    const usersByPeriod = new Map(
+      result.bucketUsers.map(({ _id, uniqueUsers }) => [
+        _id.getTime(),
+        uniqueUsers,
+      ]),
+    );
+    const [totals] = result.totals;
+
+    return {
+      from,
+      to,
+      granularity,
+      timezone,
+      totals: {
+        ...emptyCounts(),
+        ...(totals && {
+          views: totals.views,
+          downloads: totals.downloads,
+          saves: totals.saves,
+          likes: totals.likes,
+        }),
+        uniqueUsers: result.totalUsers[0]?.uniqueUsers ?? 0,
+      },
+      buckets: result.buckets
+        .sort((a, b) => a._id.getTime() - b._id.getTime())
+        .map(({ _id, views, downloads, saves, likes }) => ({
+          date: _id,
+          views,
+          downloads,
+          saves,
+          likes,
+          uniqueUsers: usersByPeriod.get(_id.getTime()) ?? 0,
+        })),
+    };
+  }
+
+  // The given wallpapers with the most views in the range
+  public async getTopWallpapers(
+    wallpaperIds: mongoose.Types.ObjectId[],
+    { from, to }: Pick<StatsQuery, 'from' | 'to'>,
+    limit: number,
+  ) {
+    return WallpaperStatBucket.aggregate<
+      Omit<StatsCounts, 'uniqueUsers'> & { _id: mongoose.Types.ObjectId }
+    >([
+      {
+        $match: {
+          wallpaperId: { $in: wallpaperIds },
+          hour: { $gte: from, $lt: to },
+        },
+      },
+      { $group: { _id: '$wallpaperId', ...sumCounters } },
+      { $sort: { views: -1, downloads: -1 } },
+      { $limit: limit },
+    ]);
+  }
+
+  private async incrementBucket(
+    wallpaperId: string | mongoose.Types.ObjectId,
+    type: EngagementType,
+    userId?: string | mongoose.Types.ObjectId,
+  ) {
+    const filter = {
+      wallpaperId,
+      hour: new Date(Math.floor(Date.now() / HOUR) * HOUR),
+    };
+    const update = {
+      $inc: { [COUNTERS[type]]: 1 },
+      ...(userId && { $addToSet: { userIds: userId } }),
+    };
+
+    try {
+      await WallpaperStatBucket.updateOne(filter, update, { upsert: true });
+    } catch (error) {
+      // Another request created the bucket first; count on top of it
+      if ((error as { code?: number }).code === 11000) {
+        await WallpaperStatBucket.updateOne(filter, update);
+        return;
+      }
+      throw error;
+    }
+  }
+}
+
+export const engagementService = EngagementService.getInstance();
@@ -1,6 +1,7 @@
 import { google } from 'googleapis';
 import config from '../config';
-import { CustomError } from '../utils/customError';
+import { subscriptionVerificationsTotal } from '../helpers/metrics';
+import { CustomError, wrapError } from '../utils/customError';
 
 const androidPublisher = google.androidpublisher('v3');
 
@@ -61,17 +62,32 @@ export class GooglePlayService {
       // Determine subscription tier based on productId
       const tier = this.getSubscriptionTier(subscriptionId);
 
+      subscriptionVerificationsTotal.inc({
+        result: isValid ? 'valid' : 'invalid',
+      });
       return {
         isValid,
         tier,
         expiryDate: new Date(expiryTimeMillis),
       };
     } catch (error) {
-      if (error instanceof CustomError) throw error;
-      throw new CustomError('Error verifying subscription', 500);
+      subscriptionVerificationsTotal.inc({ result: 'error' });
+      throw wrapError(error, 'Error verifying subscription');
     }
   }
 
+  public isConfigured(): boolean {
+    return Boolean(
+      config.googlePlay.clientEmail && config.googlePlay.privateKey,
+    );
+  }
+
+  // Fetches an access token, which fails when the service account
+  // credentials are invalid or revoked
+  public async checkCredentials(): Promise<void> {
+    await this.auth.getAccessToken();
+  }
+
   private getSubscriptionTier(subscriptionId: string): 'basic' | 'premium' {
     // Map subscription IDs to tiers
     const subscriptionTiers: Record<string, 'basic' | 'premium'> = {
@@ -0,0 +1,159 @@
+import config from '../config';
+import logger from '../utils/logger';
+
+export type HealthStatus = 'healthy' | 'degraded' | 'unhealthy';
+
+// A check resolves when the dependency works, returns a degraded result when
+// it works with reduced functionality (e.g. not configured) and throws when
+// it does not work at all
+export type HealthCheck = () => Promise<void | {
+  status: 'degraded';
+  message: string;
+}>;
+
+export interface HealthCheckOptions {
+  // Unhealthy critical checks make the whole service unhealthy (not ready);
+  // others only degrade it
+  critical?: boolean;
+  timeoutMs?: number;
+}
+
+export interface HealthCheckResult {
+  status: HealthStatus;
+  critical: boolean;
+  durationMs: number;
+  message?: string;
+}
+
+export interface HealthReport {
+  status: HealthStatus;
+  timestamp: string;
+  checks: Record<string, HealthCheckResult>;
+}
+
+interface RegisteredCheck {
+  check: HealthCheck;
+  critical: boolean;
+  timeoutMs?: number;
+}
+
+const withTimeout = <T>(promise: Promise<T>, timeoutMs: number) => {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`Timed out after ${timeoutMs}ms`)),
+      timeoutMs,
+    );
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+class HealthService {
+  private static instance: HealthService;
+  private checks = new Map<string, RegisteredCheck>();
+  private cached?: { report: HealthReport; expiresAt: number };
+  private running?: Promise<HealthReport>;
+
+  private constructor() {}
+
+  public static getInstance(): HealthService {
+    if (!HealthService.instance) {
+      HealthService.instance = new HealthService();
+    }
+    return HealthService.instance;
+  }
+
+  public register(
+    name: string,
+    check: HealthCheck,
+    options: HealthCheckOptions = {},
+  ) {
+    this.checks.set(name, {
+      check,
+      critical: options.critical ?? false,
+      timeoutMs: options.timeoutMs,
+    });
+    this.cached = undefined;
+  }
+
+  public unregister(name: string) {
+    this.checks.delete(name);
+    this.cached = undefined;
+  }
+
+  // Results are cached for config.health.cacheTtl seconds and concurrent
+  // callers share one run, so frequent probes don't hammer dependencies
+  public async check(): Promise<HealthReport> {
+    if (this.cached && this.cached.expiresAt > Date.now()) {
+      return this.cached.report;
+    }
+
+    if (!this.running) {
+      this.running = this.runChecks()
+        .then((report) => {
+          this.cached = {
+            report,
+            expiresAt: Date.now() + config.health.cacheTtl * 1000,
+          };
+          return report;
+        })
+        .finally(() => {
+          this.running = undefined;
+        });
+    }
+
+    return this.running;
+  }
+
+  private async runChecks(): Promise<HealthReport> {
+    const entries = await Promise.all(
+      [...this.checks].map(
+        async ([name, registered]) =>
+          [name, await this.runCheck(name, registered)] as const,
+      ),
+    );
+    const checks = Object.fromEntries(entries);
+    const results = Object.values(checks);
+
+    let status: HealthStatus = 'healthy';
+    if (results.some((r) => r.critical && r.status === 'unhealthy')) {
+      status = 'unhealthy';
+    } else if (results.some((r) => r.status !== 'healthy')) {
+      status = 'degraded';
+    }
+
+    return { status, timestamp: new Date().toISOString(), checks };
+  }
+
+  private async runCheck(
+    name: string,
+    {
+      check,
+      critical,
+      timeoutMs = config.health.checkTimeout,
+    }: RegisteredCheck,
+  ): Promise<HealthCheckResult> {
+    const startedAt = Date.now();
+
+    try {
+      const result = await withTimeout(check(), timeoutMs);
+      return {
+        status: result?.status || 'healthy',
+        critical,
+        durationMs: Date.now() - startedAt,
+        ...(result && { message: result.message }),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`Health check ${name} failed: ${message}`);
+      return {
+        status: 'unhealthy',
+        critical,
+        durationMs: Date.now() - startedAt,
+        message,
+      };
+    }
+  }
+}
+
+export const healthService = HealthService.getInstance();
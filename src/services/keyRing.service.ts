@@ -0,0 +1,136 @@
+import crypto, { JsonWebKey, KeyObject } from 'crypto';
+import jwt, { SignOptions, VerifyOptions } from 'jsonwebtoken';
+import config, { SigningAlgorithm, SigningKeyConfig } from '../config';
+
+interface LoadedKey {
+  kid: string;
+  alg: SigningAlgorithm;
+  signingKey?: KeyObject | string;
+  verificationKey: KeyObject | string;
+}
+
+const loadKey = (key: SigningKeyConfig): LoadedKey => {
+  if (key.alg === 'HS256') {
+    if (!key.secret) {
+      throw new Error(`Signing key "${key.kid}" (HS256) has no secret`);
+    }
+    return {
+      kid: key.kid,
+      alg: key.alg,
+      signingKey: key.secret,
+      verificationKey: key.secret,
+    };
+  }
+
+  if (!key.privateKey && !key.publicKey) {
+    throw new Error(
+      `Signing key "${key.kid}" (${key.alg}) has no key material`,
+    );
+  }
+
+  const signingKey = key.privateKey
+    ? crypto.createPrivateKey(key.privateKey)
+    : undefined;
+  const verificationKey = crypto.createPublicKey(
+    key.publicKey || (key.privateKey as string),
+  );
+
+  const expectedType = key.alg === 'RS256' ? 'rsa' : 'ec';
+  if (verificationKey.asymmetricKeyType !== expectedType) {
+    throw new Error(
+      `Signing key "${key.kid}" is not a valid ${key.alg} key (got ${verificationKey.asymmetricKeyType})`,
+    );
+  }
+  if (
+    key.alg === 'ES256' &&
+    verificationKey.asymmetricKeyDetails?.namedCurve !== 'prime256v1'
+  ) {
+    throw new Error(`Signing key "${key.kid}" must use the P-256 curve`);
+  }
+
+  return { kid: key.kid, alg: key.alg, signingKey, verificationKey };
+};
+
+// Holds every key tokens may be verified with. New tokens are always signed
+// with the primary key; the others stay verifiable until they are removed,
+// which lets keys be rotated without invalidating issued tokens.
+export class KeyRing {
+  private static instance: KeyRing;
+  private keys = new Map<string, LoadedKey>();
+  private primaryKid: string;
+
+  constructor(keys: SigningKeyConfig[], primaryKid: string) {
+    keys.forEach((key) => {
+      if (this.keys.has(key.kid)) {
+        throw new Error(`Duplicate signing key id "${key.kid}"`);
+      }
+      this.keys.set(key.kid, loadKey(key));
+    });
+
+    if (!this.keys.get(primaryKid)?.signingKey) {
+      throw new Error(
+        `Primary signing key "${primaryKid}" is not configured or cannot sign`,
+      );
+    }
+    this.primaryKid = primaryKid;
+  }
+
+  public static getInstance(): KeyRing {
+    if (!KeyRing.instance) {
+      KeyRing.instance = new KeyRing(config.jwt.keys, config.jwt.primaryKid);
+    }
+    return KeyRing.instance;
+  }
+
+  public sign(payload: object, options: SignOptions = {}): string {
+    const primary = this.keys.get(this.primaryKid) as LoadedKey;
+
+    return jwt.sign(payload, primary.signingKey as KeyObject | string, {
+      ...options,
+      algorithm: primary.alg,
+      keyid: primary.kid,
+    });
+  }
+
+  public verify<T extends object>(
+    token: string,
+    options: VerifyOptions = {},
+  ): T {
+    const decoded = jwt.decode(token, { complete: true });
+    if (!decoded) {
+      throw new jwt.JsonWebTokenError('jwt malformed');
+    }
+
+    // Tokens issued before key ids were introduced carry no kid
+    const kid = decoded.header.kid || this.primaryKid;
+    const key = this.keys.get(kid);
+    if (!key) {
+      throw new jwt.JsonWebTokenError(`unknown signing key "${kid}"`);
+    }
+
+    // Pin the algorithm to the key to rule out algorithm confusion
+    return jwt.verify(token, key.verificationKey, {
+      ...options,
+      algorithms: [key.alg],
+      complete: false,
+    }) as T;
+  }
+
+  // Public halves of the asymmetric keys. HS256 secrets are never published.
+  public getJwks(): { keys: JsonWebKey[] } {
+    const keys: JsonWebKey[] = [];
+
+    this.keys.forEach((key) => {
+      if (typeof key.verificationKey === 'string') return;
+
+      keys.push({
+        ...key.verificationKey.export({ format: 'jwk' }),
+        kid: key.kid,
+        alg: key.alg,
+        use: 'sig',
+      });
+    });
+
+    return { keys };
+  }
+}
@@ -0,0 +1,284 @@
+import config from '../config';
+import { LoginAttempt } from '../models/loginAttempt.model';
+import { IUser } from '../models/user.model';
+import { accountLockedEmail } from '../templates/mail.templates';
+import { TooManyRequestsError } from '../utils/customError';
+import logger from '../utils/logger';
+import { mailService } from './mail.service';
+
+export interface AttemptRecord {
+  failures: number;
+  lastFailureAt: Date;
+  lockedUntil?: Date;
+}
+
+export interface AttemptStore {
+  get(key: string): Promise<AttemptRecord | null>;
+  // Counts a failure. The count starts over once the previous failure is
+  // older than the window.
+  recordFailure(key: string, windowMs: number): Promise<AttemptRecord>;
+  lock(key: string, until: Date): Promise<void>;
+  reset(key: string): Promise<void>;
+}
+
+// Shared between all instances of the API, which matters on Vercel where
+// every request may hit a different one
+export class MongoAttemptStore implements AttemptStore {
+  public async get(key: string): Promise<AttemptRecord | null> {
+    return LoginAttempt.findOne({ key, expiresAt: { $gt: new Date() } });
+  }
+
+  public async recordFailure(
+    key: string,
+    windowMs: number,
+  ): Promise<AttemptRecord> {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + windowMs);
+
+    const current = await LoginAttempt.findOneAndUpdate(
+      { key, expiresAt: { $gt: now } },
+      {
+        $inc: { failures: 1 },
+        $set: { lastFailureAt: now },
+        // Never cut an active lockout short
+        $max: { expiresAt },
+      },
+      { new: true },
+    );
+    if (current) return current;
+
+    try {
+      return await LoginAttempt.findOneAndUpdate(
+        { key },
+        {
+          $set: { failures: 1, lastFailureAt: now, expiresAt },
+          $unset: { lockedUntil: 1 },
+        },
+        { new: true, upsert: true },
+      );
+    } catch (error) {
+      // Another request created the counter first; count on top of it
+      if ((error as { code?: number }).code === 11000) {
+        return this.recordFailure(key, windowMs);
+      }
+      throw error;
+    }
+  }
+
+  public async lock(key: string, until: Date): Promise<void> {
+    await LoginAttempt.updateOne(
+      { key },
+      { $set: { lockedUntil: until, expiresAt: until } },
+    );
+  }
+
+  public async reset(key: string): Promise<void> {
+    await LoginAttempt.deleteOne({ key });
+  }
+}
+
+// Process-local store for tests and single-instance development
+export class MemoryAttemptStore implements AttemptStore {
+  private records = new Map<string, AttemptRecord & { expiresAt: Date }>();
+
+  public async get(key: string): Promise<AttemptRecord | null> {
+    const record = this.records.get(key);
+    if (!record || record.expiresAt <= new Date()) return null;
+    return record;
+  }
+
+  public async recordFailure(
+    key: string,
+    windowMs: number,
+  ): Promise<AttemptRecord> {
+    const now = new Date();
+    const current = await this.get(key);
+    const record = {
+      failures: current ? current.failures + 1 : 1,
+      lastFailureAt: now,
+      lockedUntil: current?.lockedUntil,
+      expiresAt: new Date(
+        Math.max(
+          now.getTime() + windowMs,
+          current?.lockedUntil?.getTime() || 0,
+        ),
+      ),
+    };
+    this.records.set(key, record);
+    return record;
+  }
+
+  public async lock(key: string, until: Date): Promise<void> {
+    const record = this.records.get(key);
+    if (record) {
+      record.lockedUntil = until;
+      record.expiresAt = until;
+    }
+  }
+
+  public async reset(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+}
+
+// 401 while the account is locked, 429 while the IP is locked or delayed
+export class LoginThrottledError extends TooManyRequestsError {
+  constructor(message: string, statusCode: 401 | 429, retryAfter: number) {
+    super(
+      message,
+      retryAfter,
+      statusCode === 401 ? 'ACCOUNT_LOCKED' : 'RATE_LIMIT_EXCEEDED',
+      statusCode,
+    );
+  }
+}
+
+const emailKey = (email: string) => `email:${email.trim().toLowerCase()}`;
+const ipKey = (ip: string) => `ip:${ip}`;
+
+const secondsUntil = (date: Date): number =>
+  Math.max(Math.ceil((date.getTime() - Date.now()) / 1000), 1);
+
+// Failed logins are tracked per email address and per IP. After a few free
+// attempts every further one has to wait exponentially longer, and once a
+// threshold is reached the email or IP is locked out for a while.
+class LoginThrottleService {
+  private static instance: LoginThrottleService;
+  private store: AttemptStore;
+
+  private constructor() {
+    this.store = new MongoAttemptStore();
+  }
+
+  public static getInstance(): LoginThrottleService {
+    if (!LoginThrottleService.instance) {
+      LoginThrottleService.instance = new LoginThrottleService();
+    }
+    return LoginThrottleService.instance;
+  }
+
+  public getStore(): AttemptStore {
+    return this.store;
+  }
+
+  public setStore(store: AttemptStore) {
+    this.store = store;
+  }
+
+  // Throws a LoginThrottledError if a login attempt is not allowed right now.
+  // Without an email (e.g. an unknown magic link token) only the IP is checked.
+  public async assertAllowed(email: string | null, ip?: string): Promise<void> {
+    const now = new Date();
+
+    const byEmail = email ? await this.store.get(emailKey(email)) : null;
+    if (byEmail?.lockedUntil && byEmail.lockedUntil > now) {
+      throw new LoginThrottledError(
+        'Account temporarily locked due to too many failed login attempts',
+        401,
+        secondsUntil(byEmail.lockedUntil),
+      );
+    }
+
+    const byIp = ip ? await this.store.get(ipKey(ip)) : null;
+    if (byIp?.lockedUntil && byIp.lockedUntil > now) {
+      throw new LoginThrottledError(
+        'Too many failed login attempts, please try again later',
+        429,
+        secondsUntil(byIp.lockedUntil),
+      );
+    }
+
+    const nextAllowedAt = [byEmail, byIp]
+      .map((record) => record && this.nextAllowedAt(record))
+      .filter((date): date is Date => !!date && date > now)
+      .sort((a, b) => b.getTime() - a.getTime())[0];
+
+    if (nextAllowedAt) {
+      throw new LoginThrottledError(
+        'Too many login attempts, please try again later',
+        429,
+        secondsUntil(nextAllowedAt),
+      );
+    }
+  }
+
+  // `user` is the account the email belongs to, if there is one
+  public async recordFailure(
+    email: string | null,
+    ip: string | undefined,
+    user: IUser | null,
+  ): Promise<void> {
+    const { windowSeconds, maxEmailFailures, maxIpFailures, lockoutSeconds } =
+      config.loginProtection;
+    const windowMs = windowSeconds * 1000;
+    const lockedUntil = new Date(Date.now() + lockoutSeconds * 1000);
+
+    if (email) {
+      const byEmail = await this.store.recordFailure(emailKey(email), windowMs);
+      if (byEmail.failures >= maxEmailFailures && !this.isLocked(byEmail)) {
+        await this.store.lock(emailKey(email), lockedUntil);
+        logger.warn(
+          `Login locked for ${email} after ${byEmail.failures} failures`,
+        );
+
+        if (user) {
+          await this.notifyLocked(user, lockedUntil);
+        }
+      }
+    }
+
+    if (ip) {
+      const byIp = await this.store.recordFailure(ipKey(ip), windowMs);
+      if (byIp.failures >= maxIpFailures && !this.isLocked(byIp)) {
+        await this.store.lock(ipKey(ip), lockedUntil);
+        logger.warn(
+          `Login locked for IP ${ip} after ${byIp.failures} failures`,
+        );
+      }
+    }
+  }
+
+  // The IP counter is deliberately kept, otherwise an attacker could clear it
+  // by signing in to an account of their own now and then
+  public async recordSuccess(email: string): Promise<void> {
+    await this.store.reset(emailKey(email));
+  }
+
+  public async unlock(target: { email?: string; ip?: string }): Promise<void> {
+    if (target.email) await this.store.reset(emailKey(target.email));
+    if (target.ip) await this.store.reset(ipKey(target.ip));
+  }
+
+  private isLocked(record: AttemptRecord): boolean {
+    return !!record.lockedUntil && record.lockedUntil > new Date();
+  }
+
+  private nextAllowedAt(record: AttemptRecord): Date | null {
+    const { freeAttempts, baseDelaySeconds, maxDelaySeconds } =
+      config.loginProtection;
+    if (record.failures < freeAttempts) return null;
+
+    const delaySeconds = Math.min(
+      baseDelaySeconds * 2 ** (record.failures - freeAttempts),
+      maxDelaySeconds,
+    );
+    return new Date(record.lastFailureAt.getTime() + delaySeconds * 1000);
+  }
+
+  private async notifyLocked(user: IUser, lockedUntil: Date): Promise<void> {
+    try {
+      await mailService.send({
+        to: user.email,
+        ...accountLockedEmail(
+          user.name,
+          `${config.clientUrl}/forgot-password`,
+          lockedUntil,
+        ),
+      });
+    } catch (error) {
+      logger.error('Error sending account locked email:', error);
+    }
+  }
+}
+
+export const loginThrottleService = LoginThrottleService.getInstance();
@@ -0,0 +1,138 @@
+import fs from 'fs/promises';
+import nodemailer, { Transporter } from 'nodemailer';
+import path from 'path';
+import config from '../config';
+import logger from '../utils/logger';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface SentMail extends MailMessage {
+  from: string;
+  sentAt: Date;
+}
+
+export interface MailTransport {
+  send(message: SentMail): Promise<void>;
+}
+
+// Delivers through an SMTP relay; the transport used in production
+export class SmtpTransport implements MailTransport {
+  private transporter: Transporter;
+
+  constructor(options = config.mail.smtp) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user
+        ? { user: options.user, pass: options.pass }
+        : undefined,
+    });
+  }
+
+  public async send(message: SentMail): Promise<void> {
+    await this.transporter.sendMail({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+  }
+}
+
+// Writes every message to a directory as JSON plus an .html preview, so
+// emails can be opened while developing without a mail server
+export class FileTransport implements MailTransport {
+  constructor(private directory = config.mail.fileDir) {}
+
+  public async send(message: SentMail): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const name = `${message.sentAt.getTime()}-${message.to.replace(/[^a-z0-9]+/gi, '_')}`;
+    await fs.writeFile(
+      path.join(this.directory, `${name}.json`),
+      JSON.stringify(message, null, 2),
+    );
+    if (message.html) {
+      await fs.writeFile(
+        path.join(this.directory, `${name}.html`),
+        message.html,
+      );
+    }
+  }
+}
+
+// Writes a summary of every message to the log; the default outside production
+export class LogTransport implements MailTransport {
+  public async send(message: SentMail): Promise<void> {
+    logger.info(`Mail to ${message.to}: ${message.subject}`, {
+      text: message.text,
+    });
+  }
+}
+
+// Keeps messages in memory so tests can inspect what would have been sent
+export class MemoryTransport implements MailTransport {
+  public outbox: SentMail[] = [];
+
+  public async send(message: SentMail): Promise<void> {
+    this.outbox.push(message);
+  }
+
+  public clear() {
+    this.outbox = [];
+  }
+}
+
+const createTransport = (): MailTransport => {
+  switch (config.mail.transport) {
+    case 'smtp':
+      return new SmtpTransport();
+    case 'file':
+      return new FileTransport();
+    case 'memory':
+      return new MemoryTransport();
+    default:
+      return new LogTransport();
+  }
+};
+
+class MailService {
+  private static instance: MailService;
+  private transport: MailTransport;
+
+  private constructor() {
+    this.transport = createTransport();
+  }
+
+  public static getInstance(): MailService {
+    if (!MailService.instance) {
+      MailService.instance = new MailService();
+    }
+    return MailService.instance;
+  }
+
+  public getTransport(): MailTransport {
+    return this.transport;
+  }
+
+  public setTransport(transport: MailTransport) {
+    this.transport = transport;
+  }
+
+  public async send(message: MailMessage): Promise<void> {
+    await this.transport.send({
+      ...message,
+      from: config.mail.from,
+      sentAt: new Date(),
+    });
+  }
+}
+
+export const mailService = MailService.getInstance();
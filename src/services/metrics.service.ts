@@ -0,0 +1,237 @@
+export type Labels = Record<string, string | number>;
+
+// Latency buckets in seconds, from fast cache hits to slow uploads
+export const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+interface Metric {
+  name: string;
+  help: string;
+  type: 'counter' | 'histogram';
+  render(): string[];
+  reset(): void;
+}
+
+const escapeLabel = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatLabels = (labels: Labels) => {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabel(String(value))}"`,
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+};
+
+// Series are keyed by their label values in the declared label order, so
+// { a, b } and { b, a } are the same series
+const seriesKey = (labelNames: string[], labels: Labels) =>
+  JSON.stringify(labelNames.map((name) => String(labels[name] ?? '')));
+
+const pickLabels = (labelNames: string[], labels: Labels): Labels =>
+  Object.fromEntries(labelNames.map((name) => [name, labels[name] ?? '']));
+
+export class Counter implements Metric {
+  readonly type = 'counter';
+  private series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private labelNames: string[] = [],
+  ) {}
+
+  inc(labels: Labels = {}, value = 1) {
+    const key = seriesKey(this.labelNames, labels);
+    const entry = this.series.get(key);
+    if (entry) {
+      entry.value += value;
+    } else {
+      this.series.set(key, {
+        labels: pickLabels(this.labelNames, labels),
+        value,
+      });
+    }
+  }
+
+  // Sum over every series with the given label values, or accepted by the
+  // given predicate
+  get(match: Labels | ((labels: Labels) => boolean) = {}) {
+    const matches =
+      typeof match === 'function'
+        ? match
+        : (labels: Labels) =>
+            Object.entries(match).every(
+              ([name, value]) => String(labels[name]) === String(value),
+            );
+
+    let total = 0;
+    for (const entry of this.series.values()) {
+      if (matches(entry.labels)) {
+        total += entry.value;
+      }
+    }
+    return total;
+  }
+
+  render() {
+    return [...this.series.values()].map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`,
+    );
+  }
+
+  reset() {
+    this.series.clear();
+  }
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  counts: number[]; // per bucket, not cumulative; the last is +Inf
+  sum: number;
+  count: number;
+}
+
+export class Histogram implements Metric {
+  readonly type = 'histogram';
+  private series = new Map<string, HistogramSeries>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private labelNames: string[] = [],
+    private buckets: number[] = DEFAULT_BUCKETS,
+  ) {}
+
+  observe(labels: Labels, value: number) {
+    const key = seriesKey(this.labelNames, labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = {
+        labels: pickLabels(this.labelNames, labels),
+        counts: new Array(this.buckets.length + 1).fill(0),
+        sum: 0,
+        count: 0,
+      };
+      this.series.set(key, entry);
+    }
+
+    const bucket = this.buckets.findIndex((bound) => value <= bound);
+    entry.counts[bucket === -1 ? this.buckets.length : bucket] += 1;
+    entry.sum += value;
+    entry.count += 1;
+  }
+
+  // Summary over every series, estimating quantiles from the buckets the
+  // same way Prometheus' histogram_quantile does
+  summarize(quantiles: number[]) {
+    const counts = new Array(this.buckets.length + 1).fill(0);
+    let sum = 0;
+    let count = 0;
+    for (const entry of this.series.values()) {
+      entry.counts.forEach((value, i) => (counts[i] += value));
+      sum += entry.sum;
+      count += entry.count;
+    }
+
+    const quantile = (q: number) => {
+      if (count === 0) return 0;
+      const rank = q * count;
+      let cumulative = 0;
+      for (let i = 0; i < counts.length; i++) {
+        if (cumulative + counts[i] >= rank) {
+          // Beyond the last bucket the best estimate is its upper bound
+          if (i === this.buckets.length) return this.buckets[i - 1];
+          const lower = i === 0 ? 0 : this.buckets[i - 1];
+          const upper = this.buckets[i];
+          return (
+            lower + ((upper - lower) * (rank - cumulative)) / (counts[i] || 1)
+          );
+        }
+        cumulative += counts[i];
+      }
+      return this.buckets[this.buckets.length - 1];
+    };
+
+    return {
+      count,
+      avg: count > 0 ? sum / count : 0,
+      quantiles: quantiles.map(quantile),
+    };
+  }
+
+  render() {
+    const lines: string[] = [];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      let cumulative = 0;
+      this.buckets.forEach((bound, i) => {
+        cumulative += counts[i];
+        lines.push(
+          `${this.name}_bucket${formatLabels({ ...labels, le: bound })} ${cumulative}`,
+        );
+      });
+      lines.push(
+        `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+        `${this.name}_sum${formatLabels(labels)} ${sum}`,
+        `${this.name}_count${formatLabels(labels)} ${count}`,
+      );
+    }
+    return lines;
+  }
+
+  reset() {
+    this.series.clear();
+  }
+}
+
+class MetricsService {
+  private static instance: MetricsService;
+  private metrics = new Map<string, Metric>();
+
+  private constructor() {}
+
+  public static getInstance(): MetricsService {
+    if (!MetricsService.instance) {
+      MetricsService.instance = new MetricsService();
+    }
+    return MetricsService.instance;
+  }
+
+  public counter(name: string, help: string, labelNames: string[] = []) {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  public histogram(
+    name: string,
+    help: string,
+    labelNames: string[] = [],
+    buckets?: number[],
+  ) {
+    return this.register(new Histogram(name, help, labelNames, buckets));
+  }
+
+  // Prometheus text exposition format, version 0.0.4
+  public render() {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(`# HELP ${metric.name} ${metric.help}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      lines.push(...metric.render());
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  public reset() {
+    this.metrics.forEach((metric) => metric.reset());
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+export const metricsService = MetricsService.getInstance();
@@ -1,4 +1,5 @@
 import admin from 'firebase-admin';
+import { notificationsTotal } from '../helpers/metrics';
 import { DeviceToken } from '../models/deviceToken.model';
 import { NotificationPreferences } from '../models/notificationPreferences.model';
 import { CustomError } from '../utils/customError';
@@ -55,6 +56,16 @@ class NotificationService {
     }
   }
 
+  // Whether Firebase is configured and initialized, initializing it on first
+  // call. Per-user settings (notification types, quiet hours) are not
+  // involved; sendNotificationToUser checks those on each send.
+  public isEnabled(): boolean {
+    if (!this.initialized) {
+      this.initialize();
+    }
+    return this.firebaseEnabled;
+  }
+
   private mapPriority(priority: NotificationPriority): AndroidPriority {
     return priority === 'normal' ? 'default' : 'high';
   }
@@ -119,8 +130,10 @@ class NotificationService {
       };
 
       const response = await admin.messaging().send(message);
+      notificationsTotal.inc({ target: 'device', result: 'sent' });
       return response;
     } catch (error) {
+      notificationsTotal.inc({ target: 'device', result: 'failed' });
       console.error('Error sending notification:', error);
       throw new CustomError('Failed to send notification', 500);
     }
@@ -178,8 +191,20 @@ class NotificationService {
       };
 
       const response = await admin.messaging().sendEachForMulticast(message);
+      notificationsTotal.inc(
+        { target: 'multicast', result: 'sent' },
+        response.successCount,
+      );
+      notificationsTotal.inc(
+        { target: 'multicast', result: 'failed' },
+        response.failureCount,
+      );
       return response;
     } catch (error) {
+      notificationsTotal.inc(
+        { target: 'multicast', result: 'failed' },
+        tokens.length,
+      );
       console.error('Error sending multicast notification:', error);
       throw new CustomError('Failed to send notifications', 500);
     }
@@ -304,8 +329,10 @@ class NotificationService {
       };
 
       const response = await admin.messaging().send(message);
+      notificationsTotal.inc({ target: 'topic', result: 'sent' });
       return response;
     } catch (error) {
+      notificationsTotal.inc({ target: 'topic', result: 'failed' });
       console.error('Error sending topic notification:', error);
       throw new CustomError('Failed to send topic notification', 500);
     }
@@ -0,0 +1,171 @@
+import crypto, { JsonWebKey, KeyObject } from 'crypto';
+import jwt, { JsonWebTokenError, JwtPayload } from 'jsonwebtoken';
+import config, { OAuthProviderName } from '../config';
+import { CustomError } from '../utils/customError';
+import logger from '../utils/logger';
+
+export interface OAuthIdentity {
+  provider: OAuthProviderName;
+  subject: string;
+  email?: string;
+  emailVerified: boolean;
+  name?: string;
+}
+
+interface CachedKeySet {
+  keys: Map<string, KeyObject>;
+  fetchedAt: number;
+  expiresAt: number;
+}
+
+// A key set is refetched at most this often when a token names an unknown
+// kid, so forged kids cannot be used to hammer the provider
+const MIN_REFETCH_INTERVAL_MS = 60 * 1000;
+
+const maxAgeFrom = (cacheControl: string | null): number | null => {
+  const match = cacheControl?.match(/max-age=(\d+)/);
+  return match ? parseInt(match[1], 10) : null;
+};
+
+// Fetches and caches JSON Web Key Sets by URL
+export class JwksClient {
+  private cache = new Map<string, CachedKeySet>();
+  private pending = new Map<string, Promise<CachedKeySet>>();
+
+  public async getKey(url: string, kid: string): Promise<KeyObject> {
+    let keySet = this.cache.get(url);
+
+    const now = Date.now();
+    const stale = !keySet || keySet.expiresAt <= now;
+    const unknownKid =
+      keySet &&
+      !keySet.keys.has(kid) &&
+      now - keySet.fetchedAt >= MIN_REFETCH_INTERVAL_MS;
+
+    if (stale || unknownKid) {
+      keySet = await this.fetchKeySet(url);
+    }
+
+    const key = keySet?.keys.get(kid);
+    if (!key) {
+      throw new JsonWebTokenError(`unknown signing key "${kid}"`);
+    }
+    return key;
+  }
+
+  public clear() {
+    this.cache.clear();
+  }
+
+  // Concurrent requests share one fetch
+  private fetchKeySet(url: string): Promise<CachedKeySet> {
+    const inFlight = this.pending.get(url);
+    if (inFlight) return inFlight;
+
+    const request = this.loadKeySet(url).finally(() => {
+      this.pending.delete(url);
+    });
+    this.pending.set(url, request);
+    return request;
+  }
+
+  private async loadKeySet(url: string): Promise<CachedKeySet> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Fetching ${url} failed with status ${response.status}`);
+    }
+
+    const body = (await response.json()) as { keys?: JsonWebKey[] };
+    const keys = new Map<string, KeyObject>();
+    (body.keys || []).forEach((jwk) => {
+      if (typeof jwk.kid !== 'string') return;
+      try {
+        keys.set(jwk.kid, crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+      } catch (error) {
+        logger.warn(`Skipping unusable key ${jwk.kid} from ${url}`, { error });
+      }
+    });
+
+    const now = Date.now();
+    const ttl =
+      maxAgeFrom(response.headers.get('cache-control')) ??
+      config.oauth.jwksCacheTtl;
+    const keySet = { keys, fetchedAt: now, expiresAt: now + ttl * 1000 };
+    this.cache.set(url, keySet);
+    return keySet;
+  }
+}
+
+// Verifies ID tokens issued by Google and Apple for our apps
+class OAuthService {
+  private static instance: OAuthService;
+  private jwks = new JwksClient();
+
+  private constructor() {}
+
+  public static getInstance(): OAuthService {
+    if (!OAuthService.instance) {
+      OAuthService.instance = new OAuthService();
+    }
+    return OAuthService.instance;
+  }
+
+  public getJwksClient(): JwksClient {
+    return this.jwks;
+  }
+
+  public async verifyIdToken(
+    provider: OAuthProviderName,
+    idToken: string,
+  ): Promise<OAuthIdentity> {
+    const settings = config.oauth.providers[provider];
+    if (!settings.clientIds.length) {
+      throw new CustomError(`Sign in with ${provider} is not enabled`, 400);
+    }
+
+    let payload: JwtPayload;
+    try {
+      const decoded = jwt.decode(idToken, { complete: true });
+      if (!decoded?.header.kid) {
+        throw new JsonWebTokenError('jwt malformed');
+      }
+
+      const key = await this.jwks
+        .getKey(settings.jwksUrl, decoded.header.kid)
+        .catch((error) => {
+          if (error instanceof JsonWebTokenError) throw error;
+          logger.error(`Error fetching ${provider} signing keys:`, error);
+          throw new CustomError(
+            `Sign in with ${provider} is temporarily unavailable`,
+            503,
+          );
+        });
+      payload = jwt.verify(idToken, key, {
+        algorithms: ['RS256', 'ES256'],
+        audience: settings.clientIds as [string, ...string[]],
+        issuer: settings.issuers as [string, ...string[]],
+      }) as JwtPayload;
+    } catch (error) {
+      if (error instanceof JsonWebTokenError) {
+        throw new CustomError('Invalid or expired ID token', 401);
+      }
+      throw error;
+    }
+
+    if (!payload.sub) {
+      throw new CustomError('Invalid or expired ID token', 401);
+    }
+
+    return {
+      provider,
+      subject: payload.sub,
+      email: payload.email?.toLowerCase(),
+      // Apple sends the flag as a string
+      emailVerified:
+        payload.email_verified === true || payload.email_verified === 'true',
+      name: typeof payload.name === 'string' ? payload.name : undefined,
+    };
+  }
+}
+
+export const oauthService = OAuthService.getInstance();
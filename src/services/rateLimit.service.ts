@@ -0,0 +1,122 @@
+import { RateLimitCounter } from '../models/rateLimitCounter.model';
+
+export interface RateLimitStore {
+  // Counts a hit in the fixed window starting at windowStart and returns the
+  // count including it
+  increment(
+    key: string,
+    windowStart: number,
+    windowMs: number,
+  ): Promise<number>;
+}
+
+// Shared between all instances of the API, so a quota holds no matter which
+// instance serves the request
+export class MongoRateLimitStore implements RateLimitStore {
+  public async increment(
+    key: string,
+    windowStart: number,
+    windowMs: number,
+  ): Promise<number> {
+    const filter = { key: `${key}:${windowStart}` };
+    const update = {
+      $inc: { count: 1 },
+      $setOnInsert: { expiresAt: new Date(windowStart + windowMs) },
+    };
+
+    try {
+      const counter = await RateLimitCounter.findOneAndUpdate(filter, update, {
+        new: true,
+        upsert: true,
+      });
+      return counter.count;
+    } catch (error) {
+      // Another request created the counter first; count on top of it
+      if ((error as { code?: number }).code === 11000) {
+        const counter = await RateLimitCounter.findOneAndUpdate(
+          filter,
+          update,
+          { new: true },
+        );
+        return counter?.count ?? 1;
+      }
+      throw error;
+    }
+  }
+}
+
+// Process-local store for tests and single-instance development
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, { count: number; expiresAt: number }>();
+
+  public async increment(
+    key: string,
+    windowStart: number,
+    windowMs: number,
+  ): Promise<number> {
+    const now = Date.now();
+    for (const [counterKey, counter] of this.counters) {
+      if (counter.expiresAt <= now) this.counters.delete(counterKey);
+    }
+
+    const counterKey = `${key}:${windowStart}`;
+    const counter = this.counters.get(counterKey) || {
+      count: 0,
+      expiresAt: windowStart + windowMs,
+    };
+    counter.count += 1;
+    this.counters.set(counterKey, counter);
+    return counter.count;
+  }
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+}
+
+// Fixed window request quotas, e.g. 1000 requests per minute per API client
+class RateLimitService {
+  private static instance: RateLimitService;
+  private store: RateLimitStore;
+
+  private constructor() {
+    this.store = new MongoRateLimitStore();
+  }
+
+  public static getInstance(): RateLimitService {
+    if (!RateLimitService.instance) {
+      RateLimitService.instance = new RateLimitService();
+    }
+    return RateLimitService.instance;
+  }
+
+  public getStore(): RateLimitStore {
+    return this.store;
+  }
+
+  public setStore(store: RateLimitStore) {
+    this.store = store;
+  }
+
+  public async consume(
+    key: string,
+    limit: number,
+    windowSeconds: number,
+  ): Promise<RateLimitResult> {
+    const windowMs = windowSeconds * 1000;
+    const windowStart = Math.floor(Date.now() / windowMs) * windowMs;
+    const count = await this.store.increment(key, windowStart, windowMs);
+
+    return {
+      allowed: count <= limit,
+      limit,
+      remaining: Math.max(limit - count, 0),
+      resetAt: new Date(windowStart + windowMs),
+    };
+  }
+}
+
+export const rateLimitService = RateLimitService.getInstance();
@@ -0,0 +1,183 @@
+import { User } from '../models/user.model';
+import { IWallpaper, Wallpaper } from '../models/wallpaper.model';
+
+// How much each signal contributes to a similarity score. A signal that
+// can't be computed for a pair (an unknown colour, a source nobody saved)
+// is left out and the others count for more.
+const WEIGHTS = {
+  tags: 0.4,
+  coEngagement: 0.25,
+  color: 0.2,
+  category: 0.15,
+};
+
+// Wallpapers scored per request, and savers of the source sampled for
+// co-engagement; both keep a request to a few bounded queries
+const CANDIDATE_LIMIT = 500;
+const SAVER_SAMPLE = 1000;
+
+const MAX_COLOR_DISTANCE = Math.sqrt(3 * 255 ** 2);
+
+const parseColor = (hex: string) =>
+  [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16));
+
+// 1 for the same colour, 0 for black against white
+export const colorSimilarity = (a: string, b: string): number => {
+  const [x, y] = [parseColor(a), parseColor(b)];
+  const distance = Math.hypot(...x.map((value, i) => value - y[i]));
+  return 1 - distance / MAX_COLOR_DISTANCE;
+};
+
+export interface SimilarWallpaper {
+  wallpaper: IWallpaper;
+  similarity: number; // 0-1
+}
+
+export interface SimilarOptions {
+  threshold: number;
+  limit: number;
+  canAccess: (wallpaper: IWallpaper) => boolean;
+}
+
+class SimilarityService {
+  private static instance: SimilarityService;
+
+  private constructor() {}
+
+  public static getInstance(): SimilarityService {
+    if (!SimilarityService.instance) {
+      SimilarityService.instance = new SimilarityService();
+    }
+    return SimilarityService.instance;
+  }
+
+  // Wallpapers like the source, most similar first. Similarity combines the
+  // tags they share (rare tags count more), the category, how close their
+  // dominant colours are and how often users who saved the source also
+  // saved them. Only wallpapers the caller can access are returned.
+  public async findSimilar(
+    source: IWallpaper,
+    { threshold, limit, canAccess }: SimilarOptions,
+  ): Promise<SimilarWallpaper[]> {
+    const sourceTags = [...new Set(source.tags)];
+
+    const [rarity, { saverCount, coSaves }] = await Promise.all([
+      this.getTagRarity(sourceTags),
+      this.getCoSaves(source),
+    ]);
+    const sourceTagWeight = sourceTags.reduce(
+      (total, tag) => total + (rarity.get(tag) ?? 0),
+      0,
+    );
+
+    // Anything sharing a tag or the category, or saved by the same users
+    const coSavedIds = [...coSaves.entries()]
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, CANDIDATE_LIMIT)
+      .map(([id]) => id);
+    const candidates = await Wallpaper.find({
+      _id: { $ne: source._id },
+      $or: [
+        { tags: { $in: sourceTags } },
+        { category: source.category },
+        { _id: { $in: coSavedIds } },
+      ],
+    })
+      .sort({ likes: -1 })
+      .limit(CANDIDATE_LIMIT);
+
+    const score = (candidate: IWallpaper) => {
+      const signals: Array<[weight: number, value: number]> = [
+        [WEIGHTS.category, candidate.category === source.category ? 1 : 0],
+      ];
+
+      if (sourceTagWeight > 0) {
+        const candidateTags = new Set(candidate.tags);
+        const shared = sourceTags
+          .filter((tag) => candidateTags.has(tag))
+          .reduce((total, tag) => total + (rarity.get(tag) ?? 0), 0);
+        signals.push([WEIGHTS.tags, shared / sourceTagWeight]);
+      }
+
+      if (source.dominantColor && candidate.dominantColor) {
+        signals.push([
+          WEIGHTS.color,
+          colorSimilarity(source.dominantColor, candidate.dominantColor),
+        ]);
+      }
+
+      // Cosine similarity of the two wallpapers' savers
+      if (saverCount > 0) {
+        const shared = coSaves.get(candidate.id) ?? 0;
+        signals.push([
+          WEIGHTS.coEngagement,
+          shared &&
+            shared / Math.sqrt(saverCount * Math.max(candidate.saves, shared)),
+        ]);
+      }
+
+      const weight = signals.reduce((total, [w]) => total + w, 0);
+      return (
+        signals.reduce((total, [w, value]) => total + w * value, 0) / weight
+      );
+    };
+
+    return candidates
+      .filter(canAccess)
+      .map((wallpaper) => ({
+        wallpaper,
+        similarity: Math.round(score(wallpaper) * 1000) / 1000,
+      }))
+      .filter(({ similarity }) => similarity >= threshold)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+  }
+
+  // Inverse document frequency of each tag: the fewer wallpapers have it,
+  // the more sharing it says
+  private async getTagRarity(tags: string[]): Promise<Map<string, number>> {
+    if (tags.length === 0) {
+      return new Map();
+    }
+
+    const [total, frequencies] = await Promise.all([
+      Wallpaper.estimatedDocumentCount(),
+      Wallpaper.aggregate<{ _id: string; count: number }>([
+        { $match: { tags: { $in: tags } } },
+        { $unwind: '$tags' },
+        { $match: { tags: { $in: tags } } },
+        { $group: { _id: '$tags', count: { $sum: 1 } } },
+      ]),
+    ]);
+
+    return new Map(
+      frequencies.map(({ _id, count }) => [
+        _id,
+        Math.log(1 + Math.max(total, count) / count),
+      ]),
+    );
+  }
+
+  // How many of the source's savers (a sample of them) saved each other
+  // wallpaper
+  private async getCoSaves(source: IWallpaper) {
+    const savers = await User.find({ savedWallpapers: source._id })
+      .select('savedWallpapers')
+      .limit(SAVER_SAMPLE)
+      .lean();
+
+    const coSaves = new Map<string, number>();
+    for (const saver of savers) {
+      for (const id of saver.savedWallpapers) {
+        const key = id.toString();
+        if (key !== source.id) {
+          coSaves.set(key, (coSaves.get(key) ?? 0) + 1);
+        }
+      }
+    }
+
+    return { saverCount: savers.length, coSaves };
+  }
+}
+
+export const similarityService = SimilarityService.getInstance();
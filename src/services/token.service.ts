@@ -0,0 +1,312 @@
+import { Types } from 'mongoose';
+import config from '../config';
+import { DeviceToken } from '../models/deviceToken.model';
+import { RefreshToken } from '../models/refreshToken.model';
+import {
+  ISession,
+  Session,
+  SessionRevocationReason,
+} from '../models/session.model';
+import { IUser, User } from '../models/user.model';
+import { CustomError } from '../utils/customError';
+import logger from '../utils/logger';
+import { generateToken, hashToken } from '../utils/tokenUtils';
+import { KeyRing } from './keyRing.service';
+
+export interface TokenContext {
+  deviceId?: string;
+  deviceName?: string;
+  platform?: 'android' | 'ios' | 'web';
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
+export interface AccessTokenPayload {
+  id: string;
+  role: string;
+  sid: string;
+  type: 'access';
+}
+
+// How often the last-seen timestamp of a session is written back
+const LAST_SEEN_RESOLUTION_MS = 5 * 60 * 1000;
+
+class TokenService {
+  private static instance: TokenService;
+
+  private constructor() {}
+
+  public static getInstance(): TokenService {
+    if (!TokenService.instance) {
+      TokenService.instance = new TokenService();
+    }
+    return TokenService.instance;
+  }
+
+  // Access tokens carry the session they were issued for (sid); auth only
+  // accepts them while that session is active, so revoking the session
+  // invalidates every access token issued for it.
+  public generateAccessToken(user: IUser, sessionId: string): string {
+    return KeyRing.getInstance().sign(
+      {
+        id: user._id.toString(),
+        role: user.role,
+        sid: sessionId,
+        type: 'access',
+      },
+      {
+        expiresIn: config.tokens.accessTokenTtl,
+        issuer: config.jwt.issuer,
+        subject: user._id.toString(),
+      },
+    );
+  }
+
+  public verifyAccessToken(token: string): AccessTokenPayload {
+    const payload = KeyRing.getInstance().verify<AccessTokenPayload>(token, {
+      issuer: config.jwt.issuer,
+    });
+
+    // Other tokens signed with the same keys must not grant API access
+    if (payload.type !== 'access') {
+      throw new CustomError('Invalid token', 401);
+    }
+
+    return payload;
+  }
+
+  // Start a new session and issue its first access/refresh token pair
+  public async issueTokens(
+    user: IUser,
+    context: TokenContext = {},
+  ): Promise<AuthTokens> {
+    const session = await Session.create({
+      userId: user._id,
+      deviceId: context.deviceId,
+      deviceName: context.deviceName,
+      platform: context.platform,
+      ip: context.ip,
+      userAgent: context.userAgent,
+      lastSeenAt: new Date(),
+      expiresAt: this.refreshExpiry(),
+    });
+
+    const refreshToken = await this.createRefreshToken(user, session, context);
+
+    return {
+      token: this.generateAccessToken(user, session._id.toString()),
+      refreshToken,
+      expiresIn: config.tokens.accessTokenTtl,
+    };
+  }
+
+  // Exchange a refresh token for a new pair. Every refresh token can only be
+  // used once; presenting an already-used token revokes its whole session.
+  public async rotateRefreshToken(
+    rawToken: string,
+    context: TokenContext = {},
+  ): Promise<AuthTokens> {
+    const tokenHash = hashToken(rawToken);
+    const now = new Date();
+
+    // Claim the token atomically so concurrent refreshes cannot both succeed
+    const stored = await RefreshToken.findOneAndUpdate(
+      {
+        tokenHash,
+        usedAt: { $exists: false },
+        revokedAt: { $exists: false },
+        expiresAt: { $gt: now },
+      },
+      { $set: { usedAt: now } },
+      { new: true },
+    );
+
+    if (!stored) {
+      const existing = await RefreshToken.findOne({ tokenHash });
+
+      if (existing?.usedAt && !existing.revokedAt) {
+        logger.warn(
+          `Refresh token reuse detected for user ${existing.userId}, revoking session ${existing.sessionId}`,
+        );
+        await this.revokeSession(existing.sessionId, 'reuse_detected');
+      }
+
+      throw new CustomError('Invalid or expired refresh token', 401);
+    }
+
+    const session = await Session.findOne({
+      _id: stored.sessionId,
+      revokedAt: { $exists: false },
+    });
+    if (!session) {
+      throw new CustomError('Invalid or expired refresh token', 401);
+    }
+
+    const user = await User.findById(stored.userId);
+    if (!user) {
+      await this.revokeSession(session._id, 'user_deleted');
+      throw new CustomError('Invalid or expired refresh token', 401);
+    }
+
+    // Sliding expiry: every successful refresh extends the session
+    session.expiresAt = this.refreshExpiry();
+    session.lastSeenAt = now;
+    if (context.ip) session.ip = context.ip;
+    if (context.deviceName) session.deviceName = context.deviceName;
+    if (context.platform) session.platform = context.platform;
+    await session.save();
+
+    const refreshToken = await this.createRefreshToken(user, session, {
+      deviceId: context.deviceId || stored.deviceId,
+      ip: context.ip,
+      userAgent: context.userAgent,
+    });
+
+    stored.replacedByHash = hashToken(refreshToken);
+    await stored.save();
+
+    return {
+      token: this.generateAccessToken(user, session._id.toString()),
+      refreshToken,
+      expiresIn: config.tokens.accessTokenTtl,
+    };
+  }
+
+  // Returns the session if it is still usable, otherwise null
+  public async findActiveSession(
+    sessionId: string,
+    userId: string,
+  ): Promise<ISession | null> {
+    if (!Types.ObjectId.isValid(sessionId)) return null;
+
+    return Session.findOne({
+      _id: sessionId,
+      userId,
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    });
+  }
+
+  public async touchSession(session: ISession, ip?: string): Promise<void> {
+    const now = Date.now();
+    if (now - session.lastSeenAt.getTime() < LAST_SEEN_RESOLUTION_MS) return;
+
+    const update: Record<string, unknown> = { lastSeenAt: new Date(now) };
+    if (ip) update.ip = ip;
+
+    await Session.updateOne({ _id: session._id }, { $set: update });
+  }
+
+  public async listActiveSessions(
+    userId: Types.ObjectId | string,
+  ): Promise<ISession[]> {
+    return Session.find({
+      userId,
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    }).sort({ lastSeenAt: -1 });
+  }
+
+  public async revokeSession(
+    sessionId: Types.ObjectId | string,
+    reason: SessionRevocationReason,
+  ): Promise<void> {
+    const revokedAt = new Date();
+
+    const session = await Session.findOneAndUpdate(
+      { _id: sessionId, revokedAt: { $exists: false } },
+      { $set: { revokedAt, revokedReason: reason } },
+    );
+    await RefreshToken.updateMany(
+      { sessionId, revokedAt: { $exists: false } },
+      { $set: { revokedAt, revokedReason: reason } },
+    );
+
+    if (session) {
+      await this.deactivateDeviceTokens(session.userId, [session]);
+    }
+  }
+
+  // Revoke every session of a user, optionally keeping the current one
+  public async revokeAllSessions(
+    userId: Types.ObjectId | string,
+    reason: SessionRevocationReason,
+    exceptSessionId?: Types.ObjectId | string,
+  ): Promise<void> {
+    const sessionFilter: Record<string, unknown> = {
+      userId,
+      revokedAt: { $exists: false },
+    };
+    const tokenFilter: Record<string, unknown> = {
+      userId,
+      revokedAt: { $exists: false },
+    };
+
+    if (exceptSessionId) {
+      sessionFilter._id = { $ne: exceptSessionId };
+      tokenFilter.sessionId = { $ne: exceptSessionId };
+    }
+
+    const sessions = await Session.find(sessionFilter).select('deviceId');
+
+    const revokedAt = new Date();
+    await Session.updateMany(sessionFilter, {
+      $set: { revokedAt, revokedReason: reason },
+    });
+    await RefreshToken.updateMany(tokenFilter, {
+      $set: { revokedAt, revokedReason: reason },
+    });
+
+    await this.deactivateDeviceTokens(userId, sessions);
+  }
+
+  // A device that is no longer signed in must not keep receiving the user's
+  // push notifications
+  private async deactivateDeviceTokens(
+    userId: Types.ObjectId | string,
+    sessions: Pick<ISession, 'deviceId'>[],
+  ): Promise<void> {
+    const deviceIds = sessions
+      .map((session) => session.deviceId)
+      .filter((deviceId): deviceId is string => !!deviceId);
+
+    if (deviceIds.length === 0) return;
+
+    await DeviceToken.updateMany(
+      { userId, deviceId: { $in: deviceIds }, isActive: true },
+      { $set: { isActive: false } },
+    );
+  }
+
+  private refreshExpiry(): Date {
+    return new Date(Date.now() + config.tokens.refreshTokenTtl * 1000);
+  }
+
+  private async createRefreshToken(
+    user: IUser,
+    session: ISession,
+    context: TokenContext,
+  ): Promise<string> {
+    const refreshToken = generateToken(48);
+
+    await RefreshToken.create({
+      userId: user._id,
+      tokenHash: hashToken(refreshToken),
+      sessionId: session._id,
+      deviceId: context.deviceId,
+      expiresAt: session.expiresAt,
+      createdByIp: context.ip,
+      userAgent: context.userAgent,
+    });
+
+    return refreshToken;
+  }
+}
+
+export const tokenService = TokenService.getInstance();
@@ -0,0 +1,143 @@
+import mongoose from 'mongoose';
+import {
+  EngagementEvent,
+  EngagementType,
+} from '../models/engagementEvent.model';
+import {
+  TrendingRanking,
+  TrendingTimeframe,
+} from '../models/trendingRanking.model';
+import { IWallpaper, Wallpaper } from '../models/wallpaper.model';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Events older than the window are ignored; within it an event counts half
+// as much every half-life, so recent activity outranks older activity
+const TIMEFRAMES: Record<
+  TrendingTimeframe,
+  { windowMs: number; halfLifeMs: number }
+> = {
+  day: { windowMs: DAY, halfLifeMs: 6 * HOUR },
+  week: { windowMs: 7 * DAY, halfLifeMs: 2 * DAY },
+  month: { windowMs: 30 * DAY, halfLifeMs: 7 * DAY },
+};
+
+// How much one event of each type says about interest in a wallpaper
+const WEIGHTS: Record<EngagementType, number> = {
+  view: 1,
+  like: 3,
+  save: 4,
+  download: 5,
+};
+
+// Wallpapers kept per ranking, the most the trending endpoint returns
+const RANKING_SIZE = 100;
+
+class TrendingService {
+  private static instance: TrendingService;
+
+  private constructor() {}
+
+  public static getInstance(): TrendingService {
+    if (!TrendingService.instance) {
+      TrendingService.instance = new TrendingService();
+    }
+    return TrendingService.instance;
+  }
+
+  // Recomputes every timeframe's ranking from the engagement events. Run by
+  // the rollup-trending job; returns how many wallpapers each ranking holds.
+  public async computeRankings(
+    now = new Date(),
+  ): Promise<Record<TrendingTimeframe, number>> {
+    const counts = {} as Record<TrendingTimeframe, number>;
+
+    for (const timeframe of Object.keys(TIMEFRAMES) as TrendingTimeframe[]) {
+      const wallpapers = await this.computeRanking(timeframe, now);
+      await TrendingRanking.findOneAndUpdate(
+        { timeframe },
+        { wallpapers, computedAt: now },
+        { upsert: true },
+      );
+      counts[timeframe] = wallpapers.length;
+    }
+
+    return counts;
+  }
+
+  // The precomputed ranking, best first. Wallpapers deleted since the last
+  // rollup are skipped and the next ones in the ranking take their place.
+  // Empty until the first rollup.
+  public async getTrending(timeframe: TrendingTimeframe, limit: number) {
+    const ranking = await TrendingRanking.findOne({ timeframe }).lean();
+    if (!ranking) {
+      return [];
+    }
+
+    const found: IWallpaper[] = [];
+    for (
+      let offset = 0;
+      found.length < limit && offset < ranking.wallpapers.length;
+      offset += limit
+    ) {
+      const ids = ranking.wallpapers
+        .slice(offset, offset + limit)
+        .map(({ wallpaperId }) => wallpaperId.toString());
+      const wallpapers = await Wallpaper.find({ _id: { $in: ids } }).populate(
+        'uploadedBy',
+        'name email',
+      );
+      found.push(
+        ...wallpapers.sort((a, b) => ids.indexOf(a.id) - ids.indexOf(b.id)),
+      );
+    }
+
+    return found.slice(0, limit);
+  }
+
+  private async computeRanking(timeframe: TrendingTimeframe, now: Date) {
+    const { windowMs, halfLifeMs } = TIMEFRAMES[timeframe];
+
+    const scores = await EngagementEvent.aggregate<{
+      _id: mongoose.Types.ObjectId;
+      score: number;
+    }>([
+      { $match: { createdAt: { $gte: new Date(now.getTime() - windowMs) } } },
+      {
+        $group: {
+          _id: '$wallpaperId',
+          score: {
+            $sum: {
+              $multiply: [
+                {
+                  $switch: {
+                    branches: Object.entries(WEIGHTS).map(([type, weight]) => ({
+                      case: { $eq: ['$type', type] },
+                      then: weight,
+                    })),
+                    default: 0,
+                  },
+                },
+                {
+                  $pow: [
+                    0.5,
+                    {
+                      $divide: [{ $subtract: [now, '$createdAt'] }, halfLifeMs],
+                    },
+                  ],
+                },
+              ],
+            },
+          },
+        },
+      },
+      { $sort: { score: -1 } },
+      { $limit: RANKING_SIZE },
+    ]);
+
+    return scores.map(({ _id, score }) => ({ wallpaperId: _id, score }));
+  }
+}
+
+export const trendingService = TrendingService.getInstance();
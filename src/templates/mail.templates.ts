@@ -0,0 +1,141 @@
+import { MailMessage } from '../services/mail.service';
+
+export type MailTemplate = Omit<MailMessage, 'to'>;
+
+interface ActionEmail {
+  subject: string;
+  greeting: string;
+  intro: string;
+  actionLabel: string;
+  actionUrl: string;
+  outro: string;
+}
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Every transactional email is a short message with a single call to action.
+// The plain-text part carries the same content for clients without HTML.
+const renderActionEmail = (email: ActionEmail): MailTemplate => {
+  const text = [
+    email.greeting,
+    '',
+    email.intro,
+    '',
+    `${email.actionLabel}: ${email.actionUrl}`,
+    '',
+    email.outro,
+  ].join('\n');
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f4f4f5;font-family:Arial,sans-serif;color:#18181b;">
+    <table role="presentation" width="100%" style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:32px;">
+      <tr><td>
+        <p>${escapeHtml(email.greeting)}</p>
+        <p>${escapeHtml(email.intro)}</p>
+        <p style="text-align:center;margin:32px 0;">
+          <a href="${escapeHtml(email.actionUrl)}" style="background:#4f46e5;color:#ffffff;padding:12px 24px;border-radius:6px;text-decoration:none;">${escapeHtml(email.actionLabel)}</a>
+        </p>
+        <p style="font-size:13px;color:#52525b;">If the button does not work, copy this link into your browser:<br>${escapeHtml(email.actionUrl)}</p>
+        <p style="font-size:13px;color:#52525b;">${escapeHtml(email.outro)}</p>
+      </td></tr>
+    </table>
+  </body>
+</html>`;
+
+  return { subject: email.subject, text, html };
+};
+
+export const emailVerificationEmail = (
+  name: string,
+  link: string,
+): MailTemplate =>
+  renderActionEmail({
+    subject: 'Verify your email address',
+    greeting: `Hi ${name},`,
+    intro:
+      'Please confirm your email address to finish setting up your account.',
+    actionLabel: 'Verify email',
+    actionUrl: link,
+    outro: 'If you did not create an account, you can ignore this email.',
+  });
+
+export const passwordResetEmail = (
+  name: string,
+  link: string,
+  expiresInMinutes: number,
+): MailTemplate =>
+  renderActionEmail({
+    subject: 'Reset your password',
+    greeting: `Hi ${name},`,
+    intro: `We received a request to reset your password. The link is valid for ${expiresInMinutes} minutes and can only be used once.`,
+    actionLabel: 'Reset password',
+    actionUrl: link,
+    outro:
+      'If you did not request a password reset, you can ignore this email; your password will not change.',
+  });
+
+export const magicLinkEmail = (
+  name: string,
+  link: string,
+  expiresInMinutes: number,
+): MailTemplate =>
+  renderActionEmail({
+    subject: 'Your sign-in link',
+    greeting: `Hi ${name},`,
+    intro: `Use the button below to sign in. The link is valid for ${expiresInMinutes} minutes and can only be used once.`,
+    actionLabel: 'Sign in',
+    actionUrl: link,
+    outro:
+      'If you did not ask to sign in, you can ignore this email; nobody can sign in without this link.',
+  });
+
+export const accountLockedEmail = (
+  name: string,
+  resetLink: string,
+  lockedUntil: Date,
+): MailTemplate =>
+  renderActionEmail({
+    subject: 'Your account has been temporarily locked',
+    greeting: `Hi ${name},`,
+    intro: `We noticed several failed attempts to sign in to your account, so signing in is blocked until ${lockedUntil.toUTCString()}. If this was you, you can try again after that time or reset your password now.`,
+    actionLabel: 'Reset password',
+    actionUrl: resetLink,
+    outro:
+      'If this was not you, someone may be trying to guess your password. We recommend choosing a new, strong password.',
+  });
+
+export const passwordChangedEmail = (
+  name: string,
+  resetLink: string,
+): MailTemplate =>
+  renderActionEmail({
+    subject: 'Your password was changed',
+    greeting: `Hi ${name},`,
+    intro:
+      'The password of your account was just changed, and every other device was signed out.',
+    actionLabel: 'Reset password',
+    actionUrl: resetLink,
+    outro:
+      'If this was you, there is nothing else to do. If it was not, reset your password right away.',
+  });
+
+export const accountDeletionScheduledEmail = (
+  name: string,
+  loginLink: string,
+  scheduledFor: Date,
+): MailTemplate =>
+  renderActionEmail({
+    subject: 'Your account will be deleted',
+    greeting: `Hi ${name},`,
+    intro: `As requested, your account and all of its data will be permanently deleted on ${scheduledFor.toUTCString()}. You have been signed out on all devices. Changed your mind? Just sign in again before then and your account stays.`,
+    actionLabel: 'Keep my account',
+    actionUrl: loginLink,
+    outro: 'If you did not ask for this, sign in now and change your password.',
+  });
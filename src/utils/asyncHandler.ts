@@ -0,0 +1,20 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+
+// Express 4 does not catch rejected promises. Wrapping an async handler
+// forwards whatever it throws to the error handler.
+export const asyncHandler =
+  <
+    P = Request['params'],
+    ResBody = unknown,
+    ReqBody = unknown,
+    Q = Request['query'],
+  >(
+    handler: (
+      req: Request<P, ResBody, ReqBody, Q>,
+      res: Response<ResBody>,
+      next: NextFunction,
+    ) => unknown,
+  ): RequestHandler<P, ResBody, ReqBody, Q> =>
+  (req, res, next) => {
+    Promise.resolve(handler(req, res, next)).catch(next);
+  };
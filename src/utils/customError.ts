@@ -1,7 +1,203 @@
+import mongoose from 'mongoose';
+import multer from 'multer';
+import { ZodError } from 'zod';
+
+// Stable, machine-readable codes clients can branch on. Messages may change;
+// codes do not.
+export type ErrorCode =
+  | 'BAD_REQUEST'
+  | 'VALIDATION_ERROR'
+  | 'INVALID_ID'
+  | 'INVALID_JSON'
+  | 'UNAUTHORIZED'
+  | 'TOKEN_EXPIRED'
+  | 'INVALID_API_KEY'
+  | 'ACCOUNT_LOCKED'
+  | 'FORBIDDEN'
+  | 'ACCOUNT_SUSPENDED'
+  | 'EMAIL_NOT_VERIFIED'
+  | 'PASSWORD_RESET_REQUIRED'
+  | 'TWO_FACTOR_REQUIRED'
+  | 'REAUTHENTICATION_REQUIRED'
+  | 'SUBSCRIPTION_REQUIRED'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'REQUEST_TIMEOUT'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'RATE_LIMIT_EXCEEDED'
+  | 'INTERNAL_SERVER_ERROR'
+  | 'SERVICE_UNAVAILABLE';
+
+export interface ErrorDetail {
+  field: string;
+  message: string;
+}
+
+const defaultCodes: Record<number, ErrorCode> = {
+  400: 'BAD_REQUEST',
+  401: 'UNAUTHORIZED',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+  408: 'REQUEST_TIMEOUT',
+  409: 'CONFLICT',
+  413: 'PAYLOAD_TOO_LARGE',
+  429: 'RATE_LIMIT_EXCEEDED',
+  503: 'SERVICE_UNAVAILABLE',
+};
+
 export class CustomError extends Error {
   statusCode: number;
-  constructor(message: string, statusCode: number) {
+  code: ErrorCode;
+  details?: ErrorDetail[];
+  cause?: unknown; // the error this one replaces, for the logs only
+
+  constructor(
+    message: string,
+    statusCode: number,
+    code?: ErrorCode,
+    details?: ErrorDetail[],
+  ) {
     super(message);
+    this.name = new.target.name;
     this.statusCode = statusCode;
+    this.code =
+      code ||
+      defaultCodes[statusCode] ||
+      (statusCode >= 500 ? 'INTERNAL_SERVER_ERROR' : 'BAD_REQUEST');
+    this.details = details;
+  }
+}
+
+export class ValidationError extends CustomError {
+  constructor(message: string, details: ErrorDetail[] = []) {
+    super(message, 400, 'VALIDATION_ERROR', details);
+  }
+}
+
+export class UnauthorizedError extends CustomError {
+  constructor(message = 'Please authenticate', code?: ErrorCode) {
+    super(message, 401, code || 'UNAUTHORIZED');
+  }
+}
+
+export class ForbiddenError extends CustomError {
+  constructor(message: string, code?: ErrorCode) {
+    super(message, 403, code || 'FORBIDDEN');
+  }
+}
+
+export class NotFoundError extends CustomError {
+  constructor(message: string) {
+    super(message, 404, 'NOT_FOUND');
+  }
+}
+
+export class ConflictError extends CustomError {
+  constructor(message: string, details?: ErrorDetail[]) {
+    super(message, 409, 'CONFLICT', details);
+  }
+}
+
+// Sent with a Retry-After header
+export class TooManyRequestsError extends CustomError {
+  retryAfter: number; // seconds
+
+  constructor(
+    message: string,
+    retryAfter: number,
+    code: ErrorCode = 'RATE_LIMIT_EXCEEDED',
+    statusCode = 429,
+  ) {
+    super(message, statusCode, code);
+    this.retryAfter = Math.max(Math.ceil(retryAfter), 1);
   }
 }
+
+const zodDetails = (error: ZodError): ErrorDetail[] =>
+  error.errors.map((issue) => ({
+    field: issue.path.join('.'),
+    message: issue.message,
+  }));
+
+// Turns errors from libraries into our own, or returns null for errors that
+// are not safe to show to clients
+export const normalizeError = (error: unknown): CustomError | null => {
+  if (error instanceof CustomError) return error;
+
+  if (error instanceof ZodError) {
+    return new ValidationError('Invalid request data', zodDetails(error));
+  }
+
+  if (error instanceof mongoose.Error.CastError) {
+    return new CustomError(`Invalid ${error.path}`, 400, 'INVALID_ID', [
+      { field: error.path, message: `Invalid value for ${error.kind}` },
+    ]);
+  }
+
+  if (error instanceof mongoose.Error.ValidationError) {
+    return new ValidationError(
+      'Invalid data',
+      Object.values(error.errors).map((fieldError) => ({
+        field: fieldError.path,
+        message: fieldError.message,
+      })),
+    );
+  }
+
+  if (error instanceof multer.MulterError) {
+    return error.code === 'LIMIT_FILE_SIZE'
+      ? new CustomError('File is too large', 413)
+      : new ValidationError(error.message, [
+          { field: error.field || 'file', message: error.message },
+        ]);
+  }
+
+  const { code, keyValue } = error as {
+    code?: number;
+    keyValue?: Record<string, unknown>;
+  };
+  if (code === 11000) {
+    const fields = Object.keys(keyValue || {});
+    return new ConflictError(
+      fields.length > 0
+        ? `A record with this ${fields.join(', ')} already exists`
+        : 'A record with these values already exists',
+      fields.map((field) => ({ field, message: 'Already in use' })),
+    );
+  }
+
+  // Errors raised by Express' own middleware (body parser, ...) carry a
+  // status and say whether their message may be exposed
+  const httpError = error as {
+    status?: number;
+    expose?: boolean;
+    type?: string;
+    message?: string;
+  };
+  if (httpError.type === 'entity.parse.failed') {
+    return new CustomError(
+      'Malformed JSON in request body',
+      400,
+      'INVALID_JSON',
+    );
+  }
+  if (typeof httpError.status === 'number' && httpError.expose) {
+    return new CustomError(
+      httpError.message || 'Bad request',
+      httpError.status,
+    );
+  }
+
+  return null;
+};
+
+// Used in controller catch blocks: lets errors the error handler can report
+// through and hides anything else behind a generic 500 with the given message
+export const wrapError = (error: unknown, message: string): CustomError => {
+  const known = normalizeError(error);
+  if (known) return known;
+
+  const wrapped = new CustomError(message, 500);
+  wrapped.cause = error;
+  return wrapped;
+};
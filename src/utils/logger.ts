@@ -1,12 +1,27 @@
 import path from 'path';
 import winston from 'winston';
 import 'winston-daily-rotate-file';
+import config from '../config';
+import { createRedactor } from './redact';
+import { getRequestContext } from './requestContext';
 
 const isProduction = process.env.NODE_ENV === 'production';
 const logDir = 'logs'; // Only used for non-production
 
 const loggerTransports: winston.transport[] = [];
 
+// Tags every entry logged while handling a request with its request ID and,
+// once known, the user and API client
+const requestContext = winston.format((info) => {
+  const context = getRequestContext();
+  return context ? Object.assign(info, { ...context, ...info }) : info;
+});
+
+const redact = createRedactor(config.logging.redactFields);
+const redactSensitive = winston.format((info) =>
+  Object.assign(info, redact(info)),
+);
+
 if (isProduction) {
   // In production (Vercel), log to console so Vercel can capture it.
   loggerTransports.push(
@@ -37,7 +52,8 @@ if (isProduction) {
         winston.format.simple(),
         winston.format.timestamp({ format: 'YYYY-MM-DD HH:mm:ss' }),
         winston.format.printf(
-          (info) => `${info.timestamp} ${info.level}: ${info.message}`,
+          (info) =>
+            `${info.timestamp} ${info.level}${info.requestId ? ` [${info.requestId}]` : ''}: ${info.message}`,
         ),
       ),
     }),
@@ -46,6 +62,11 @@ if (isProduction) {
 
 const logger = winston.createLogger({
   level: isProduction ? 'info' : 'debug',
+  format: winston.format.combine(
+    requestContext(),
+    redactSensitive(),
+    winston.format.json(),
+  ),
   transports: loggerTransports,
 });
 
@@ -0,0 +1,56 @@
+export const REDACTED = '[REDACTED]';
+
+const MAX_DEPTH = 8;
+
+// Header and field names are matched case-insensitively, ignoring - and _,
+// so "apiKey", "api_key" and "API-KEY" are the same field
+const normalize = (key: string) => key.toLowerCase().replace(/[-_]/g, '');
+
+export const createRedactor = (fields: string[]) => {
+  const sensitive = new Set(fields.map(normalize));
+
+  const redactValue = (
+    value: unknown,
+    depth: number,
+    ancestors: WeakSet<object>,
+  ): unknown => {
+    if (value === null || typeof value !== 'object') return value;
+    if (ancestors.has(value)) return '[Circular]';
+    if (depth >= MAX_DEPTH) return '[Truncated]';
+
+    if (value instanceof Error) {
+      return { name: value.name, message: value.message, stack: value.stack };
+    }
+    // Dates, ObjectIds, Mongoose documents, ... are logged as they serialize
+    if ('toJSON' in value && typeof value.toJSON === 'function') {
+      return redactValue(value.toJSON(), depth + 1, ancestors);
+    }
+
+    return redactObject(value as Record<string, unknown>, depth, ancestors);
+  };
+
+  const redactObject = (
+    object: Record<string, unknown> | unknown[],
+    depth: number,
+    ancestors: WeakSet<object>,
+  ) => {
+    ancestors.add(object);
+    const copy = Array.isArray(object)
+      ? object.map((item) => redactValue(item, depth + 1, ancestors))
+      : Object.fromEntries(
+          Object.entries(object).map(([key, value]) => [
+            key,
+            sensitive.has(normalize(key))
+              ? REDACTED
+              : redactValue(value, depth + 1, ancestors),
+          ]),
+        );
+    ancestors.delete(object);
+    return copy;
+  };
+
+  // Returns a copy of the object with sensitive fields masked at any depth;
+  // the original is left untouched
+  return (object: Record<string, unknown>) =>
+    redactObject(object, 0, new WeakSet()) as Record<string, unknown>;
+};
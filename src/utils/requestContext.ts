@@ -0,0 +1,30 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface RequestContext {
+  requestId: string;
+  userId?: string;
+  apiClientId?: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+// Runs fn with the context visible to everything it calls, including
+// callbacks and promises started from it
+export const runWithRequestContext = <T>(
+  context: RequestContext,
+  fn: () => T,
+) => storage.run(context, fn);
+
+export const getRequestContext = (): RequestContext | undefined =>
+  storage.getStore();
+
+// Adds fields (e.g. the user once authenticated) to the current context. Does
+// nothing outside a request.
+export const setRequestContext = (
+  fields: Partial<Omit<RequestContext, 'requestId'>>,
+) => {
+  const context = storage.getStore();
+  if (context) {
+    Object.assign(context, fields);
+  }
+};
@@ -0,0 +1,9 @@
+import crypto from 'crypto';
+
+// Opaque tokens handed to clients (refresh tokens, reset links, ...). Only
+// their hash is ever stored.
+export const generateToken = (bytes = 32): string =>
+  crypto.randomBytes(bytes).toString('base64url');
+
+export const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import { Role, roles } from '../config/permissions';
+
+// Unlock login schema
+export const unlockLoginSchema = z
+  .object({
+    email: z.string().email('Invalid email format').trim().toLowerCase(),
+    ip: z.string().ip('Invalid IP address'),
+  })
+  .partial()
+  .refine((data) => data.email || data.ip, {
+    message: 'Either email or ip is required',
+    path: ['email'],
+  });
+
+const objectId = (label: string) =>
+  z
+    .string()
+    .refine((id) => /^[0-9a-fA-F]{24}$/.test(id), `Invalid ${label} format`);
+
+// User params schema
+export const userParamsSchema = z.object({
+  id: objectId('user ID'),
+});
+
+// User search schema
+export const userSearchSchema = z.object({
+  search: z.string().trim().max(100).optional(),
+  email: z.string().trim().toLowerCase().max(100).optional(),
+  name: z.string().trim().max(50).optional(),
+  role: z.enum(roles as [Role, ...Role[]]).optional(),
+  status: z.enum(['active', 'suspended']).optional(),
+  createdFrom: z.coerce.date().optional(),
+  createdTo: z.coerce.date().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// Change role schema
+export const changeRoleSchema = z.object({
+  role: z.enum(roles as [Role, ...Role[]]),
+});
+
+// Suspend user schema
+export const suspendUserSchema = z.object({
+  reason: z.string().trim().min(3).max(500),
+});
+
+// Audit log query schema
+export const auditLogQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
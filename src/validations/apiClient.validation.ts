@@ -0,0 +1,54 @@
+import { z } from 'zod';
+import { ApiScope, apiScopes } from '../config/apiScopes';
+
+const scopesSchema = z
+  .array(z.enum(apiScopes as [ApiScope, ...ApiScope[]]))
+  .min(1, 'At least one scope is required');
+
+const rateLimitSchema = z.object({
+  limit: z.number().int().min(1),
+  windowSeconds: z.number().int().min(1).max(86400),
+});
+
+const expiresAtSchema = z.coerce
+  .date()
+  .refine((date) => date > new Date(), 'Expiry must be in the future');
+
+// Create API client schema
+export const createApiClientSchema = z.object({
+  name: z.string().trim().min(2).max(50),
+  description: z.string().trim().max(500).optional(),
+  scopes: scopesSchema,
+  rateLimit: rateLimitSchema.optional(),
+  expiresAt: expiresAtSchema.optional(),
+});
+
+// Update API client schema
+export const updateApiClientSchema = z.object({
+  description: z.string().trim().max(500).optional(),
+  scopes: scopesSchema.optional(),
+  rateLimit: rateLimitSchema.optional(),
+});
+
+// Rotate API key schema
+export const rotateApiKeySchema = z.object({
+  overlapSeconds: z.number().int().min(0).default(86400),
+  expiresAt: expiresAtSchema.optional(),
+});
+
+// API client params schema
+export const apiClientParamsSchema = z.object({
+  id: z
+    .string()
+    .refine(
+      (id) => /^[0-9a-fA-F]{24}$/.test(id),
+      'Invalid API client ID format',
+    ),
+});
+
+// API key params schema
+export const apiKeyParamsSchema = apiClientParamsSchema.extend({
+  keyId: z
+    .string()
+    .refine((id) => /^[0-9a-fA-F]{24}$/.test(id), 'Invalid API key ID format'),
+});
@@ -16,9 +16,17 @@ const userBaseSchema = z.object({
     .toLowerCase(),
 });
 
+// Optional information about the device a session is started from
+const deviceFields = {
+  deviceId: z.string().max(200).optional(),
+  deviceName: z.string().max(100).trim().optional(),
+  platform: z.enum(['android', 'ios', 'web']).optional(),
+};
+
 // Registration schema
 export const registerSchema = userBaseSchema
   .extend({
+    ...deviceFields,
     password: z
       .string()
       .min(8, 'Password must be at least 8 characters long')
@@ -38,6 +46,25 @@ export const registerSchema = userBaseSchema
 export const loginSchema = z.object({
   email: z.string().email('Invalid email format').trim().toLowerCase(),
   password: z.string().min(1, 'Password is required'),
+  ...deviceFields,
+});
+
+// Refresh token schema
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, 'Refresh token is required'),
+  ...deviceFields,
+});
+
+// Email verification schema
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+});
+
+// Session params schema
+export const sessionParamsSchema = z.object({
+  id: z
+    .string()
+    .refine((id) => /^[0-9a-fA-F]{24}$/.test(id), 'Invalid session ID format'),
 });
 
 // Password reset request schema
@@ -45,6 +72,16 @@ export const passwordResetRequestSchema = z.object({
   email: z.string().email('Invalid email format').trim().toLowerCase(),
 });
 
+// Magic link request schema. With a name, an account is created for an
+// unknown email.
+export const magicLinkRequestSchema = userBaseSchema.partial({ name: true });
+
+// Magic link verify schema
+export const magicLinkVerifySchema = z.object({
+  ...deviceFields,
+  token: z.string().min(1, 'Token is required'),
+});
+
 // Password reset schema
 export const passwordResetSchema = z
   .object({
@@ -85,3 +122,58 @@ export const changePasswordSchema = z
     message: "Passwords don't match",
     path: ['confirmNewPassword'],
   });
+
+// Delete account schema
+export const deleteAccountSchema = z.object({
+  password: z.string().optional(),
+});
+
+const totpCode = z.string().regex(/^\d{6}$/, 'Code must be 6 digits');
+
+// Two-factor code schema
+export const twoFactorCodeSchema = z.object({
+  code: totpCode,
+});
+
+// Second login step schema
+export const twoFactorLoginSchema = z
+  .object({
+    challengeToken: z.string().min(1, 'Challenge token is required'),
+    code: totpCode.optional(),
+    recoveryCode: z.string().min(1).max(20).optional(),
+    ...deviceFields,
+  })
+  .refine((data) => data.code || data.recoveryCode, {
+    message: 'Either code or recoveryCode is required',
+    path: ['code'],
+  });
+
+// Disable two-factor schema
+export const disableTwoFactorSchema = z
+  .object({
+    // Required for accounts that have a password
+    password: z.string().min(1).optional(),
+    code: totpCode.optional(),
+    recoveryCode: z.string().min(1).max(20).optional(),
+  })
+  .refine((data) => data.code || data.recoveryCode, {
+    message: 'Either code or recoveryCode is required',
+    path: ['code'],
+  });
+
+// OAuth provider params schema
+export const oauthProviderParamsSchema = z.object({
+  provider: z.enum(['google', 'apple']),
+});
+
+// OAuth sign-in schema
+export const oauthLoginSchema = z.object({
+  idToken: z.string().min(1, 'ID token is required'),
+  name: z.string().min(2).max(50).trim().optional(),
+  ...deviceFields,
+});
+
+// OAuth link schema
+export const oauthLinkSchema = z.object({
+  idToken: z.string().min(1, 'ID token is required'),
+});
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+// Base category schema
+const categoryBaseSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, 'Name must be at least 2 characters long')
+    .max(50, 'Name must not exceed 50 characters'),
+  description: z
+    .string()
+    .trim()
+    .min(1, 'Description is required')
+    .max(500, 'Description must not exceed 500 characters'),
+});
+
+// Create category schema
+export const createCategorySchema = categoryBaseSchema;
+
+// Update category schema
+export const updateCategorySchema = categoryBaseSchema.partial();
+
+// Params schema
+export const categoryParamsSchema = z.object({
+  id: z
+    .string()
+    .refine((id) => /^[0-9a-fA-F]{24}$/.test(id), 'Invalid category ID format'),
+});
+
+// List query schema
+export const categoryQuerySchema = z.object({
+  search: z.string().trim().max(100).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+});
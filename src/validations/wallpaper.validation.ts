@@ -26,18 +26,27 @@ const wallpaperBaseSchema = z.object({
   subscriptionTier: z.enum(['free', 'basic', 'premium']).default('free'),
 });
 
-// Upload wallpaper schema
+// Form fields and query parameters arrive as strings: tags as a JSON array or a
+// comma-separated list, isPremium as "true" or "false"
+const formTags = z.preprocess((value) => {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value.split(',').filter((tag) => tag.trim());
+  }
+}, wallpaperBaseSchema.shape.tags);
+
+const formBoolean = z.preprocess(
+  (value) => (value === 'true' ? true : value === 'false' ? false : value),
+  z.boolean(),
+);
+
+// Upload wallpaper schema (multipart body, the image itself is checked by
+// the upload middleware)
 export const uploadWallpaperSchema = wallpaperBaseSchema.extend({
-  image: z
-    .any()
-    .refine(
-      (file) => file && file.mimetype.startsWith('image/'),
-      'Only image files are allowed',
-    )
-    .refine(
-      (file) => file && file.size <= 10 * 1024 * 1024,
-      'File size must be less than 10MB',
-    ),
+  tags: formTags,
+  isPremium: formBoolean.default(false),
 });
 
 // Update wallpaper schema
@@ -47,6 +56,10 @@ export const updateWallpaperSchema = wallpaperBaseSchema.partial();
 export const wallpaperQuerySchema = z.object({
   category: z.string().optional(),
   search: z.string().optional(),
+  isPremium: formBoolean.optional(),
+  subscriptionTier: wallpaperBaseSchema.shape.subscriptionTier
+    .removeDefault()
+    .optional(),
   page: z
     .string()
     .transform((val) => parseInt(val, 10))
@@ -86,7 +99,7 @@ export const searchQuerySchema = z.object({
 
 // Params schema
 export const wallpaperParamsSchema = z.object({
-  wallpaperId: z
+  id: z
     .string()
     .refine(
       (id) => /^[0-9a-fA-F]{24}$/.test(id),
@@ -104,3 +117,57 @@ export const limitQuerySchema = z.object({
       message: 'Limit must be between 1 and 100',
     }),
 });
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const isTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Statistics query schema. The range defaults to the last 30 days and is
+// capped so a response has at most a few hundred periods.
+export const statsQuerySchema = z
+  .object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    granularity: z.enum(['hour', 'day', 'week']).default('day'),
+    timezone: z.string().refine(isTimezone, 'Invalid timezone').default('UTC'),
+  })
+  .transform(({ from, to = new Date(), ...query }) => ({
+    ...query,
+    from: from ?? new Date(to.getTime() - 30 * DAY),
+    to,
+  }))
+  .refine(({ from, to }) => from < to, {
+    message: 'from must be before to',
+    path: ['from'],
+  })
+  .refine(
+    ({ from, to, granularity }) =>
+      to.getTime() - from.getTime() <=
+      (granularity === 'hour' ? 31 : 366) * DAY,
+    {
+      message:
+        'The range must not exceed 31 days for hourly and 366 days for daily or weekly statistics',
+      path: ['from'],
+    },
+  );
+
+// Trending query schema
+export const trendingQuerySchema = limitQuerySchema.extend({
+  timeframe: z.enum(['day', 'week', 'month']).default('week'),
+});
+
+// Similar wallpapers query schema
+export const similarQuerySchema = limitQuerySchema.extend({
+  similarityThreshold: z.coerce
+    .number()
+    .min(0, 'Similarity threshold must be between 0 and 1')
+    .max(1, 'Similarity threshold must be between 0 and 1')
+    .default(0.7),
+});